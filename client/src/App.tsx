@@ -1,45 +1,132 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Chessboard } from 'react-chessboard';
 import EvaluationBar from './components/EvaluationBar';
 import OpponentSelector from './components/OpponentSelector';
 import LoginForm from './components/LoginForm';
 import RegisterForm from './components/RegisterForm';
-import { useChessGame } from './hooks/useChessGame';
+import RatingChart from './components/RatingChart';
+import ChessClock from './components/ChessClock';
+import ColorSelector from './components/ColorSelector';
+import GameAnalysis from './components/GameAnalysis';
+import EngineLinesPanel from './components/EngineLinesPanel';
+import GameImportExport from './components/GameImportExport';
+import MoveList from './components/MoveList';
+import ChatPanel from './components/ChatPanel';
+import EngineMatchPanel from './components/EngineMatchPanel';
+import PuzzleTrainer from './components/PuzzleTrainer';
+import LiveGames from './components/LiveGames';
+import PromotionPicker from './components/PromotionPicker';
+import TimeControlSelector, { TIME_CONTROL_PRESETS, formatTimeControl } from './components/TimeControlSelector';
+import StrengthSelector, { BOOK_PLIES, getPresetStrength } from './components/StrengthSelector';
+import { StartPosition, useChessGame } from './hooks/useChessGame';
 import { useOpponent } from './hooks/useOpponent';
 import { useAuth } from './hooks/useAuth';
 import { useWebSocket } from './hooks/useWebSocket';
-import { OnlineUser, WebSocketMessage } from '../../shared/types';
+import { useRatingHistory } from './hooks/useRatingHistory';
+import { useGameAnalysis } from './hooks/useGameAnalysis';
+import { useEngineLines } from './hooks/useEngineLines';
+import { useEngineMatch } from './hooks/useEngineMatch';
+import { usePuzzleTrainer } from './hooks/usePuzzleTrainer';
+import { useSpectator } from './hooks/useSpectator';
+import { useGameChat } from './hooks/useGameChat';
+import { ColorChoice, OnlineUser, TimeControl, WebSocketMessage } from '../../shared/types';
 import './App.css';
 
+interface IncomingChallenge {
+  from: string;
+  timeControl: TimeControl | null;
+}
+
 const App: React.FC = () => {
-  const { user, handleLogin, handleRegister, handleLogout } = useAuth();
+  const { user, handleLogin, handleRegister, handleLogout, refreshUser } = useAuth();
+  const { ratingHistory, refreshRatingHistory } = useRatingHistory(user);
+  const { ws, connected } = useWebSocket(user);
+  const { opponent, setOpponent, opponents, searchDepth, setSearchDepth, setEngineStrength } = useOpponent();
+  const selectedOpponent = opponents.find(info => info.id === opponent);
+  const [timeControlPresetId, setTimeControlPresetId] = useState('untimed');
+  const [colorChoice, setColorChoice] = useState<ColorChoice>('w');
+  const [strengthPresetId, setStrengthPresetId] = useState('custom');
+  const strength = getPresetStrength(strengthPresetId, searchDepth);
+  const [varyOpenings, setVaryOpenings] = useState(false);
+  const selectedTimeControl = TIME_CONTROL_PRESETS.find(preset => preset.id === timeControlPresetId)?.timeControl || undefined;
   const {
     game,
-    fen,
+    opponent: gameOpponent,
     selectedPiece,
-    moveHistory,
-    evaluation,
-    suggestedMove,
+    fullHistory,
+    startFen,
+    opening,
+    viewPly,
+    displayFen,
+    displayEvaluation,
+    goToPly,
+    goToFirst,
+    goToPrevious,
+    goToNext,
+    goToLast,
     startNewGame,
     undoLastMove,
-    setSuggestedMove,
+    getPgn,
     onPieceDrop,
     onSquareClick,
+    pendingPromotion,
+    choosePromotion,
+    cancelPromotion,
     gameStatus,
-    resign
-  } = useChessGame();
-  const { opponent, setOpponent, searchDepth, setSearchDepth, setStockfishDepth } = useOpponent();
-  const { ws } = useWebSocket(user);
+    resign,
+    multiplayer,
+    playerColor,
+    resignedColor,
+    startMultiplayerGame,
+    resumeMultiplayerGame,
+    applyGameState,
+    gameId,
+    timeControl,
+    clock,
+    runningClock
+  } = useChessGame(ws, { strength, timeControl: selectedTimeControl, bookPlies: varyOpenings ? BOOK_PLIES : undefined });
+  const { analysis, analysisError, analyzeGame, clearAnalysis } = useGameAnalysis();
+  const { match, matchError, startEngineMatch, stopEngineMatch, applyMatchUpdate } = useEngineMatch(ws);
+  const {
+    puzzle,
+    fen: puzzleFen,
+    status: puzzleStatus,
+    puzzleRating,
+    ratingChange: puzzleRatingChange,
+    refutation: puzzleRefutation,
+    solution: puzzleSolution,
+    puzzleError,
+    pendingPromotion: pendingPuzzlePromotion,
+    loadNextPuzzle,
+    playPuzzleMove,
+    choosePromotion: choosePuzzlePromotion,
+    cancelPromotion: cancelPuzzlePromotion
+  } = usePuzzleTrainer();
+  const {
+    liveGames,
+    watchedGame,
+    spectatorClock,
+    spectatorRunningClock,
+    watchGame,
+    stopWatching,
+    applyLiveGames,
+    applySpectatorState
+  } = useSpectator(ws, user);
+  const { chatMessages, chatError, sendChatMessage, applyChatMessage, applyChatRejection } = useGameChat(ws, multiplayer ? multiplayer.gameId : null);
+  const ownLiveGame = multiplayer ? liveGames.find(liveGame => liveGame.gameId === multiplayer.gameId) : undefined;
+  const [showEngineLines, setShowEngineLines] = useState(false);
+  // Engine lines need a login, and are off limits while a game against another player is running
+  const engineLinesAllowed = user !== null && !(multiplayer && gameStatus === 'active');
+  const { engineLines } = useEngineLines(displayFen, showEngineLines && engineLinesAllowed, gameId);
+  const bestLine = showEngineLines && engineLinesAllowed && engineLines && engineLines.lines.length > 0 ? engineLines.lines[0] : null;
 
   const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
-  const [incomingChallenges, setIncomingChallenges] = useState<string[]>([]);
+  const [incomingChallenges, setIncomingChallenges] = useState<IncomingChallenge[]>([]);
+  // The time the disconnected multiplayer opponent has to come back, null while they are connected
+  const [opponentGraceMs, setOpponentGraceMs] = useState<number | null>(null);
 
   const boardSize = 600;
 
-  const startNewGameWithOpponent = useCallback((opponentUsername: string) => {
-    startNewGame(opponentUsername);
-  }, [startNewGame]);
-
   useEffect(() => {
     if (!ws) return;
 
@@ -48,21 +135,75 @@ const App: React.FC = () => {
       console.log('Received WebSocket message:', data);
 
       if (data.type === 'challenge_received') {
-        setIncomingChallenges(prev => [...prev, data.from]);
+        setIncomingChallenges(prev => [...prev, { from: data.from, timeControl: data.timeControl }]);
       }
 
       if (data.type === 'challenge_response') {
         if (data.accepted) {
-          alert(`${data.from} accepted your challenge! Starting new game.`);
-          startNewGameWithOpponent(data.from);
+          console.log(`${data.from} accepted your challenge`);
         } else {
           alert(`${data.from} rejected your challenge.`);
         }
       }
 
+      if (data.type === 'challenge_refused') {
+        setIncomingChallenges(prev => prev.filter(challenge => challenge.from !== data.opponent));
+        alert(data.reason);
+      }
+
       if (data.type === 'start_game') {
-        alert(`Starting game with ${data.opponent}`);
-        startNewGameWithOpponent(data.opponent);
+        alert(`Starting game with ${data.opponent}. You play ${data.color === 'w' ? 'White' : 'Black'}.`);
+        clearAnalysis();
+        setOpponentGraceMs(null);
+        startMultiplayerGame(data.gameId, data.opponent, data.color, data.fen, data.timeControl);
+      }
+
+      if (data.type === 'resume_game') {
+        console.log(`Resuming game ${data.state.gameId} against ${data.opponent}`);
+        setOpponentGraceMs(null);
+        resumeMultiplayerGame(data.opponent, data.color, data.state);
+      }
+
+      if (data.type === 'opponent_disconnected') {
+        setOpponentGraceMs(data.graceMs);
+      }
+
+      if (data.type === 'opponent_reconnected') {
+        setOpponentGraceMs(null);
+      }
+
+      if (data.type === 'match_update') {
+        applyMatchUpdate(data.match);
+      }
+
+      if (data.type === 'game_state') {
+        applyGameState(data.state);
+      }
+
+      if (data.type === 'chat_message_received') {
+        applyChatMessage(data.gameId, data.message);
+      }
+
+      if (data.type === 'chat_message_rejected') {
+        applyChatRejection(data.gameId, data.reason);
+      }
+
+      if (data.type === 'spectator_state') {
+        applySpectatorState(data.state);
+      }
+
+      if (data.type === 'live_games') {
+        applyLiveGames(data.games);
+      }
+
+      if (data.type === 'move_rejected') {
+        console.error(`Move rejected in game ${data.gameId}: ${data.reason}`);
+      }
+
+      if (data.type === 'rating_update') {
+        console.log(`Rating changed from ${data.oldRating} to ${data.newRating}`);
+        refreshUser();
+        refreshRatingHistory();
       }
 
       if (data.type === 'onlineUsers') {
@@ -73,17 +214,17 @@ const App: React.FC = () => {
     return () => {
       ws.onmessage = null;
     };
-  }, [ws, setOnlineUsers, startNewGameWithOpponent]);
+  }, [ws, setOnlineUsers, startMultiplayerGame, resumeMultiplayerGame, applyGameState, applyMatchUpdate, applySpectatorState, applyLiveGames, applyChatMessage, applyChatRejection, refreshUser, refreshRatingHistory, clearAnalysis]);
 
   const handleChallenge = (targetUsername: string) => {
     if (!ws) return;
     const challengeMessage: WebSocketMessage = {
       type: 'challenge',
-      from: user?.username || '',
-      to: targetUsername
+      to: targetUsername,
+      timeControl: selectedTimeControl || null
     };
     ws.send(JSON.stringify(challengeMessage));
-    alert(`Challenge sent to ${targetUsername}`);
+    alert(`Challenge sent to ${targetUsername} (${formatTimeControl(selectedTimeControl || null)})`);
   };
 
   const handleAcceptChallenge = (fromUsername: string) => {
@@ -95,8 +236,7 @@ const App: React.FC = () => {
       accepted: true
     };
     ws.send(JSON.stringify(responseMessage));
-    setIncomingChallenges(prev => prev.filter(username => username !== fromUsername));
-    startNewGameWithOpponent(fromUsername);
+    setIncomingChallenges(prev => prev.filter(challenge => challenge.from !== fromUsername));
   };
 
   const handleRejectChallenge = (fromUsername: string) => {
@@ -108,44 +248,17 @@ const App: React.FC = () => {
       accepted: false
     };
     ws.send(JSON.stringify(responseMessage));
-    setIncomingChallenges(prev => prev.filter(username => username !== fromUsername));
+    setIncomingChallenges(prev => prev.filter(challenge => challenge.from !== fromUsername));
     alert(`Rejected challenge from ${fromUsername}`);
   };
 
-  const requestSuggestion = async () => {
-    if (game.turn() === 'w') {
-      try {
-        const response = await fetch('http://localhost:3001/api/suggest', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ board: fen }),
-        });
-        const data = await response.json();
-
-        if (data.error) {
-          console.error('Server error:', data.error);
-          return;
-        }
-
-        if (!data.move || typeof data.move !== 'object') {
-          console.error('Invalid move data received from server:', data);
-          return;
-        }
-
-        setSuggestedMove(data.move);
-
-      } catch (error) {
-        console.error('Error requesting move suggestion:', error);
-      }
-    } else {
-      console.log("It's not White's turn to move");
-    }
+  const handleImport = (startPosition: StartPosition) => {
+    clearAnalysis();
+    startNewGame(opponent, colorChoice, startPosition);
   };
 
   const handleResign = () => {
-    if (gameStatus === 'active' && game.turn() === 'w') {
+    if (gameStatus === 'active') {
       resign();
     }
   };
@@ -156,70 +269,169 @@ const App: React.FC = () => {
       {user ? (
         <>
           <div className="welcome-container">
-            <h2 className="welcome-message">Welcome {user.username}!</h2>
+            <h2 className="welcome-message">Welcome {user.username}! ({user.elo})</h2>
             <button className="logout-button" onClick={handleLogout}>Logout</button>
             <div className="game-status">
-              {gameStatus === 'active' && <p></p>}
-              {gameStatus === 'resigned' && <p>White resigned. Black wins!</p>}
+              {gameStatus === 'active' && multiplayer && <p>Playing {multiplayer.opponentName}: {game.turn() === multiplayer.color ? 'your move' : 'waiting for opponent'}{ownLiveGame && ownLiveGame.watchers > 0 && ` (${ownLiveGame.watchers} watching)`}</p>}
+              {gameStatus === 'active' && !multiplayer && <p></p>}
+              {viewPly !== null && <p>Viewing an earlier position. Go to the last move to continue playing.</p>}
+              {gameStatus === 'active' && multiplayer && !connected && <p>Connection lost, reconnecting...</p>}
+              {gameStatus === 'active' && multiplayer && opponentGraceMs !== null && <p>{multiplayer.opponentName} disconnected. They lose the game unless they reconnect within {Math.round(opponentGraceMs / 1000)} seconds.</p>}
+              {gameStatus === 'abandoned' && <p>{resignedColor === 'b' ? 'Black' : 'White'} left the game. {resignedColor === 'b' ? 'White' : 'Black'} wins!</p>}
+              {gameStatus === 'resigned' && <p>{resignedColor === 'b' ? 'Black' : 'White'} resigned. {resignedColor === 'b' ? 'White' : 'Black'} wins!</p>}
               {gameStatus === 'checkmate' && <p>Checkmate! {game.turn() === 'w' ? 'Black' : 'White'} wins!</p>}
               {gameStatus === 'draw' && <p>Game ended in a draw</p>}
+              {gameStatus === 'timeout' && <p>{clock && clock.w <= 0 ? 'White' : 'Black'} ran out of time. {clock && clock.w <= 0 ? 'Black' : 'White'} wins!</p>}
           </div>
           </div>
+          <RatingChart history={ratingHistory} />
           <div className="game-container">
             <div className="side-controls">
               <OpponentSelector
                 opponent={opponent}
+                opponents={opponents}
                 setOpponent={setOpponent}
               />
-              {opponent === 'stockfish' && (
-                <div className="depth-selector">
-                  <label htmlFor="depth-select">Stockfish Depth:</label>
-                  <select
-                    id="depth-select"
-                    value={searchDepth}
-                    onChange={(e) => {
-                      const newDepth = parseInt(e.target.value);
-                      setSearchDepth(newDepth);
-                      setStockfishDepth(newDepth);
-                    }}
-                  >
-                    {[1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15].map(depth => (
-                      <option key={depth} value={depth}>{depth}</option>
-                    ))}
-                  </select>
-                </div>
+              {opponent !== 'human' && (
+                <ColorSelector
+                  color={colorChoice}
+                  setColor={setColorChoice}
+                />
+              )}
+              <TimeControlSelector
+                presetId={timeControlPresetId}
+                setPresetId={setTimeControlPresetId}
+              />
+              {selectedOpponent && selectedOpponent.supportsDepth && (
+                <StrengthSelector
+                  engineName={selectedOpponent.name}
+                  presetId={strengthPresetId}
+                  setPresetId={(presetId) => {
+                    setStrengthPresetId(presetId);
+                    setEngineStrength(gameId, getPresetStrength(presetId, searchDepth));
+                  }}
+                  depth={searchDepth}
+                  setDepth={(depth) => {
+                    setSearchDepth(depth);
+                    setEngineStrength(gameId, getPresetStrength(strengthPresetId, depth));
+                  }}
+                  varyOpenings={varyOpenings}
+                  setVaryOpenings={setVaryOpenings}
+                />
               )}
               <button className="new-game-button" onClick={() => {
                 console.log("Starting new game with opponent:", opponent);
-                startNewGame(opponent);
+                clearAnalysis();
+                startNewGame(opponent, colorChoice);
               }}>New Game</button>
-              <button className="suggest-button" onClick={requestSuggestion}>Suggest</button>
+              <button
+                className="suggest-button"
+                onClick={() => setShowEngineLines(!showEngineLines)}
+                disabled={!engineLinesAllowed}
+                title={user ? undefined : 'Log in to see engine lines'}
+              >{showEngineLines ? 'Hide Lines' : 'Show Lines'}</button>
               <button className="go-back-button" onClick={undoLastMove}>Go Back</button>
-              <button className="resign-button" onClick={handleResign} disabled={gameStatus !== 'active' || game.turn() !== 'w'}>Resign</button>
+              <button className="resign-button" onClick={handleResign} disabled={gameStatus !== 'active'}>Resign</button>
+              <button
+                className="analyze-button"
+                onClick={() => analyzeGame(fullHistory, startFen, searchDepth)}
+                disabled={!user || gameStatus === 'active' || fullHistory.length === 0 || analysis?.status === 'running'}
+                title={user ? undefined : 'Log in to analyze games'}
+              >Analyze Game</button>
             </div>
             <div className="board-evaluation-history">
+              {clock && (
+                <ChessClock
+                  label={playerColor === 'w' ? 'Black' : 'White'}
+                  remainingMs={playerColor === 'w' ? clock.b : clock.w}
+                  running={runningClock !== null && runningClock !== playerColor}
+                />
+              )}
               <div className="board-and-evaluation">
                 <Chessboard
-                  position={fen}
+                  position={displayFen}
+                  arePiecesDraggable={viewPly === null}
+                  boardOrientation={playerColor === 'b' ? 'black' : 'white'}
                   onPieceDrop={onPieceDrop}
                   onSquareClick={onSquareClick}
                   customSquareStyles={{
                     ...(selectedPiece && { [selectedPiece]: { backgroundColor: 'rgba(255, 255, 0, 0.4)' } }),
-                    ...(suggestedMove?.from && { [suggestedMove.from]: { backgroundColor: 'rgba(0, 255, 0, 0.4)' } }),
-                    ...(suggestedMove?.to && { [suggestedMove.to]: { backgroundColor: 'rgba(0, 255, 0, 0.4)' } }),
                   }}
+                  customArrows={bestLine ? [[bestLine.firstMove.from, bestLine.firstMove.to]] : []}
                 />
-                <EvaluationBar evaluation={evaluation} boardHeight={boardSize} />
+                <EvaluationBar evaluation={displayEvaluation} boardHeight={boardSize} />
+                {pendingPromotion && (
+                  <PromotionPicker
+                    color={pendingPromotion.color}
+                    onSelect={choosePromotion}
+                    onCancel={cancelPromotion}
+                  />
+                )}
               </div>
-              <div className="move-history-container">
-                <textarea
-                  className="move-history"
-                  value={moveHistory}
-                  readOnly
-                  placeholder="Moves will appear here as they are made..."
+              {clock && (
+                <ChessClock
+                  label={`${playerColor === 'w' ? 'White' : 'Black'} (${formatTimeControl(timeControl)})`}
+                  remainingMs={playerColor === 'w' ? clock.w : clock.b}
+                  running={runningClock === playerColor}
                 />
-              </div>
+              )}
+              <MoveList
+                moves={fullHistory}
+                startFen={startFen}
+                currentPly={viewPly === null ? fullHistory.length : viewPly}
+                opening={opening}
+                onSelectPly={goToPly}
+                onFirst={goToFirst}
+                onPrevious={goToPrevious}
+                onNext={goToNext}
+                onLast={goToLast}
+              />
+              {multiplayer && (
+                <ChatPanel
+                  messages={chatMessages}
+                  username={user.username}
+                  error={chatError}
+                  onSend={sendChatMessage}
+                />
+              )}
+              {showEngineLines && engineLinesAllowed && <EngineLinesPanel engineLines={engineLines} />}
+              <GameImportExport
+                getPgn={() => getPgn(user.username, opponents.find(info => info.id === gameOpponent)?.name)}
+                onImport={handleImport}
+              />
             </div>
+            <GameAnalysis analysis={analysis} error={analysisError} />
+            <EngineMatchPanel
+              opponents={opponents}
+              match={match}
+              error={matchError}
+              onStart={startEngineMatch}
+              onStop={stopEngineMatch}
+            />
+            <PuzzleTrainer
+              puzzle={puzzle}
+              fen={puzzleFen}
+              status={puzzleStatus}
+              puzzleRating={puzzleRating}
+              ratingChange={puzzleRatingChange}
+              refutation={puzzleRefutation}
+              solution={puzzleSolution}
+              error={puzzleError}
+              pendingPromotion={pendingPuzzlePromotion}
+              onNextPuzzle={loadNextPuzzle}
+              onMove={playPuzzleMove}
+              onChoosePromotion={choosePuzzlePromotion}
+              onCancelPromotion={cancelPuzzlePromotion}
+            />
+            <LiveGames
+              games={liveGames}
+              username={user.username}
+              watchedGame={watchedGame}
+              clock={spectatorClock}
+              runningClock={spectatorRunningClock}
+              onWatch={watchGame}
+              onStopWatching={stopWatching}
+            />
             {opponent !== 'stockfish' && (
               <div className="online-players">
                 <h3>Online Players</h3>
@@ -242,11 +454,11 @@ const App: React.FC = () => {
             {incomingChallenges.length > 0 && opponent !== 'stockfish' && (
               <div className="incoming-challenges">
                 <h4>Incoming Challenges:</h4>
-                {incomingChallenges.map((challenger, index) => (
+                {incomingChallenges.map((challenge, index) => (
                   <div key={index} className="challenge-item">
-                    <span>{challenger} has challenged you to a game.</span>
-                    <button className="accept-button" onClick={() => handleAcceptChallenge(challenger)}>Accept</button>
-                    <button className="reject-button" onClick={() => handleRejectChallenge(challenger)}>Reject</button>
+                    <span>{challenge.from} has challenged you to a game ({formatTimeControl(challenge.timeControl)}).</span>
+                    <button className="accept-button" onClick={() => handleAcceptChallenge(challenge.from)}>Accept</button>
+                    <button className="reject-button" onClick={() => handleRejectChallenge(challenge.from)}>Reject</button>
                   </div>
                 ))}
               </div>
@@ -0,0 +1,57 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage } from '../../../shared/types';
+import './ChatPanel.css';
+
+interface ChatPanelProps {
+    messages: ChatMessage[];
+    username: string;
+    error: string | null;
+    onSend: (text: string) => boolean;
+}
+
+// Matches the limit of the server, which rejects longer messages
+const MAX_MESSAGE_LENGTH = 200;
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, username, error, onSend }) => {
+    const [text, setText] = useState('');
+    const messagesRef = useRef<HTMLDivElement>(null);
+
+    // Keep the latest message in view
+    useEffect(() => {
+        if (messagesRef.current) {
+            messagesRef.current.scrollTop = messagesRef.current.scrollHeight;
+        }
+    }, [messages]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (onSend(text)) {
+            setText('');
+        }
+    };
+
+    return (
+        <div className="chat-panel">
+            <div className="chat-messages" ref={messagesRef}>
+                {messages.length > 0 ? messages.map((message, index) => (
+                    <div key={index} className={message.sender === username ? 'chat-message chat-message-own' : 'chat-message'}>
+                        <span className="chat-sender">{message.sender}:</span> {message.text}
+                    </div>
+                )) : <span className="chat-placeholder">Say hello to your opponent</span>}
+            </div>
+            <form className="chat-form" onSubmit={handleSubmit}>
+                <input
+                    type="text"
+                    value={text}
+                    maxLength={MAX_MESSAGE_LENGTH}
+                    onChange={(e) => setText(e.target.value)}
+                    placeholder="Message"
+                />
+                <button type="submit" disabled={text.trim().length === 0}>Send</button>
+            </form>
+            {error && <div className="chat-error">{error}</div>}
+        </div>
+    );
+};
+
+export default ChatPanel;
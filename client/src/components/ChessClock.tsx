@@ -0,0 +1,46 @@
+import React from 'react';
+import './ChessClock.css';
+
+interface ChessClockProps {
+    label: string;
+    remainingMs: number;
+    running: boolean;
+}
+
+/**
+ * Format remaining time as h:mm:ss or m:ss, with tenths in the last ten seconds.
+ * Correspondence clocks of more than a day show days and hours.
+ */
+export function formatClockTime(ms: number): string {
+    const totalSeconds = Math.floor(ms / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    if (days > 0) {
+        return `${days}d ${Math.floor((totalSeconds % 86400) / 3600)}h`;
+    }
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    if (hours > 0) {
+        return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+    }
+    if (ms < 10000) {
+        return `${minutes}:${pad(seconds)}.${Math.floor((ms % 1000) / 100)}`;
+    }
+    return `${minutes}:${pad(seconds)}`;
+}
+
+const ChessClock: React.FC<ChessClockProps> = ({ label, remainingMs, running }) => {
+    const classNames = ['chess-clock'];
+    if (running) classNames.push('running');
+    if (remainingMs < 10000) classNames.push('low-time');
+
+    return (
+        <div className={classNames.join(' ')}>
+            <span className="chess-clock-label">{label}</span>
+            <span className="chess-clock-time">{formatClockTime(remainingMs)}</span>
+        </div>
+    );
+};
+
+export default ChessClock;
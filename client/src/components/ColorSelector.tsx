@@ -0,0 +1,27 @@
+import React from 'react';
+import { ColorChoice } from '../../../shared/types';
+import './ColorSelector.css';
+
+interface ColorSelectorProps {
+    color: ColorChoice;
+    setColor: (color: ColorChoice) => void;
+}
+
+const ColorSelector: React.FC<ColorSelectorProps> = ({ color, setColor }) => {
+    return (
+        <div className="color-selector">
+            <label htmlFor="color-select">Play As:</label>
+            <select
+                id="color-select"
+                value={color}
+                onChange={(e) => setColor(e.target.value as ColorChoice)}
+            >
+                <option value="w">White</option>
+                <option value="b">Black</option>
+                <option value="random">Random</option>
+            </select>
+        </div>
+    );
+};
+
+export default ColorSelector;
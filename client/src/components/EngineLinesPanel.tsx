@@ -0,0 +1,40 @@
+import React from 'react';
+import { EngineLinesProgress } from '../../../shared/types';
+import { formatEvaluation } from './EvaluationBar';
+import './EngineLinesPanel.css';
+
+interface EngineLinesPanelProps {
+    engineLines: EngineLinesProgress | null;
+}
+
+function formatNodes(nodes: number): string {
+    if (nodes >= 1000000) return `${(nodes / 1000000).toFixed(1)}M`;
+    if (nodes >= 1000) return `${Math.round(nodes / 1000)}k`;
+    return nodes.toString();
+}
+
+const EngineLinesPanel: React.FC<EngineLinesPanelProps> = ({ engineLines }) => {
+    if (!engineLines || engineLines.lines.length === 0) {
+        return <div className="engine-lines">Searching...</div>;
+    }
+
+    return (
+        <div className="engine-lines">
+            <div className="engine-lines-depth">
+                Depth {engineLines.depth}/{engineLines.targetDepth}
+                {engineLines.status === 'running' ? ' (searching)' : ''}
+            </div>
+            <ol>
+                {engineLines.lines.map(line => (
+                    <li key={line.rank}>
+                        <span className="engine-line-evaluation">{formatEvaluation(line.evaluation)}</span>
+                        <span className="engine-line-moves">{line.moves.join(' ')}</span>
+                        <span className="engine-line-stats">d{line.depth}, {formatNodes(line.nodes)} nodes</span>
+                    </li>
+                ))}
+            </ol>
+        </div>
+    );
+};
+
+export default EngineLinesPanel;
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { MatchProgress, MatchStanding, OpponentInfo, StartMatchRequest } from '../../../shared/types';
+import { STRENGTH_PRESETS, getPresetStrength } from './StrengthSelector';
+import './EngineMatchPanel.css';
+
+interface EngineMatchPanelProps {
+    opponents: OpponentInfo[];
+    match: MatchProgress | null;
+    error: string | null;
+    onStart: (request: StartMatchRequest) => void;
+    onStop: () => void;
+}
+
+interface ParticipantChoice {
+    opponent: string;
+    presetId: string;
+}
+
+// Matches use the presets only; the custom one would need a depth of its own,
+// and Maximum searches longer than the server allows in matches
+const MATCH_PRESETS = STRENGTH_PRESETS.filter(preset => preset.strength !== null && preset.id !== 'maximum');
+
+function formatStanding(match: MatchProgress, standing: MatchStanding): string {
+    const played = standing.wins + standing.draws + standing.losses;
+    let text = `${match.engines[0]} ${standing.score} – ${played - standing.score} ${match.engines[1]}`;
+    if (standing.eloDifference !== null) {
+        const sign = standing.eloDifference > 0 ? '+' : '';
+        text += ` (${sign}${standing.eloDifference}${standing.errorMargin !== null ? ` ± ${standing.errorMargin}` : ''} Elo)`;
+    }
+    return text;
+}
+
+const EngineMatchPanel: React.FC<EngineMatchPanelProps> = ({ opponents, match, error, onStart, onStop }) => {
+    const [choices, setChoices] = useState<[ParticipantChoice, ParticipantChoice]>([
+        { opponent: 'stockfish', presetId: 'club' },
+        { opponent: 'stockfish', presetId: 'expert' }
+    ]);
+    const [games, setGames] = useState(10);
+    const [openingsText, setOpeningsText] = useState('');
+    const running = match !== null && match.status === 'running';
+
+    const updateChoice = (index: number, change: Partial<ParticipantChoice>) => {
+        setChoices(prev => {
+            const next = [...prev] as [ParticipantChoice, ParticipantChoice];
+            next[index] = { ...next[index], ...change };
+            return next;
+        });
+    };
+
+    const handleStart = () => {
+        const engines = choices.map(choice => {
+            const info = opponents.find(opponent => opponent.id === choice.opponent);
+            return info && info.supportsDepth
+                ? { opponent: choice.opponent, strength: getPresetStrength(choice.presetId, 10) }
+                : { opponent: choice.opponent };
+        }) as StartMatchRequest['engines'];
+        const openings = openingsText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+        onStart({ engines, games, ...(openings.length > 0 && { openings }) });
+    };
+
+    return (
+        <div className="engine-match">
+            <h3>Engine Match</h3>
+            {choices.map((choice, index) => {
+                const info = opponents.find(opponent => opponent.id === choice.opponent);
+                return (
+                    <div className="engine-match-participant" key={index}>
+                        <select
+                            value={choice.opponent}
+                            onChange={(e) => updateChoice(index, { opponent: e.target.value })}
+                            disabled={running}
+                        >
+                            {opponents.map(opponent => (
+                                <option key={opponent.id} value={opponent.id} disabled={!opponent.available}>
+                                    {opponent.name}
+                                </option>
+                            ))}
+                        </select>
+                        {info && info.supportsDepth && (
+                            <select
+                                value={choice.presetId}
+                                onChange={(e) => updateChoice(index, { presetId: e.target.value })}
+                                disabled={running}
+                            >
+                                {MATCH_PRESETS.map(preset => (
+                                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                                ))}
+                            </select>
+                        )}
+                    </div>
+                );
+            })}
+            <label>
+                Games:
+                <input
+                    type="number"
+                    min={1}
+                    max={200}
+                    value={games}
+                    onChange={(e) => setGames(parseInt(e.target.value) || 1)}
+                    disabled={running}
+                />
+            </label>
+            <textarea
+                placeholder="Openings, one FEN or move sequence per line (optional)"
+                value={openingsText}
+                onChange={(e) => setOpeningsText(e.target.value)}
+                disabled={running}
+            />
+            {running
+                ? <button onClick={onStop}>Stop Match</button>
+                : <button onClick={handleStart} disabled={opponents.length === 0}>Start Match</button>}
+            {error && <div className="engine-match-error">{error}</div>}
+
+            {match && (
+                <div className="engine-match-progress">
+                    <div className="engine-match-standing">{formatStanding(match, match.standing)}</div>
+                    <div>
+                        {match.games.length} of {match.totalGames} games played
+                        {match.status !== 'running' && ` (${match.status})`}
+                    </div>
+                    {match.error && <div className="engine-match-error">{match.error}</div>}
+                    {match.currentGame && (
+                        <div className="engine-match-current">
+                            <div>Game {match.currentGame.round}: {match.currentGame.white} vs {match.currentGame.black}</div>
+                            <Chessboard
+                                position={match.currentGame.fen}
+                                boardWidth={240}
+                                arePiecesDraggable={false}
+                            />
+                        </div>
+                    )}
+                    <ol className="engine-match-games">
+                        {match.games.map(game => (
+                            <li key={game.round} value={game.round}>
+                                {game.white} – {game.black}: {game.result} ({game.termination.replace(/_/g, ' ')})
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EngineMatchPanel;
@@ -1,18 +1,65 @@
 import React from 'react';
+import { Evaluation, TablebaseResult } from '../../../shared/types';
 import './EvaluationBar.css';
 
 interface EvaluationBarProps {
-    evaluation: number;
+    evaluation: Evaluation | null; // From White's point of view, null before the first evaluation
     boardHeight: number; // Add this prop to receive the chessboard height
 }
 
+/**
+ * Short text for an evaluation, e.g. "+0.35", "-1.20", "+M3" or "-M2".
+ */
+export function formatEvaluation(evaluation: Evaluation | null): string {
+    if (!evaluation) return '0.00';
+    const value = evaluation.perspective === 'w' ? evaluation.value : -evaluation.value;
+    const sign = value > 0 ? '+' : value < 0 ? '-' : '';
+    if (evaluation.type === 'mate') {
+        return value === 0 ? '#' : `${sign}M${Math.abs(value)}`;
+    }
+    return `${sign}${(Math.abs(value) / 100).toFixed(2)}`;
+}
+
+/**
+ * Share of the bar that belongs to White, in percent.
+ */
+function getWhitePercentage(evaluation: Evaluation | null): number {
+    if (!evaluation) return 50;
+    const value = evaluation.perspective === 'w' ? evaluation.value : -evaluation.value;
+    if (evaluation.type === 'mate') {
+        return value > 0 ? 100 : value < 0 ? 0 : 50;
+    }
+    return Math.min(Math.max((value / 100 + 5) / 10 * 100, 0), 100);
+}
+
+/**
+ * The exact result of a tablebase position, with the winner and DTZ in the tooltip.
+ */
+function renderTablebaseResult(result: TablebaseResult) {
+    if (result.wdl === 'draw') {
+        return <div className="evaluation-value evaluation-tablebase" title="Tablebase draw">Draw</div>;
+    }
+    // The result is given from White's point of view
+    const winner = result.wdl === 'win' ? 'White' : 'Black';
+    return (
+        <div
+            className="evaluation-value evaluation-tablebase"
+            title={`${winner} wins, ${result.dtz} plies to the next capture or pawn move`}
+        >
+            {winner} wins (TB)
+            <div className="evaluation-dtz">DTZ {result.dtz}</div>
+        </div>
+    );
+}
+
 const EvaluationBar: React.FC<EvaluationBarProps> = ({ evaluation, boardHeight }) => {
-    const flippedEvaluation = -evaluation;
-    const percentage = Math.min(Math.max((flippedEvaluation + 5) / 10 * 100, 0), 100);
+    const percentage = getWhitePercentage(evaluation);
 
     return (
         <div className="evaluation-bar-container" style={{ height: `${boardHeight}px` }}>
-            <div className="evaluation-value">{flippedEvaluation.toFixed(2)}</div>
+            {evaluation && evaluation.tablebase
+                ? renderTablebaseResult(evaluation.tablebase)
+                : <div className="evaluation-value">{formatEvaluation(evaluation)}</div>}
             <div className="evaluation-bar">
                 <div
                     className="evaluation-fill"
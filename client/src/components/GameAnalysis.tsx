@@ -0,0 +1,71 @@
+import React from 'react';
+import { AnalysisProgress, MoveClassification } from '../../../shared/types';
+import { formatEvaluation } from './EvaluationBar';
+import './GameAnalysis.css';
+
+const CLASSIFICATION_LABELS: { [classification in MoveClassification]: string } = {
+    best: 'Best',
+    good: 'Good',
+    inaccuracy: 'Inaccuracy',
+    mistake: 'Mistake',
+    blunder: 'Blunder'
+};
+
+interface GameAnalysisProps {
+    analysis: AnalysisProgress | null;
+    error: string | null;
+}
+
+function formatAccuracy(accuracy: number | null): string {
+    return accuracy === null ? '–' : `${accuracy.toFixed(1)}%`;
+}
+
+const GameAnalysis: React.FC<GameAnalysisProps> = ({ analysis, error }) => {
+    if (error) {
+        return <div className="game-analysis error">{error}</div>;
+    }
+    if (!analysis) {
+        return null;
+    }
+    if (!analysis.report) {
+        return (
+            <div className="game-analysis">
+                Analyzing position {analysis.analyzedPositions} of {analysis.totalPositions}...
+                <progress value={analysis.analyzedPositions} max={analysis.totalPositions} />
+            </div>
+        );
+    }
+
+    const { moves, accuracy } = analysis.report;
+    return (
+        <div className="game-analysis">
+            <div className="analysis-accuracy">
+                Accuracy: White {formatAccuracy(accuracy.white)}, Black {formatAccuracy(accuracy.black)}
+            </div>
+            <table className="analysis-moves">
+                <thead>
+                    <tr>
+                        <th>Move</th>
+                        <th>Eval</th>
+                        <th>Verdict</th>
+                        <th>Best</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {moves.map(move => (
+                        <tr key={move.ply}>
+                            <td>{Math.ceil(move.ply / 2)}.{move.color === 'b' ? '..' : ''} {move.san}</td>
+                            <td>{formatEvaluation(move.evaluationAfter)}</td>
+                            <td className={`classification-${move.classification}`}>
+                                {CLASSIFICATION_LABELS[move.classification]}
+                            </td>
+                            <td>{move.classification !== 'best' && move.bestMove ? move.bestMove : ''}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default GameAnalysis;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { StartPosition, parseStartPosition } from '../hooks/useChessGame';
+import './GameImportExport.css';
+
+interface GameImportExportProps {
+    getPgn: () => string;
+    onImport: (startPosition: StartPosition) => void;
+}
+
+const GameImportExport: React.FC<GameImportExportProps> = ({ getPgn, onImport }) => {
+    const [importText, setImportText] = useState('');
+    const [message, setMessage] = useState<string | null>(null);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(getPgn());
+            setMessage('PGN copied to the clipboard');
+        } catch (error) {
+            console.error('Error copying PGN:', error);
+            setMessage('Could not copy the PGN');
+        }
+    };
+
+    const handleDownload = () => {
+        const blob = new Blob([getPgn()], { type: 'application/x-chess-pgn' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `stockmate-${new Date().toISOString().slice(0, 10)}.pgn`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files && e.target.files[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setImportText(typeof reader.result === 'string' ? reader.result : '');
+        reader.readAsText(file);
+        e.target.value = '';
+    };
+
+    const handleImport = () => {
+        try {
+            const startPosition = parseStartPosition(importText);
+            onImport(startPosition);
+            setMessage(`Loaded a position with ${startPosition.moves.length} move(s) played`);
+            setImportText('');
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Could not load the game');
+        }
+    };
+
+    return (
+        <div className="game-import-export">
+            <div className="game-export-buttons">
+                <button onClick={handleCopy}>Copy PGN</button>
+                <button onClick={handleDownload}>Download PGN</button>
+            </div>
+            <textarea
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                placeholder="Paste a PGN or FEN to continue from..."
+            />
+            <div className="game-import-buttons">
+                <input type="file" accept=".pgn,.fen,.txt" onChange={handleFileChange} />
+                <button onClick={handleImport} disabled={importText.trim() === ''}>Load</button>
+            </div>
+            {message && <div className="game-import-export-message">{message}</div>}
+        </div>
+    );
+};
+
+export default GameImportExport;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Chessboard } from 'react-chessboard';
+import { LiveGameSummary, MultiplayerGameState, PlayerColor } from '../../../shared/types';
+import ChessClock from './ChessClock';
+import { formatTimeControl } from './TimeControlSelector';
+import './LiveGames.css';
+
+interface LiveGamesProps {
+    games: LiveGameSummary[];
+    username: string;
+    watchedGame: MultiplayerGameState | null;
+    clock: { w: number; b: number } | null;
+    runningClock: PlayerColor | null;
+    onWatch: (gameId: string) => void;
+    onStopWatching: () => void;
+}
+
+function formatWatchers(count: number): string {
+    return count === 1 ? '1 watching' : `${count} watching`;
+}
+
+function describeResult(state: MultiplayerGameState): string {
+    if (state.status === 'active') {
+        return `${state.turn === 'w' ? 'White' : 'Black'} to move`;
+    }
+    return `Game over: ${state.result ? `${state.result} ` : ''}(${state.status})`;
+}
+
+const LiveGames: React.FC<LiveGamesProps> = ({ games, username, watchedGame, clock, runningClock, onWatch, onStopWatching }) => {
+    const watchedSummary = watchedGame ? games.find(game => game.gameId === watchedGame.gameId) : undefined;
+
+    return (
+        <div className="live-games">
+            <h3>Live Games</h3>
+            {games.length > 0 ? (
+                <ul>
+                    {games.map(game => {
+                        const playing = game.white === username || game.black === username;
+                        return (
+                            <li key={game.gameId} className="live-game">
+                                {game.white} – {game.black} ({formatTimeControl(game.timeControl)}), {formatWatchers(game.watchers)}
+                                {!playing && (
+                                    <button
+                                        onClick={() => onWatch(game.gameId)}
+                                        disabled={watchedGame !== null && watchedGame.gameId === game.gameId}
+                                    >Watch</button>
+                                )}
+                            </li>
+                        );
+                    })}
+                </ul>
+            ) : (
+                <p>No games are being played</p>
+            )}
+
+            {watchedGame && (
+                <div className="live-game-watched">
+                    <div>
+                        {watchedGame.white} (White) vs {watchedGame.black} (Black)
+                        {watchedSummary && `, ${formatWatchers(watchedSummary.watchers)}`}
+                    </div>
+                    {clock && <ChessClock label={watchedGame.black} remainingMs={clock.b} running={runningClock === 'b'} />}
+                    <Chessboard
+                        position={watchedGame.fen}
+                        boardWidth={280}
+                        arePiecesDraggable={false}
+                    />
+                    {clock && <ChessClock label={watchedGame.white} remainingMs={clock.w} running={runningClock === 'w'} />}
+                    {watchedGame.opening && <div>{watchedGame.opening.eco} {watchedGame.opening.name}</div>}
+                    {watchedGame.moves.length > 0 && (
+                        <div>Last move: {Math.ceil(watchedGame.moves.length / 2)}.{watchedGame.moves.length % 2 === 0 ? '..' : ''} {watchedGame.moves[watchedGame.moves.length - 1]}</div>
+                    )}
+                    <div className="live-game-status">{describeResult(watchedGame)}</div>
+                    <button onClick={onStopWatching}>Stop Watching</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LiveGames;
@@ -0,0 +1,109 @@
+import React, { useEffect } from 'react';
+import { OpeningInfo } from '../../../shared/types';
+import './MoveList.css';
+
+interface MoveListProps {
+    moves: string[];
+    startFen: string;
+    currentPly: number; // Number of plies played in the position shown
+    opening: OpeningInfo | null;
+    onSelectPly: (ply: number) => void;
+    onFirst: () => void;
+    onPrevious: () => void;
+    onNext: () => void;
+    onLast: () => void;
+}
+
+interface MoveRow {
+    moveNumber: number;
+    white: { san: string; ply: number } | null;
+    black: { san: string; ply: number } | null;
+}
+
+/**
+ * Group moves into numbered rows, continuing the numbering of the start position.
+ */
+function getMoveRows(startFen: string, moves: string[]): MoveRow[] {
+    const [, turn, , , , fullMove] = startFen.split(' ');
+    let moveNumber = parseInt(fullMove, 10) || 1;
+    const rows: MoveRow[] = [];
+    let i = 0;
+    if (turn === 'b' && moves.length > 0) {
+        rows.push({ moveNumber, white: null, black: { san: moves[0], ply: 1 } });
+        moveNumber++;
+        i = 1;
+    }
+    for (; i < moves.length; i += 2, moveNumber++) {
+        rows.push({
+            moveNumber,
+            white: { san: moves[i], ply: i + 1 },
+            black: i + 1 < moves.length ? { san: moves[i + 1], ply: i + 2 } : null
+        });
+    }
+    return rows;
+}
+
+const MoveList: React.FC<MoveListProps> = ({ moves, startFen, currentPly, opening, onSelectPly, onFirst, onPrevious, onNext, onLast }) => {
+    /**
+     * Effect hook that lets the left and right arrow keys step through the
+     * game, except while typing. The other navigation keys are left to the
+     * page, which scrolls with them.
+     */
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+            const actions: { [key: string]: () => void } = {
+                ArrowLeft: onPrevious,
+                ArrowRight: onNext
+            };
+            const action = actions[e.key];
+            if (action) {
+                e.preventDefault();
+                action();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onPrevious, onNext]);
+
+    const renderMove = (move: { san: string; ply: number } | null) => {
+        if (!move) return <span className="move-list-move empty">{moves.length > 0 ? '...' : ''}</span>;
+        return (
+            <span
+                className={`move-list-move${move.ply === currentPly ? ' current' : ''}`}
+                onClick={() => onSelectPly(move.ply)}
+            >
+                {move.san}
+            </span>
+        );
+    };
+
+    return (
+        <div className="move-list">
+            {opening && (
+                <div className="move-list-opening" title={opening.name}>
+                    <span className="move-list-eco">{opening.eco}</span> {opening.name}
+                </div>
+            )}
+            <div className="move-list-moves">
+                {moves.length === 0 && <div className="move-list-placeholder">Moves will appear here as they are made...</div>}
+                {getMoveRows(startFen, moves).map(row => (
+                    <div className="move-list-row" key={row.moveNumber}>
+                        <span className="move-list-number">{row.moveNumber}.</span>
+                        {renderMove(row.white)}
+                        {renderMove(row.black)}
+                    </div>
+                ))}
+            </div>
+            <div className="move-list-controls">
+                <button onClick={onFirst} disabled={currentPly === 0} title="First move">|&lt;</button>
+                <button onClick={onPrevious} disabled={currentPly === 0} title="Previous move">&lt;</button>
+                <button onClick={onNext} disabled={currentPly === moves.length} title="Next move">&gt;</button>
+                <button onClick={onLast} disabled={currentPly === moves.length} title="Live position">&gt;|</button>
+            </div>
+        </div>
+    );
+};
+
+export default MoveList;
@@ -1,12 +1,14 @@
 import React from 'react';
+import { OpponentInfo } from '../../../shared/types';
 import './OpponentSelector.css'; // Make sure to create this CSS file
 
 interface OpponentSelectorProps {
     opponent: string;
+    opponents: OpponentInfo[];
     setOpponent: (opponent: string) => void;
 }
 
-const OpponentSelector: React.FC<OpponentSelectorProps> = ({ opponent, setOpponent }) => {
+const OpponentSelector: React.FC<OpponentSelectorProps> = ({ opponent, opponents, setOpponent }) => {
     return (
         <div className="opponent-selector">
             <label htmlFor="opponent-select">Opponent:</label>
@@ -15,8 +17,11 @@ const OpponentSelector: React.FC<OpponentSelectorProps> = ({ opponent, setOppone
                 value={opponent}
                 onChange={(e) => setOpponent(e.target.value)}
             >
-                <option value="stockfish">Stockfish</option>
-                <option value="chess_tune">ChessTune</option>
+                {opponents.map(info => (
+                    <option key={info.id} value={info.id} title={info.description} disabled={!info.available}>
+                        {info.available ? info.name : `${info.name} (unavailable)`}
+                    </option>
+                ))}
                 <option value="human">Human Player</option>
             </select>
         </div>
@@ -0,0 +1,39 @@
+import React from 'react';
+import { PlayerColor, PromotionPiece } from '../../../shared/types';
+import './PromotionPicker.css';
+
+interface PromotionPickerProps {
+    color: PlayerColor;
+    onSelect: (piece: PromotionPiece) => void;
+    onCancel: () => void;
+}
+
+const PROMOTION_PIECES: { piece: PromotionPiece; name: string; symbol: { [color in PlayerColor]: string } }[] = [
+    { piece: 'q', name: 'Queen', symbol: { w: '♕', b: '♛' } },
+    { piece: 'r', name: 'Rook', symbol: { w: '♖', b: '♜' } },
+    { piece: 'b', name: 'Bishop', symbol: { w: '♗', b: '♝' } },
+    { piece: 'n', name: 'Knight', symbol: { w: '♘', b: '♞' } }
+];
+
+/**
+ * Overlay on the board that asks which piece a pawn promotes to.
+ */
+const PromotionPicker: React.FC<PromotionPickerProps> = ({ color, onSelect, onCancel }) => {
+    return (
+        <div className="promotion-picker" onClick={onCancel}>
+            <div className="promotion-picker-dialog" onClick={(e) => e.stopPropagation()}>
+                <p>Promote to:</p>
+                <div className="promotion-picker-pieces">
+                    {PROMOTION_PIECES.map(({ piece, name, symbol }) => (
+                        <button key={piece} title={name} onClick={() => onSelect(piece)}>
+                            {symbol[color]}
+                        </button>
+                    ))}
+                </div>
+                <button className="promotion-picker-cancel" onClick={onCancel}>Cancel</button>
+            </div>
+        </div>
+    );
+};
+
+export default PromotionPicker;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Puzzle, PuzzleRatingChange, PromotionPiece } from '../../../shared/types';
+import { PuzzleStatus } from '../hooks/usePuzzleTrainer';
+import { PendingPromotion } from '../hooks/useChessGame';
+import PromotionPicker from './PromotionPicker';
+import './PuzzleTrainer.css';
+
+interface PuzzleTrainerProps {
+    puzzle: Puzzle | null;
+    fen: string | null;
+    status: PuzzleStatus;
+    puzzleRating: number | null;
+    ratingChange: PuzzleRatingChange | null;
+    refutation: string[];
+    solution: string[];
+    error: string | null;
+    pendingPromotion: PendingPromotion | null;
+    onNextPuzzle: () => void;
+    onMove: (from: string, to: string, promotion?: string) => boolean;
+    onChoosePromotion: (piece: PromotionPiece) => void;
+    onCancelPromotion: () => void;
+}
+
+function formatRatingChange(change: PuzzleRatingChange): string {
+    const difference = change.newRating - change.oldRating;
+    return `${change.newRating} (${difference >= 0 ? '+' : ''}${difference})`;
+}
+
+const PuzzleTrainer: React.FC<PuzzleTrainerProps> = ({
+    puzzle, fen, status, puzzleRating, ratingChange, refutation, solution, error, pendingPromotion,
+    onNextPuzzle, onMove, onChoosePromotion, onCancelPromotion
+}) => {
+    // The solver is to move in the puzzle position
+    const solverColor = puzzle && puzzle.fen.split(' ')[1] === 'b' ? 'black' : 'white';
+
+    return (
+        <div className="puzzle-trainer">
+            <h3>Puzzles</h3>
+            {puzzleRating !== null && (
+                <div className="puzzle-rating">
+                    Puzzle rating: {ratingChange ? formatRatingChange(ratingChange) : puzzleRating}
+                </div>
+            )}
+            {puzzle && fen && (
+                <>
+                    <div>Puzzle #{puzzle.id} (rated {puzzle.rating}), {solverColor} to play and win</div>
+                    <div className="puzzle-board">
+                        <Chessboard
+                            position={fen}
+                            boardWidth={280}
+                            boardOrientation={solverColor}
+                            arePiecesDraggable={status === 'solving' && !pendingPromotion}
+                            onPieceDrop={(sourceSquare, targetSquare) => onMove(sourceSquare, targetSquare)}
+                        />
+                        {pendingPromotion && (
+                            <PromotionPicker
+                                color={pendingPromotion.color}
+                                onSelect={onChoosePromotion}
+                                onCancel={onCancelPromotion}
+                            />
+                        )}
+                    </div>
+                </>
+            )}
+            <div className="puzzle-status">
+                {status === 'checking' && <p>Checking...</p>}
+                {status === 'solved' && <p className="puzzle-solved">Solved!</p>}
+                {status === 'failed' && (
+                    <>
+                        <p className="puzzle-failed">Not the winning move.</p>
+                        {refutation.length > 0 && <p>The engine answers {refutation.join(' ')}</p>}
+                        <p>Solution: {solution.join(' ')}</p>
+                    </>
+                )}
+                {status === 'exhausted' && <p>You have tried every puzzle. New ones are found as games are played.</p>}
+                {error && <p className="puzzle-error">{error}</p>}
+            </div>
+            <button
+                onClick={onNextPuzzle}
+                disabled={status === 'loading' || status === 'checking'}
+            >{puzzle ? 'Next Puzzle' : 'Start Puzzles'}</button>
+        </div>
+    );
+};
+
+export default PuzzleTrainer;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { RatingHistoryEntry } from '../../../shared/types';
+import './RatingChart.css';
+
+interface RatingChartProps {
+    history: RatingHistoryEntry[];
+    width?: number;
+    height?: number;
+}
+
+const RatingChart: React.FC<RatingChartProps> = ({ history, width = 300, height = 120 }) => {
+    if (history.length === 0) {
+        return <div className="rating-chart empty">No rated games yet</div>;
+    }
+
+    // Start the line at the rating before the first game
+    const ratings = [history[0].old_rating, ...history.map(entry => entry.new_rating)];
+    const min = Math.min(...ratings);
+    const max = Math.max(...ratings);
+    const range = Math.max(max - min, 1);
+    const points = ratings.map((rating, i) => {
+        const x = ratings.length > 1 ? (i / (ratings.length - 1)) * width : width / 2;
+        const y = height - ((rating - min) / range) * height;
+        return `${x.toFixed(1)},${y.toFixed(1)}`;
+    }).join(' ');
+
+    const last = history[history.length - 1];
+    const change = last.new_rating - last.old_rating;
+
+    return (
+        <div className="rating-chart">
+            <div className="rating-chart-summary">
+                Rating {last.new_rating}{' '}
+                <span className={change >= 0 ? 'rating-gain' : 'rating-loss'}>
+                    ({change >= 0 ? '+' : ''}{change} vs {last.opponent_name})
+                </span>
+            </div>
+            <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`}>
+                <polyline points={points} fill="none" stroke="#4caf50" strokeWidth="2" />
+            </svg>
+            <div className="rating-chart-range">{min} – {max}</div>
+        </div>
+    );
+};
+
+export default RatingChart;
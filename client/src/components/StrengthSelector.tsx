@@ -0,0 +1,86 @@
+import React from 'react';
+import { EngineStrength } from '../../../shared/types';
+import './StrengthSelector.css';
+
+export interface StrengthPreset {
+    id: string;
+    label: string;
+    strength: EngineStrength | null; // null lets the player pick the depth
+}
+
+// Ratings are rough; below UCI_Elo's range the engine is weakened through its Skill Level.
+// Only the UCI_Elo presets are rated, so they leave the engine's time unlimited.
+export const STRENGTH_PRESETS: StrengthPreset[] = [
+    { id: 'beginner', label: 'Beginner ~800', strength: { depth: 1, skillLevel: 0, movetimeMs: 50 } },
+    { id: 'novice', label: 'Novice ~1100', strength: { depth: 3, skillLevel: 3, movetimeMs: 100 } },
+    { id: 'casual', label: 'Casual ~1400', strength: { depth: 8, elo: 1400 } },
+    { id: 'club', label: 'Club ~1700', strength: { depth: 10, elo: 1700 } },
+    { id: 'expert', label: 'Expert ~2000', strength: { depth: 12, elo: 2000 } },
+    { id: 'master', label: 'Master ~2400', strength: { depth: 15, elo: 2400 } },
+    { id: 'maximum', label: 'Maximum', strength: { depth: 20, movetimeMs: 2000 } },
+    { id: 'custom', label: 'Custom depth', strength: null },
+];
+
+const DEPTHS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// How long the engine keeps playing book moves when openings are varied
+export const BOOK_PLIES = 8;
+
+/**
+ * The strength of a preset, using the chosen depth for the custom one.
+ */
+export function getPresetStrength(presetId: string, depth: number): EngineStrength {
+    const preset = STRENGTH_PRESETS.find(p => p.id === presetId);
+    return preset && preset.strength ? preset.strength : { depth };
+}
+
+interface StrengthSelectorProps {
+    engineName: string;
+    presetId: string;
+    setPresetId: (presetId: string) => void;
+    depth: number;
+    setDepth: (depth: number) => void;
+    varyOpenings: boolean;
+    setVaryOpenings: (varyOpenings: boolean) => void;
+}
+
+const StrengthSelector: React.FC<StrengthSelectorProps> = ({ engineName, presetId, setPresetId, depth, setDepth, varyOpenings, setVaryOpenings }) => {
+    return (
+        <div className="strength-selector">
+            <label htmlFor="strength-select">{engineName} Strength:</label>
+            <select
+                id="strength-select"
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+            >
+                {STRENGTH_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+            </select>
+            {presetId === 'custom' && (
+                <>
+                    <label htmlFor="depth-select">Depth:</label>
+                    <select
+                        id="depth-select"
+                        value={depth}
+                        onChange={(e) => setDepth(parseInt(e.target.value))}
+                    >
+                        {DEPTHS.map(d => (
+                            <option key={d} value={d}>{d}</option>
+                        ))}
+                    </select>
+                </>
+            )}
+            <label className="strength-book" title="Plays a random book move for the first moves of the next game">
+                <input
+                    type="checkbox"
+                    checked={varyOpenings}
+                    onChange={(e) => setVaryOpenings(e.target.checked)}
+                />
+                Vary openings
+            </label>
+        </div>
+    );
+};
+
+export default StrengthSelector;
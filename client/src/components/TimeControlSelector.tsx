@@ -0,0 +1,53 @@
+import React from 'react';
+import { TimeControl } from '../../../shared/types';
+import './TimeControlSelector.css';
+
+export interface TimeControlPreset {
+    id: string;
+    label: string;
+    timeControl: TimeControl | null;
+}
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+    { id: 'untimed', label: 'Untimed', timeControl: null },
+    { id: '1+0', label: '1+0 Bullet', timeControl: { type: 'clock', initialSeconds: 60, incrementSeconds: 0 } },
+    { id: '3+2', label: '3+2 Blitz', timeControl: { type: 'clock', initialSeconds: 180, incrementSeconds: 2 } },
+    { id: '5+0', label: '5+0 Blitz', timeControl: { type: 'clock', initialSeconds: 300, incrementSeconds: 0 } },
+    { id: '5+3', label: '5+3 Blitz', timeControl: { type: 'clock', initialSeconds: 300, incrementSeconds: 3 } },
+    { id: '10+0', label: '10+0 Rapid', timeControl: { type: 'clock', initialSeconds: 600, incrementSeconds: 0 } },
+    { id: '15+10', label: '15+10 Rapid', timeControl: { type: 'clock', initialSeconds: 900, incrementSeconds: 10 } },
+    { id: 'correspondence', label: 'Correspondence (3 days/move)', timeControl: { type: 'correspondence', daysPerMove: 3 } },
+];
+
+/**
+ * Short human-readable name of a time control, e.g. "5+3".
+ */
+export function formatTimeControl(timeControl: TimeControl | null): string {
+    if (!timeControl) return 'untimed';
+    if (timeControl.type === 'correspondence') return `${timeControl.daysPerMove} days/move`;
+    return `${timeControl.initialSeconds / 60}+${timeControl.incrementSeconds}`;
+}
+
+interface TimeControlSelectorProps {
+    presetId: string;
+    setPresetId: (presetId: string) => void;
+}
+
+const TimeControlSelector: React.FC<TimeControlSelectorProps> = ({ presetId, setPresetId }) => {
+    return (
+        <div className="time-control-selector">
+            <label htmlFor="time-control-select">Time Control:</label>
+            <select
+                id="time-control-select"
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+            >
+                {TIME_CONTROL_PRESETS.map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+export default TimeControlSelector;
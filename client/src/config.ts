@@ -0,0 +1,37 @@
+/**
+ * Where the client finds the server.
+ *
+ * Both URLs are read from the environment when the client is built: set
+ * REACT_APP_API_URL in client/.env or in the shell, and REACT_APP_WS_URL if
+ * the WebSocket server is not on the API's host. Without them, the
+ * development server talks to a server on localhost:3001, and a production
+ * build talks to the host it was loaded from, so it works behind a reverse
+ * proxy that forwards /api and WebSocket upgrades to the server.
+ */
+export interface ClientConfig {
+  apiUrl: string;  // Base URL of the REST API, ending in /api
+  wsUrl: string;   // URL of the WebSocket endpoint
+}
+
+const DEV_SERVER_URL = 'http://localhost:3001';
+
+function getServerOrigin(): string {
+  return process.env.NODE_ENV === 'development' ? DEV_SERVER_URL : window.location.origin;
+}
+
+/**
+ * Turn an http(s) URL into the matching ws(s) one.
+ */
+function toWebSocketUrl(url: string): string {
+  return url.replace(/^http/, 'ws');
+}
+
+const apiUrl = (process.env.REACT_APP_API_URL || `${getServerOrigin()}/api`).replace(/\/$/, '');
+
+const config: ClientConfig = {
+  apiUrl,
+  // The WebSocket server runs on the same host as the API
+  wsUrl: process.env.REACT_APP_WS_URL || toWebSocketUrl(new URL(apiUrl, window.location.href).origin)
+};
+
+export default config;
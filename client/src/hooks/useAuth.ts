@@ -107,6 +107,7 @@ export function useAuth() {
     user,            // The current authenticated user, or null if not authenticated
     handleLogin,     // Function to log in a user
     handleRegister,  // Function to register a new user
-    handleLogout     // Function to log out the current user
+    handleLogout,    // Function to log out the current user
+    refreshUser: fetchUserData  // Function to reload the user's data, e.g. after a rating change
   };
 }
@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ClockSnapshot, PlayerColor, TimeControl } from '../../../shared/types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+interface ClockTimes {
+  w: number;
+  b: number;
+}
+
+function getInitialMs(timeControl: TimeControl): number {
+  return timeControl.type === 'clock'
+    ? timeControl.initialSeconds * 1000
+    : timeControl.daysPerMove * MS_PER_DAY;
+}
+
+interface ClockState {
+  timeControl: TimeControl | null;
+  // Remaining time per side as of syncedAt, or null if untimed
+  remaining: ClockTimes | null;
+  running: PlayerColor | null;
+  syncedAt: number;
+}
+
+function getRemaining(state: ClockState, color: PlayerColor, at: number): number {
+  if (!state.remaining) return 0;
+  const elapsed = state.running === color ? at - state.syncedAt : 0;
+  return Math.max(state.remaining[color] - elapsed, 0);
+}
+
+/**
+ * Custom React hook for a two-sided chess clock.
+ *
+ * For engine games the clock runs here; for multiplayer games the server owns
+ * the clock and this hook only counts down between the snapshots it sends.
+ * Like the server, the clock starts running with White's first move.
+ *
+ * @returns The remaining time per side and functions to drive the clock
+ */
+export function useChessClock() {
+  // Kept in one object so that updates from delayed callbacks never use stale times
+  const [state, setState] = useState<ClockState>({ timeControl: null, remaining: null, running: null, syncedAt: Date.now() });
+  const [now, setNow] = useState(Date.now());
+
+  /**
+   * Effect hook that re-renders a few times per second while a clock is running.
+   */
+  useEffect(() => {
+    if (!state.running) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [state.running]);
+
+  /**
+   * Set the clock up for a new game, or switch it off for untimed games.
+   */
+  const resetClock = useCallback((timeControl: TimeControl | null) => {
+    const initialMs = timeControl ? getInitialMs(timeControl) : 0;
+    setState({
+      timeControl,
+      remaining: timeControl ? { w: initialMs, b: initialMs } : null,
+      running: null,
+      syncedAt: Date.now()
+    });
+  }, []);
+
+  /**
+   * Stop the mover's clock, add the increment and start the opponent's clock.
+   */
+  const pressClock = useCallback((mover: PlayerColor) => {
+    const at = Date.now();
+    setState((prev) => {
+      if (!prev.timeControl || !prev.remaining) return prev;
+      const opponent: PlayerColor = mover === 'w' ? 'b' : 'w';
+      const left = getRemaining(prev, mover, at);
+      const remaining: ClockTimes = { w: 0, b: 0 };
+      remaining[opponent] = getRemaining(prev, opponent, at);
+      remaining[mover] = prev.timeControl.type === 'clock'
+        ? left + prev.timeControl.incrementSeconds * 1000
+        : getInitialMs(prev.timeControl);
+      return { ...prev, remaining, running: opponent, syncedAt: at };
+    });
+    setNow(at);
+  }, []);
+
+  const stopClock = useCallback(() => {
+    const at = Date.now();
+    setState((prev) => {
+      if (!prev.remaining || !prev.running) return prev;
+      return {
+        ...prev,
+        remaining: { w: getRemaining(prev, 'w', at), b: getRemaining(prev, 'b', at) },
+        running: null,
+        syncedAt: at
+      };
+    });
+  }, []);
+
+  /**
+   * Take over the clock state sent by the server in a multiplayer game.
+   */
+  const syncClock = useCallback((timeControl: TimeControl | null, snapshot: ClockSnapshot | null) => {
+    const at = Date.now();
+    setState({
+      timeControl,
+      remaining: snapshot ? { w: snapshot.white, b: snapshot.black } : null,
+      running: snapshot ? snapshot.running : null,
+      syncedAt: at
+    });
+    setNow(at);
+  }, []);
+
+  const clock = state.remaining ? { w: getRemaining(state, 'w', now), b: getRemaining(state, 'b', now) } : null;
+  const flagged: PlayerColor | null = clock && state.running && clock[state.running] <= 0 ? state.running : null;
+
+  return {
+    timeControl: state.timeControl,  // The time control of the current game, or null if untimed
+    clock,                           // Remaining milliseconds per side, or null if untimed
+    runningClock: state.running,     // The side whose clock is running
+    flagged,                         // The side whose time ran out, if any
+    resetClock,
+    pressClock,
+    stopClock,
+    syncClock
+  };
+}
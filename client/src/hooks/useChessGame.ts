@@ -1,39 +1,287 @@
-import { useState, useEffect } from 'react';
-import { Chess, Square } from 'chess.js';
-import { GetMoveRequest, GetMoveResponse, MoveRequest, MoveResponse } from '../../../shared/types';
+import { useState, useEffect, useRef } from 'react';
+import { Chess, DEFAULT_POSITION, Square } from 'chess.js';
+import { GetMoveResponse, MoveRequest, NewGameRequest } from '../../../shared/types';
+import { ClockSnapshot, ColorChoice, Evaluation, GameResult, GameStatus, MultiplayerGameState, OpeningInfo, PlayerColor, PromotionPiece, TimeControl, WebSocketMessage } from '../../../shared/types';
+import { createGameSession, endGameSession, evaluatePosition, getGameState, getMoveFromServer, reportTimeout, resignOnServer, sendMoveToServer, undoOnServer } from '../services/api';
+import { useChessClock } from './useChessClock';
+
+interface MultiplayerSession {
+  gameId: string;
+  color: PlayerColor;
+  opponentName: string;
+}
+
+/**
+ * A pawn move to the last rank that waits for the player to pick a piece.
+ */
+export interface PendingPromotion {
+  from: Square;
+  to: Square;
+  color: PlayerColor;
+}
+
+// Settings sent along when a game session is created on the server
+export type NewGameOptions = Omit<NewGameRequest, 'opponent' | 'color' | 'startFen' | 'moves'>;
+
+/**
+ * A position to start a game from: a FEN and the moves already played from it.
+ */
+export interface StartPosition {
+  fen: string;
+  moves: string[];
+}
+
+/**
+ * Read a pasted or uploaded game, given either as a FEN or as PGN.
+ *
+ * @throws {Error} If the text is neither, or the game is already over
+ */
+export function parseStartPosition(text: string): StartPosition {
+  const trimmed = text.trim();
+  const chess = new Chess();
+  try {
+    chess.load(trimmed);
+  } catch {
+    // Not a FEN, so try PGN
+    try {
+      chess.loadPgn(trimmed);
+    } catch {
+      throw new Error('Not a valid PGN or FEN');
+    }
+  }
+  if (chess.isGameOver()) {
+    throw new Error('That game is already over');
+  }
+  const moves = chess.history();
+  while (chess.undo()) {
+    // Walk back to the starting position of the PGN
+  }
+  return { fen: chess.fen(), moves };
+}
+
+// Where the running engine game is remembered across reloads
+const SAVED_GAME_KEY = 'engineGame';
+
+/**
+ * The running engine game as stored in localStorage. The server keeps the
+ * position, but the clock of an engine game runs in the client, so it is
+ * saved along with the time it was saved at.
+ */
+interface SavedEngineGame {
+  gameId: string;
+  clock: ClockSnapshot | null;
+  savedAt: number;
+}
+
+function loadSavedEngineGame(): SavedEngineGame | null {
+  try {
+    const saved = localStorage.getItem(SAVED_GAME_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+function forgetSavedEngineGame() {
+  localStorage.removeItem(SAVED_GAME_KEY);
+}
 
-export function useChessGame() {
+/**
+ * The saved clock as of now: the side to move kept using time while the page was away.
+ */
+function getResumedClock(saved: SavedEngineGame): ClockSnapshot | null {
+  if (!saved.clock || !saved.clock.running) return saved.clock;
+  const elapsed = Date.now() - saved.savedAt;
+  const resumed = { ...saved.clock };
+  if (resumed.running === 'w') {
+    resumed.white = Math.max(resumed.white - elapsed, 0);
+  } else {
+    resumed.black = Math.max(resumed.black - elapsed, 0);
+  }
+  return resumed;
+}
+
+/**
+ * Number of plies played up to a position, counted from the start of the game.
+ */
+function getPlyNumber(fen: string): number {
+  const [, turn, , , , fullMove] = fen.split(' ');
+  return ((parseInt(fullMove, 10) || 1) - 1) * 2 + (turn === 'b' ? 1 : 0);
+}
+
+export function useChessGame(ws: WebSocket | null, newGameOptions: NewGameOptions = {}) {
   const [game, setGame] = useState(new Chess());
   const [fen, setFen] = useState(game.fen());
   const [selectedPiece, setSelectedPiece] = useState<Square | null>(null);
-  const [moveHistory, setMoveHistory] = useState('');
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null);
   const [fullHistory, setFullHistory] = useState<string[]>([]);
-  const [evaluation, setEvaluation] = useState(0);
-  const [suggestedMove, setSuggestedMove] = useState(null);
+  // The position the game started from, which differs from the standard one for imported games
+  const [startFen, setStartFen] = useState(DEFAULT_POSITION);
+  // From White's point of view, null until the engine has evaluated a position
+  const [evaluation, setEvaluation] = useState<Evaluation | null>(null);
+  // The evaluation shown after each ply, indexed by the number of plies played
+  const [evaluationHistory, setEvaluationHistory] = useState<(Evaluation | null)[]>([]);
+  // The opening of the live position as named by the server, null outside the opening database
+  const [opening, setOpening] = useState<OpeningInfo | null>(null);
+  // The ply being looked at in the move list, or null when following the live game
+  const [viewPly, setViewPly] = useState<number | null>(null);
   const [opponent, setOpponent] = useState<string>('stockfish');
-  const [gameStatus, setGameStatus] = useState<'active' | 'resigned' | 'checkmate' | 'draw'>('active');
+  const [gameStatus, setGameStatus] = useState<GameStatus>('active');
+  const [multiplayer, setMultiplayer] = useState<MultiplayerSession | null>(null);
+  // The side the user plays, in engine and multiplayer games alike
+  const [playerColor, setPlayerColor] = useState<PlayerColor>('w');
+  // The side that resigned, or that abandoned a multiplayer game
+  const [resignedColor, setResignedColor] = useState<PlayerColor | null>(null);
+  // Server-side engine session; kept in a ref so delayed callbacks see the current game
+  const [gameId, setGameId] = useState<string | null>(null);
+  const gameIdRef = useRef<string | null>(null);
+  const pendingGameIdRef = useRef<Promise<string | null> | null>(null);
+  const pendingMoveRef = useRef<Promise<void>>(Promise.resolve());
+  const { timeControl, clock, runningClock, flagged, resetClock, pressClock, stopClock, syncClock } = useChessClock();
+  // The clock of this render, for saving the game without re-running effects on every tick
+  const clockRef = useRef(clock);
+  clockRef.current = clock;
+
+  /**
+   * Effect hook that picks up the engine game that was running before the
+   * page was reloaded. Games the server has dropped or finished are forgotten.
+   */
+  useEffect(() => {
+    const saved = loadSavedEngineGame();
+    if (!saved) return;
+    getGameState(saved.gameId)
+      .then((response) => {
+        // The player may have started another game in the meantime
+        if (gameIdRef.current || pendingGameIdRef.current) return;
+        if (!response.success || response.state.status !== 'active') {
+          console.log('Saved game can no longer be resumed');
+          forgetSavedEngineGame();
+          return;
+        }
+        const { state } = response;
+        console.log(`Resuming game ${state.gameId} against ${state.opponent} as ${state.color}`);
+        const resumedGame = new Chess(state.startFen);
+        state.moves.forEach(move => resumedGame.move(move));
+        gameIdRef.current = state.gameId;
+        setGameId(state.gameId);
+        setGame(resumedGame);
+        setFen(resumedGame.fen());
+        setStartFen(state.startFen);
+        setFullHistory(state.moves);
+        setEvaluation(null);
+        setEvaluationHistory([]);
+        setOpening(state.opening);
+        setViewPly(null);
+        setOpponent(state.opponent);
+        setGameStatus('active');
+        setPlayerColor(state.color);
+        syncClock(state.timeControl, getResumedClock(saved));
+      })
+      .catch((error) => {
+        console.error('Error resuming saved game:', error);
+      });
+  }, [syncClock]);
+
+  /**
+   * Effect hook that saves the running engine game after every move, and
+   * forgets it once the game is over.
+   */
+  useEffect(() => {
+    if (!gameId) return;
+    if (gameStatus !== 'active') {
+      forgetSavedEngineGame();
+      return;
+    }
+    const currentClock = clockRef.current;
+    const saved: SavedEngineGame = {
+      gameId,
+      clock: currentClock ? { white: currentClock.w, black: currentClock.b, running: runningClock } : null,
+      savedAt: Date.now()
+    };
+    localStorage.setItem(SAVED_GAME_KEY, JSON.stringify(saved));
+  }, [gameId, gameStatus, fullHistory, runningClock]);
 
   useEffect(() => {
     setFen(game.fen());
-    updateMoveHistory();
-    if (game.turn() === 'b' && opponent !== 'human') {
+    setPendingPromotion(null);
+    // A finished game gets no more engine moves
+    if (gameStatus === 'active' && game.turn() !== playerColor && opponent !== 'human') {
       requestMove();
     }
-  }, [game, fullHistory, opponent]);
+  }, [game, fullHistory, opponent, playerColor, gameStatus]);
+
+  /**
+   * Effect hook that ends an engine game when a flag falls. In multiplayer
+   * games the server decides, so we just wait for its game state.
+   */
+  useEffect(() => {
+    if (!flagged || gameStatus !== 'active' || multiplayer) return;
+    console.log(`${flagged === 'w' ? 'White' : 'Black'} ran out of time`);
+    setGameStatus('timeout');
+    stopClock();
+    if (gameIdRef.current) {
+      reportTimeout({ gameId: gameIdRef.current, color: flagged }).catch((error) => {
+        console.error('Error reporting timeout:', error);
+      });
+    }
+  }, [flagged, gameStatus, multiplayer, stopClock]);
 
-  const makeAMove = (from: Square, to: Square) => {
-    console.log('makeAMove called with:', from, to);
+  /**
+   * Effect hook that stops the clock once the game is over.
+   */
+  useEffect(() => {
+    if (gameStatus !== 'active' && runningClock) {
+      stopClock();
+    }
+  }, [gameStatus, runningClock, stopClock]);
+
+  /**
+   * Whether a move is a pawn reaching the last rank, which needs a promotion piece.
+   */
+  const isPromotion = (from: Square, to: Square) => {
+    return game.moves({ square: from, verbose: true }).some(move => move.to === to && move.promotion);
+  };
+
+  const makeAMove = (from: Square, to: Square, promotion?: PromotionPiece) => {
+    console.log('makeAMove called with:', from, to, promotion);
+    if (gameStatus !== 'active') {
+      console.log('Game is over');
+      return null;
+    }
+    if ((multiplayer || opponent !== 'human') && game.turn() !== playerColor) {
+      console.log('Not your turn');
+      return null;
+    }
+    if (viewPly !== null) {
+      console.log('Return to the live position to move');
+      return null;
+    }
+    if (!promotion && isPromotion(from, to)) {
+      console.log('Waiting for the promotion piece');
+      setPendingPromotion({ from, to, color: game.turn() });
+      setSelectedPiece(null);
+      return null;
+    }
     const gameCopy = new Chess(game.fen());
     try {
-      const result = gameCopy.move({ from, to, promotion: 'q' });
+      const result = gameCopy.move({ from, to, promotion });
       if (result) {
         console.log('Move made:', result.san);
         setGame(gameCopy);
         setFen(gameCopy.fen());
         setFullHistory(prevHistory => [...prevHistory, result.san]);
-        setSuggestedMove(null);
+        // The new position has not been evaluated yet; the engine's answer records the next ply
+        recordEvaluation(gameCopy, null);
         setSelectedPiece(null);
         updateGameStatus(gameCopy);
+        if (multiplayer) {
+          sendMultiplayerMove(multiplayer.gameId, from, to, result.promotion);
+        } else {
+          pressClock(result.color);
+        }
+        if (!multiplayer && opponent !== 'human') {
+          pendingMoveRef.current = notifyServerOfMove({ from, to, promotion, san: result.san });
+        }
         return result.san;
       }
     } catch (error) {
@@ -42,7 +290,23 @@ export function useChessGame() {
     return null;
   };
 
+  /**
+   * Complete the pending promotion with the piece the player picked.
+   */
+  const choosePromotion = (piece: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    setPendingPromotion(null);
+    makeAMove(pendingPromotion.from, pendingPromotion.to, piece);
+  };
+
+  const cancelPromotion = () => {
+    setPendingPromotion(null);
+  };
+
   const onSquareClick = (square: Square) => {
+    if (viewPly !== null || pendingPromotion) {
+      return;
+    }
     if (selectedPiece === null) {
       const piece = game.get(square);
       if (piece && piece.color === game.turn()) {
@@ -69,6 +333,10 @@ export function useChessGame() {
       console.log('Piece already selected, returning false');
       return false;
     }
+    if (pendingPromotion) {
+      console.log('Promotion pending, returning false');
+      return false;
+    }
 
     if (isValidSquare(sourceSquare) && isValidSquare(targetSquare)) {
       console.log('Valid squares, attempting to make move');
@@ -80,6 +348,87 @@ export function useChessGame() {
     return false;
   };
 
+  const sendMultiplayerMove = (gameId: string, from: string, to: string, promotion?: string) => {
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      console.error('Cannot send move: WebSocket is not connected');
+      return;
+    }
+    const moveMessage: WebSocketMessage = { type: 'move', gameId, from, to, promotion };
+    ws.send(JSON.stringify(moveMessage));
+  };
+
+  /**
+   * Return the id of the current engine session, creating one if the player
+   * started moving without pressing "New Game".
+   */
+  const ensureGameSession = (
+    selectedOpponent: string = opponent,
+    color: PlayerColor = playerColor,
+    startPosition?: StartPosition
+  ): Promise<string | null> => {
+    if (gameIdRef.current) {
+      return Promise.resolve(gameIdRef.current);
+    }
+    if (!pendingGameIdRef.current) {
+      const pending: Promise<string | null> = createGameSession({
+        ...newGameOptions,
+        opponent: selectedOpponent,
+        color,
+        ...(startPosition && { startFen: startPosition.fen, moves: startPosition.moves })
+      })
+        .then((response) => {
+          if (pendingGameIdRef.current !== pending) {
+            // A newer game was started while this one was being created
+            if (response.success) endGameSession(response.gameId).catch(() => undefined);
+            return null;
+          }
+          pendingGameIdRef.current = null;
+          if (!response.success) {
+            console.error('Failed to start game session:', response.error);
+            return null;
+          }
+          gameIdRef.current = response.gameId;
+          setGameId(response.gameId);
+          return response.gameId;
+        })
+        .catch((error) => {
+          console.error('Error starting game session:', error);
+          if (pendingGameIdRef.current === pending) pendingGameIdRef.current = null;
+          return null;
+        });
+      pendingGameIdRef.current = pending;
+    }
+    return pendingGameIdRef.current;
+  };
+
+  const endCurrentGameSession = () => {
+    const currentGameId = gameIdRef.current;
+    forgetSavedEngineGame();
+    gameIdRef.current = null;
+    pendingGameIdRef.current = null;
+    setGameId(null);
+    if (currentGameId) {
+      endGameSession(currentGameId).catch((error) => {
+        console.error('Error ending game session:', error);
+      });
+    }
+  };
+
+  const notifyServerOfMove = async (move: Omit<MoveRequest, 'gameId'>) => {
+    const currentGameId = await ensureGameSession();
+    if (!currentGameId) return;
+    try {
+      const response = await sendMoveToServer({ gameId: currentGameId, ...move });
+      if (!response.success) {
+        console.error('Server rejected move:', response.error);
+      } else if (gameIdRef.current === currentGameId) {
+        setOpening(response.opening);
+      }
+    } catch (error) {
+      console.error('Error sending move to server:', error);
+    }
+  };
+
   const isValidSquare = (square: string): square is Square => {
     return /^[a-h][1-8]$/.test(square);
   };
@@ -87,9 +436,12 @@ export function useChessGame() {
   const requestMove = async () => {
     try {
       console.log('Requesting move from server:', game.fen(), 'Opponent:', opponent);
-      const response: GetMoveResponse = await getMoveFromServer({ 
-        board: game.fen(), 
-        opponent: opponent 
+      await pendingMoveRef.current;
+      const currentGameId = await ensureGameSession();
+      if (!currentGameId) return;
+      const response: GetMoveResponse = await getMoveFromServer({
+        gameId: currentGameId,
+        board: game.fen()
       });
 
       if ('error' in response) {
@@ -97,7 +449,7 @@ export function useChessGame() {
         return;
       }
 
-      const { move, evaluation } = response;
+      const { move, evaluation, opening: newOpening } = response;
       console.log('Received move:', move);
 
       const { from, to, promotion } = move;
@@ -117,6 +469,9 @@ export function useChessGame() {
       setFen(newGame.fen());
       setFullHistory(prevHistory => [...prevHistory, result.san]);
       setEvaluation(evaluation);
+      recordEvaluation(newGame, evaluation);
+      setOpening(newOpening);
+      pressClock(result.color);
       updateGameStatus(newGame);
 
       console.log('Move applied, new FEN:', newGame.fen());
@@ -126,43 +481,148 @@ export function useChessGame() {
     }
   };
 
-  const updateMoveHistory = () => {
-    let formattedHistory = '';
-    for (let i = 0; i < fullHistory.length; i += 2) {
-      const moveNumber = Math.floor(i / 2) + 1;
-      const whiteMove = fullHistory[i];
-      const blackMove = fullHistory[i + 1] || '';
-      formattedHistory += `${moveNumber}. ${whiteMove} ${blackMove}\n`;
+  /**
+   * Remember the evaluation shown after a ply, dropping any later ones.
+   */
+  const recordEvaluation = (position: Chess, value: Evaluation | null) => {
+    const ply = getPlyNumber(position.fen()) - getPlyNumber(startFen);
+    setEvaluationHistory(prev => {
+      const next = prev.slice(0, ply);
+      next[ply] = value;
+      return next;
+    });
+  };
+
+  /**
+   * Start a game against an engine, or a local game, from the standard
+   * starting position or from an imported one.
+   */
+  const startNewGame = (selectedOpponent: string, colorChoice: ColorChoice = 'w', startPosition?: StartPosition) => {
+    console.log("Starting new game with opponent:", selectedOpponent, "as", colorChoice);
+    // Resolved here so the board can be flipped before the server answers
+    const color: PlayerColor = colorChoice === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : colorChoice;
+    endCurrentGameSession();
+    if (selectedOpponent !== 'human') {
+      ensureGameSession(selectedOpponent, color, startPosition);
     }
-    setMoveHistory(formattedHistory.trim());
+    const newGame = new Chess(startPosition ? startPosition.fen : DEFAULT_POSITION);
+    const moves = startPosition ? startPosition.moves : [];
+    moves.forEach(move => newGame.move(move));
+    setGame(newGame);
+    setFen(newGame.fen());
+    setEvaluation(null);
+    setEvaluationHistory([]);
+    setOpening(null);
+    setStartFen(startPosition ? startPosition.fen : DEFAULT_POSITION);
+    setFullHistory(moves);
+    setViewPly(null);
+    setSelectedPiece(null);
+    setOpponent(selectedOpponent);
+    setGameStatus('active');
+    setResignedColor(null);
+    setMultiplayer(null);
+    setPlayerColor(color);
+    resetClock(newGameOptions.timeControl || null);
+    // When the user plays Black, the effect above asks the engine for its first move
   };
 
-  const startNewGame = (selectedOpponent: string) => {
-    console.log("Starting new game with opponent:", selectedOpponent);
-    const newGame = new Chess();
+  /**
+   * Start a game against another online player. The server decides the colors
+   * and owns the position from here on; see applyGameState.
+   */
+  const startMultiplayerGame = (
+    gameId: string,
+    opponentName: string,
+    color: PlayerColor,
+    startFen: string,
+    gameTimeControl: TimeControl | null
+  ) => {
+    console.log(`Starting multiplayer game ${gameId} against ${opponentName} as ${color}`);
+    endCurrentGameSession();
+    const newGame = new Chess(startFen);
     setGame(newGame);
     setFen(newGame.fen());
-    setEvaluation(0);
-    setMoveHistory('');
+    setStartFen(newGame.fen());
+    setEvaluation(null);
+    setEvaluationHistory([]);
+    setOpening(null);
     setFullHistory([]);
-    setSuggestedMove(null);
+    setViewPly(null);
     setSelectedPiece(null);
-    setOpponent(selectedOpponent);
+    setOpponent('human');
     setGameStatus('active');
+    setResignedColor(null);
+    setMultiplayer({ gameId, color, opponentName });
+    setPlayerColor(color);
+    resetClock(gameTimeControl);
+  };
+
+  /**
+   * Pick a multiplayer game up again after a reload or a dropped connection,
+   * from the state the server sends when the player logs in again.
+   */
+  const resumeMultiplayerGame = (opponentName: string, color: PlayerColor, state: MultiplayerGameState) => {
+    console.log(`Resuming multiplayer game ${state.gameId} against ${opponentName} as ${color}`);
+    if (!multiplayer || multiplayer.gameId !== state.gameId) {
+      endCurrentGameSession();
+      setStartFen(DEFAULT_POSITION);
+      setEvaluation(null);
+      setEvaluationHistory([]);
+      setViewPly(null);
+      setOpponent('human');
+      setMultiplayer({ gameId: state.gameId, color, opponentName });
+      setPlayerColor(color);
+    }
+    showGameState(state);
+  };
 
-    if (selectedOpponent !== 'human' && newGame.turn() === 'b') {
-      setTimeout(() => requestMove(), 500);
+  /**
+   * Replace the local position with the authoritative state broadcast by the server.
+   */
+  const applyGameState = (state: MultiplayerGameState) => {
+    if (!multiplayer || state.gameId !== multiplayer.gameId) {
+      console.log('Ignoring state for unknown game:', state.gameId);
+      return;
     }
+    showGameState(state);
+  };
+
+  const showGameState = (state: MultiplayerGameState) => {
+    const newGame = new Chess();
+    state.moves.forEach(move => newGame.move(move));
+    setGame(newGame);
+    setFen(newGame.fen());
+    setFullHistory(state.moves);
+    setOpening(state.opening);
+    setSelectedPiece(null);
+    setGameStatus(state.status);
+    setResignedColor((state.status === 'resigned' || state.status === 'abandoned') && state.result ? (state.result === '0-1' ? 'w' : 'b') : null);
+    syncClock(state.timeControl, state.clock);
   };
 
   const undoLastMove = async () => {
     console.log('Undoing last move 1:', fullHistory);
+    if (multiplayer) {
+      console.log('Cannot undo moves in a multiplayer game');
+      return;
+    }
     if (fullHistory.length > 0) {
-      let newHistory = fullHistory.length % 2 === 0 ? fullHistory.slice(0, -2) : fullHistory.slice(0, -1);
+      // Take back the engine's reply as well when it has already moved
+      let newHistory = game.turn() === playerColor ? fullHistory.slice(0, -2) : fullHistory.slice(0, -1);
 
       console.log('Undoing last move 2:', newHistory);
 
-      const newGame = new Chess();
+      if (gameIdRef.current) {
+        await pendingMoveRef.current;
+        const response = await undoOnServer({ gameId: gameIdRef.current, plies: fullHistory.length - newHistory.length });
+        if (!response.success) {
+          console.error('Server refused to undo:', response.error);
+          return;
+        }
+        setOpening(response.opening);
+      }
+
+      const newGame = new Chess(startFen);
       newHistory.forEach(move => newGame.move(move));
 
       console.log('Undoing last move 3:', newGame.history());
@@ -170,30 +630,67 @@ export function useChessGame() {
       setGame(newGame);
       setFen(newGame.fen());
       setFullHistory(newHistory);
-      setSuggestedMove(null);
       setSelectedPiece(null);
-      updateMoveHistory();
+      setViewPly(null);
       updateGameStatus(newGame);
 
       if (newHistory.length > 0) {
-        const newEvaluation = await requestEvaluation(newGame.fen());
+        const newEvaluation = await requestEvaluation(newGame.fen(), gameIdRef.current);
         if (newEvaluation !== null) {
-          setEvaluation(-newEvaluation);
+          setEvaluation(newEvaluation);
+          recordEvaluation(newGame, newEvaluation);
         }
       } else {
-        setEvaluation(0);
+        setEvaluation(null);
+        recordEvaluation(newGame, null);
       }
     } else {
       console.log('No moves to undo');
     }
   };
 
+  /**
+   * Show the position after the given number of plies without changing the
+   * game. Moving to the last ply returns to the live position.
+   */
+  const goToPly = (ply: number) => {
+    const clamped = Math.max(0, Math.min(ply, fullHistory.length));
+    setSelectedPiece(null);
+    setViewPly(clamped === fullHistory.length ? null : clamped);
+  };
+
+  const currentPly = viewPly === null ? fullHistory.length : viewPly;
+  const goToFirst = () => goToPly(0);
+  const goToPrevious = () => goToPly(currentPly - 1);
+  const goToNext = () => goToPly(currentPly + 1);
+  const goToLast = () => goToPly(fullHistory.length);
+
+  const getViewedFen = (): string => {
+    if (viewPly === null) return fen;
+    const viewedGame = new Chess(startFen);
+    fullHistory.slice(0, viewPly).forEach(move => viewedGame.move(move));
+    return viewedGame.fen();
+  };
+
   const resign = () => {
-    if (game.turn() === 'w') {
+    if (multiplayer) {
+      if (ws && ws.readyState === WebSocket.OPEN) {
+        const resignMessage: WebSocketMessage = { type: 'resign', gameId: multiplayer.gameId };
+        ws.send(JSON.stringify(resignMessage));
+      }
+      return;
+    }
+    if (gameStatus === 'active') {
       setGameStatus('resigned');
-      console.log('White resigned');
+      setResignedColor(playerColor);
+      console.log(`${playerColor === 'w' ? 'White' : 'Black'} resigned`);
+      if (gameIdRef.current) {
+        resignOnServer(gameIdRef.current).catch((error) => {
+          console.error('Error resigning game on server:', error);
+        });
+      }
     } else {
-      console.log('Only White can resign');
+      console.log('Game is already over');
     }
   };
 
@@ -205,53 +702,100 @@ export function useChessGame() {
     }
   };
 
+  /**
+   * The PGN result of the current game, or "*" while it is still going on.
+   */
+  const getGameResult = (): GameResult | '*' => {
+    const whiteLost = (color: PlayerColor | null) => color === 'w' ? '0-1' : '1-0';
+    switch (gameStatus) {
+      case 'checkmate':
+        return whiteLost(game.turn());
+      case 'resigned':
+      case 'abandoned':
+        return whiteLost(resignedColor);
+      case 'timeout':
+        return whiteLost(clock && clock.w <= 0 ? 'w' : 'b');
+      case 'draw':
+        return '1/2-1/2';
+      default:
+        return '*';
+    }
+  };
+
+  /**
+   * Export the current game as PGN.
+   *
+   * @param playerName - The name to use for the user's side
+   * @param engineName - The name of the engine opponent, if the game is against one
+   */
+  const getPgn = (playerName: string, engineName?: string): string => {
+    const pgnGame = new Chess(startFen);
+    fullHistory.forEach(move => pgnGame.move(move));
+
+    const opponentName = multiplayer ? multiplayer.opponentName : engineName || opponent;
+    const opponentType = multiplayer ? 'human' : opponent;
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '.');
+    pgnGame.header(
+      'Event', opponentType === 'human' ? 'StockMate Chess online game' : `StockMate Chess vs ${opponentType}`,
+      'Site', 'StockMate Chess',
+      'Date', date,
+      'Round', '-',
+      'White', playerColor === 'w' ? playerName : opponentName,
+      'Black', playerColor === 'w' ? opponentName : playerName,
+      'Result', getGameResult()
+    );
+    if (opponentType === 'stockfish' && newGameOptions.strength) {
+      pgnGame.header('EngineDepth', newGameOptions.strength.depth.toString());
+    }
+    return pgnGame.pgn();
+  };
+
   return {
     game,
     fen,
     selectedPiece,
-    moveHistory,
+    pendingPromotion,
     fullHistory,
     evaluation,
-    suggestedMove,
+    opening,
     opponent,
     gameStatus,
+    multiplayer,
+    playerColor,
+    resignedColor,
+    gameId,
+    timeControl,
+    clock,
+    runningClock,
     makeAMove,
     onSquareClick,
     onPieceDrop,
+    choosePromotion,
+    cancelPromotion,
     requestMove,
     startNewGame,
+    startMultiplayerGame,
+    resumeMultiplayerGame,
+    applyGameState,
     undoLastMove,
-    setSuggestedMove,
+    getPgn,
+    startFen,
+    viewPly,
+    displayFen: getViewedFen(),
+    displayEvaluation: viewPly === null ? evaluation : evaluationHistory[viewPly] ?? null,
+    goToPly,
+    goToFirst,
+    goToPrevious,
+    goToNext,
+    goToLast,
     setOpponent,
     resign
   };
 }
 
-async function getMoveFromServer(request: GetMoveRequest): Promise<GetMoveResponse> {
-  const response = await fetch('http://localhost:3001/api/get_move', {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(request),
-  });
-  return response.json();
-}
-
-async function requestEvaluation(fen: string): Promise<number | null> {
+async function requestEvaluation(fen: string, gameId: string | null): Promise<Evaluation | null> {
   try {
-    const response = await fetch('http://localhost:3001/api/evaluate', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ board: fen }),
-    });
-
-    const data = await response.json();
-    if (data.evaluation !== undefined) {
-      return data.evaluation;
-    } else if (data.error) {
-      console.error('Evaluation error:', data.error);
-    }
+    return await evaluatePosition(fen, gameId);
   } catch (error) {
     console.error('Error requesting evaluation:', error);
   }
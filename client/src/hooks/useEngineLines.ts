@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { EngineLinesProgress } from '../../../shared/types';
+import { startEngineLines, getEngineLines, stopEngineLines } from '../services/api';
+
+const POLL_INTERVAL_MS = 500;
+
+/**
+ * Custom React hook for the live engine lines of the analysis panel.
+ *
+ * While enabled, every new position starts a MultiPV search on the server
+ * and the lines are polled as the search deepens. The previous search is
+ * stopped whenever the position changes or the panel is closed.
+ *
+ * @param fen - The position to search
+ * @param enabled - Whether the panel is open
+ * @param gameId - The current engine game, whose depth is used for the search
+ * @param lineCount - The number of candidate lines to show
+ * @returns The latest lines of the current position
+ */
+export function useEngineLines(fen: string, enabled: boolean, gameId: string | null, lineCount: number = 3) {
+  const [engineLines, setEngineLines] = useState<EngineLinesProgress | null>(null);
+
+  useEffect(() => {
+    setEngineLines(null);
+    if (!enabled) return;
+
+    let cancelled = false;
+    let searchId: string | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      if (cancelled || !searchId) return;
+      try {
+        const progress = await getEngineLines(searchId);
+        if (cancelled) return;
+        setEngineLines(progress);
+        if (progress.status === 'running') {
+          pollTimer = setTimeout(poll, POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error('Error fetching engine lines:', error);
+      }
+    };
+
+    startEngineLines({ board: fen, gameId: gameId || undefined, lines: lineCount })
+      .then((response) => {
+        if (!response.success) {
+          console.log('No engine lines for this position:', response.error);
+          return;
+        }
+        searchId = response.searchId;
+        if (cancelled) {
+          stopEngineLines(searchId).catch(() => undefined);
+          return;
+        }
+        poll();
+      })
+      .catch((error) => {
+        console.error('Error starting engine lines:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (pollTimer) clearTimeout(pollTimer);
+      if (searchId) stopEngineLines(searchId).catch(() => undefined);
+    };
+  }, [fen, enabled, gameId, lineCount]);
+
+  return {
+    engineLines   // The latest lines of the current position, or null while starting
+  };
+}
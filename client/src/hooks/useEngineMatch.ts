@@ -0,0 +1,102 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { MatchProgress, StartMatchRequest, WebSocketMessage } from '../../../shared/types';
+import { startMatch, getMatch, stopMatch } from '../services/api';
+
+/**
+ * Custom React hook for running and watching a match between two engines.
+ *
+ * The server plays the match and sends a match_update message over the
+ * WebSocket after every move; the App passes those on to applyMatchUpdate.
+ *
+ * @param ws - The WebSocket connection used to watch the match
+ * @returns The state of the watched match and functions to start and stop it
+ */
+export function useEngineMatch(ws: WebSocket | null) {
+  const [match, setMatch] = useState<MatchProgress | null>(null);
+  const [matchError, setMatchError] = useState<string | null>(null);
+  // The match being watched, so that updates of earlier matches are ignored
+  const matchIdRef = useRef<string | null>(null);
+
+  /**
+   * Effect hook that watches the match again on a new connection after a dropped one.
+   */
+  useEffect(() => {
+    if (!ws) return;
+    const rewatch = () => {
+      if (matchIdRef.current) {
+        ws.send(JSON.stringify({ type: 'watch_match', matchId: matchIdRef.current } as WebSocketMessage));
+      }
+    };
+    ws.addEventListener('open', rewatch);
+    return () => ws.removeEventListener('open', rewatch);
+  }, [ws]);
+
+  const sendMessage = useCallback((message: WebSocketMessage) => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  }, [ws]);
+
+  /**
+   * Follow a match, loading its state once if the WebSocket is not connected.
+   */
+  const watchMatch = useCallback(async (matchId: string) => {
+    if (matchIdRef.current && matchIdRef.current !== matchId) {
+      sendMessage({ type: 'unwatch_match', matchId: matchIdRef.current });
+    }
+    matchIdRef.current = matchId;
+    if (!sendMessage({ type: 'watch_match', matchId })) {
+      console.error('Cannot watch the match live: WebSocket is not connected');
+      try {
+        setMatch(await getMatch(matchId));
+      } catch (error) {
+        console.error('Error fetching match:', error);
+      }
+    }
+  }, [sendMessage]);
+
+  const startEngineMatch = useCallback(async (request: StartMatchRequest) => {
+    setMatchError(null);
+    try {
+      const response = await startMatch(request);
+      if (!response.success) {
+        setMatchError(response.error);
+        return;
+      }
+      setMatch(null);
+      watchMatch(response.matchId);
+    } catch (error) {
+      console.error('Error starting match:', error);
+      setMatchError('Failed to start the match');
+    }
+  }, [watchMatch]);
+
+  const stopEngineMatch = useCallback(async () => {
+    if (!matchIdRef.current) return;
+    try {
+      await stopMatch(matchIdRef.current);
+    } catch (error) {
+      console.error('Error stopping match:', error);
+      setMatchError('Failed to stop the match');
+    }
+  }, []);
+
+  /**
+   * Take over a match_update message from the server.
+   */
+  const applyMatchUpdate = useCallback((progress: MatchProgress) => {
+    if (progress.matchId === matchIdRef.current) {
+      setMatch(progress);
+    }
+  }, []);
+
+  return {
+    match,              // The watched match, or null before the first update
+    matchError,         // Why the last match could not be started or stopped
+    startEngineMatch,   // Function to start a match and watch it
+    stopEngineMatch,    // Function to stop the watched match
+    applyMatchUpdate    // Function to apply a match_update message
+  };
+}
@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AnalysisProgress } from '../../../shared/types';
+import { startAnalysis, getAnalysis } from '../services/api';
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Custom React hook for running a post-game analysis on the server.
+ *
+ * The server analyzes the game in the background; this hook polls it until
+ * the report is done or the analysis is cleared, e.g. by a new game.
+ *
+ * @returns The state of the current analysis and functions to start and clear it
+ */
+export function useGameAnalysis() {
+  const [analysis, setAnalysis] = useState<AnalysisProgress | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  // The analysis being polled; cleared to stop polling
+  const analysisIdRef = useRef<string | null>(null);
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopPolling = useCallback(() => {
+    analysisIdRef.current = null;
+    if (pollTimerRef.current) {
+      clearTimeout(pollTimerRef.current);
+      pollTimerRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => stopPolling, [stopPolling]);
+
+  const poll = useCallback(async (analysisId: string) => {
+    try {
+      const progress = await getAnalysis(analysisId);
+      if (analysisIdRef.current !== analysisId) return;
+      setAnalysis(progress);
+      if (progress.status === 'running') {
+        pollTimerRef.current = setTimeout(() => poll(analysisId), POLL_INTERVAL_MS);
+      } else {
+        if (progress.status === 'failed') setAnalysisError(progress.error || 'Analysis failed');
+        stopPolling();
+      }
+    } catch (error) {
+      console.error('Error fetching analysis:', error);
+      if (analysisIdRef.current === analysisId) {
+        setAnalysisError('Lost track of the analysis');
+        stopPolling();
+      }
+    }
+  }, [stopPolling]);
+
+  /**
+   * Analyze a game given as SAN moves from its starting position, which is
+   * the standard one unless the game was imported from another position.
+   */
+  const analyzeGame = useCallback(async (moves: string[], startFen: string, depth?: number) => {
+    stopPolling();
+    setAnalysis(null);
+    setAnalysisError(null);
+    try {
+      const response = await startAnalysis({ moves, startFen, depth });
+      if (!response.success) {
+        setAnalysisError(response.error);
+        return;
+      }
+      analysisIdRef.current = response.analysisId;
+      poll(response.analysisId);
+    } catch (error) {
+      console.error('Error starting analysis:', error);
+      setAnalysisError('Failed to start the analysis');
+    }
+  }, [poll, stopPolling]);
+
+  const clearAnalysis = useCallback(() => {
+    stopPolling();
+    setAnalysis(null);
+    setAnalysisError(null);
+  }, [stopPolling]);
+
+  return {
+    analysis,        // Progress of the current analysis, with the report once done
+    analysisError,   // Why the last analysis could not be completed, if it failed
+    analyzeGame,     // Function to start analyzing a game
+    clearAnalysis    // Function to discard the current analysis
+  };
+}
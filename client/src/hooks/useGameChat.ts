@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChatMessage, WebSocketMessage } from '../../../shared/types';
+
+/**
+ * Custom React hook for the chat between the players of a multiplayer game.
+ *
+ * Messages go through the server, which masks profanity and enforces its
+ * limits; the App passes chat_message_received and chat_message_rejected
+ * messages on to applyChatMessage and applyChatRejection.
+ *
+ * @param ws - The WebSocket connection of the game
+ * @param gameId - The multiplayer game being played, or null
+ * @returns The messages of the game and a function to send one
+ */
+export function useGameChat(ws: WebSocket | null, gameId: string | null) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [chatError, setChatError] = useState<string | null>(null);
+
+  /**
+   * Effect hook that starts every game with an empty chat.
+   */
+  useEffect(() => {
+    setMessages([]);
+    setChatError(null);
+  }, [gameId]);
+
+  /**
+   * Send a message to the opponent.
+   *
+   * @returns Whether the message was sent; the server may still reject it
+   */
+  const sendChatMessage = useCallback((text: string): boolean => {
+    if (!gameId || text.trim().length === 0) return false;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      setChatError('Not connected');
+      return false;
+    }
+    const message: WebSocketMessage = { type: 'chat_message', gameId, text };
+    ws.send(JSON.stringify(message));
+    setChatError(null);
+    return true;
+  }, [ws, gameId]);
+
+  /**
+   * Take over a chat_message_received message from the server.
+   */
+  const applyChatMessage = useCallback((messageGameId: string, message: ChatMessage) => {
+    if (messageGameId !== gameId) return;
+    setMessages(prev => [...prev, message]);
+  }, [gameId]);
+
+  /**
+   * Take over a chat_message_rejected message from the server.
+   */
+  const applyChatRejection = useCallback((messageGameId: string, reason: string) => {
+    if (messageGameId !== gameId) return;
+    setChatError(reason);
+  }, [gameId]);
+
+  return {
+    chatMessages: messages,  // The messages of the current game, oldest first
+    chatError,               // Why the last message was not delivered
+    sendChatMessage,         // Function to send a message to the opponent
+    applyChatMessage,        // Function to apply a chat_message_received message
+    applyChatRejection       // Function to apply a chat_message_rejected message
+  };
+}
@@ -1,34 +1,38 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { EngineStrength, OpponentInfo } from '../../../shared/types';
+import { getOpponents, setStrengthOnServer } from '../services/api';
 
 export function useOpponent() {
   const [opponent, setOpponent] = useState<string>('stockfish');
   const [searchDepth, setSearchDepth] = useState<number>(10);
+  // The engines configured on the server, loaded once
+  const [opponents, setOpponents] = useState<OpponentInfo[]>([]);
 
-  const setStockfishDepth = async (depth: number) => {
-    try {
-      const response = await fetch('http://localhost:3001/api/set-depth', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ depth }),
+  useEffect(() => {
+    getOpponents()
+      .then(setOpponents)
+      .catch((error) => {
+        console.error('Error fetching opponents:', error);
       });
-      const data = await response.json();
-      if (data.success) {
-        console.log(`Search depth set to ${depth}`);
-      } else {
-        console.error('Failed to set search depth:', data.error);
-      }
+  }, []);
+
+  const setEngineStrength = async (gameId: string | null, strength: EngineStrength) => {
+    // Without a running game the strength is simply used for the next one
+    if (!gameId) return;
+    try {
+      await setStrengthOnServer(gameId, strength);
+      console.log('Engine strength set to', strength);
     } catch (error) {
-      console.error('Error setting search depth:', error);
+      console.error('Error setting engine strength:', error);
     }
   };
 
   return {
     opponent,
     setOpponent,
+    opponents,
     searchDepth,
     setSearchDepth,
-    setStockfishDepth
+    setEngineStrength
   };
 }
@@ -0,0 +1,161 @@
+import { useState, useCallback } from 'react';
+import { Chess, Square } from 'chess.js';
+import { Puzzle, PuzzleRatingChange, PromotionPiece } from '../../../shared/types';
+import { PendingPromotion } from './useChessGame';
+import { getNextPuzzle, sendPuzzleMove } from '../services/api';
+
+export type PuzzleStatus = 'idle' | 'loading' | 'solving' | 'checking' | 'solved' | 'failed' | 'exhausted';
+
+/**
+ * Play a UCI move such as "e7e8q" on a board.
+ *
+ * @returns The move in SAN
+ */
+function playUciMove(chess: Chess, uciMove: string): string {
+  return chess.move({
+    from: uciMove.slice(0, 2),
+    to: uciMove.slice(2, 4),
+    promotion: uciMove.length > 4 ? uciMove[4] : undefined
+  }).san;
+}
+
+/**
+ * Convert a line of UCI moves played from a position to SAN.
+ */
+function toSanLine(fen: string, uciMoves: string[]): string[] {
+  const chess = new Chess(fen);
+  return uciMoves.map(move => playUciMove(chess, move));
+}
+
+/**
+ * Custom React hook for solving puzzles found in stored games.
+ *
+ * The server keeps the solution and judges every move; the opponent's
+ * replies come back with the verdict and are played on the board here.
+ *
+ * @returns The puzzle being solved, its position and functions to play it
+ */
+export function usePuzzleTrainer() {
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [fen, setFen] = useState<string | null>(null);
+  // Every move played from the puzzle position in UCI, replies included
+  const [moves, setMoves] = useState<string[]>([]);
+  const [status, setStatus] = useState<PuzzleStatus>('idle');
+  const [puzzleRating, setPuzzleRating] = useState<number | null>(null);
+  const [ratingChange, setRatingChange] = useState<PuzzleRatingChange | null>(null);
+  // After a wrong move: the engine's answer to it and the moves that would have won, in SAN
+  const [refutation, setRefutation] = useState<string[]>([]);
+  const [solution, setSolution] = useState<string[]>([]);
+  const [puzzleError, setPuzzleError] = useState<string | null>(null);
+  // A pawn move waiting for the solver to pick the piece it promotes to
+  const [pendingPromotion, setPendingPromotion] = useState<PendingPromotion | null>(null);
+
+  const loadNextPuzzle = useCallback(async () => {
+    setStatus('loading');
+    setPuzzleError(null);
+    setRatingChange(null);
+    setRefutation([]);
+    setSolution([]);
+    setPendingPromotion(null);
+    try {
+      const response = await getNextPuzzle();
+      setPuzzleRating(response.puzzleRating);
+      setPuzzle(response.puzzle);
+      setFen(response.puzzle ? response.puzzle.fen : null);
+      setMoves([]);
+      setStatus(response.puzzle ? 'solving' : 'exhausted');
+    } catch (error) {
+      console.error('Error fetching puzzle:', error);
+      setPuzzleError('Failed to load a puzzle');
+      setStatus('idle');
+    }
+  }, []);
+
+  /**
+   * Play the solver's move and send it to the server to be judged. A pawn
+   * move to the last rank without a piece waits for choosePromotion.
+   *
+   * @returns Whether the move was legal and sent
+   */
+  const playPuzzleMove = useCallback((from: string, to: string, promotion?: string): boolean => {
+    if (!puzzle || !fen || status !== 'solving') return false;
+    const chess = new Chess(fen);
+    const isPromotion = chess.moves({ square: from as Square, verbose: true }).some(move => move.to === to && move.promotion);
+    if (!promotion && isPromotion) {
+      setPendingPromotion({ from: from as Square, to: to as Square, color: chess.turn() });
+      return false;
+    }
+    let uciMove: string;
+    try {
+      const move = chess.move({ from, to, promotion });
+      uciMove = move.from + move.to + (move.promotion || '');
+    } catch {
+      return false;
+    }
+    const played = [...moves, uciMove];
+    setFen(chess.fen());
+    setMoves(played);
+    setStatus('checking');
+
+    (async () => {
+      try {
+        const response = await sendPuzzleMove(puzzle.id, played);
+        if (response.result === 'correct') {
+          playUciMove(chess, response.reply);
+          setFen(chess.fen());
+          setMoves([...played, response.reply]);
+          setStatus('solving');
+          return;
+        }
+        if (response.ratingChange) {
+          setRatingChange(response.ratingChange);
+          setPuzzleRating(response.ratingChange.newRating);
+        }
+        if (response.result === 'failed') {
+          setRefutation(toSanLine(chess.fen(), response.refutation));
+          const beforeMistake = new Chess(puzzle.fen);
+          moves.forEach(move => playUciMove(beforeMistake, move));
+          setSolution(toSanLine(beforeMistake.fen(), response.solution));
+        }
+        setStatus(response.result);
+      } catch (error) {
+        console.error('Error checking puzzle move:', error);
+        setPuzzleError('Failed to check the move');
+        // Take the move back so it can be played again
+        setFen(fen);
+        setMoves(moves);
+        setStatus('solving');
+      }
+    })();
+    return true;
+  }, [puzzle, fen, moves, status]);
+
+  /**
+   * Complete the pending promotion with the piece the solver picked.
+   */
+  const choosePromotion = useCallback((piece: PromotionPiece) => {
+    if (!pendingPromotion) return;
+    setPendingPromotion(null);
+    playPuzzleMove(pendingPromotion.from, pendingPromotion.to, piece);
+  }, [pendingPromotion, playPuzzleMove]);
+
+  const cancelPromotion = useCallback(() => {
+    setPendingPromotion(null);
+  }, []);
+
+  return {
+    puzzle,             // The puzzle being solved, or null
+    fen,                // The position on the puzzle board
+    status,             // Where the solver is in the puzzle
+    puzzleRating,       // The user's puzzle rating, once a puzzle was loaded
+    ratingChange,       // The change of the puzzle rating after a first attempt
+    refutation,         // The engine's answer to a wrong move, in SAN
+    solution,           // The winning moves from the wrong move on, in SAN
+    puzzleError,        // Why the last request failed
+    pendingPromotion,   // The promotion waiting for a piece, or null
+    loadNextPuzzle,     // Function to load a puzzle near the user's rating
+    playPuzzleMove,     // Function to play the solver's move
+    choosePromotion,    // Function to promote to the picked piece
+    cancelPromotion     // Function to take back the pending promotion
+  };
+}
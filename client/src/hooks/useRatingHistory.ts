@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RatingHistoryEntry, User } from '../../../shared/types';
+import { getRatingHistory } from '../services/api';
+
+/**
+ * Custom React hook for loading the user's rating history.
+ * 
+ * @param user - The current authenticated user, or null if not authenticated
+ * @returns The rating history, oldest first, and a function to reload it
+ */
+export function useRatingHistory(user: User | null) {
+  const [ratingHistory, setRatingHistory] = useState<RatingHistoryEntry[]>([]);
+  const username = user ? user.username : null;
+
+  /**
+   * Reloads the history from the server, e.g. after a rated game ended.
+   */
+  const refreshRatingHistory = useCallback(async () => {
+    try {
+      setRatingHistory(await getRatingHistory());
+    } catch (error) {
+      console.error('Error fetching rating history:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (username) {
+      refreshRatingHistory();
+    } else {
+      setRatingHistory([]);
+    }
+  }, [username, refreshRatingHistory]);
+
+  return {
+    ratingHistory,         // The user's rating history, oldest first
+    refreshRatingHistory   // Function to reload the history
+  };
+}
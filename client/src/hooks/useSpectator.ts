@@ -0,0 +1,95 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LiveGameSummary, MultiplayerGameState, User, WebSocketMessage } from '../../../shared/types';
+import { getLiveGames } from '../services/api';
+import { useChessClock } from './useChessClock';
+
+/**
+ * Custom React hook for watching multiplayer games of other players.
+ *
+ * The server sends the running games in live_games messages and the state
+ * of a watched game in spectator_state messages; the App passes both on to
+ * applyLiveGames and applySpectatorState.
+ *
+ * @param ws - The WebSocket connection used to watch games
+ * @param user - The logged-in user, or null
+ * @returns The running games, the watched game with its clock and functions to watch games
+ */
+export function useSpectator(ws: WebSocket | null, user: User | null) {
+  const [liveGames, setLiveGames] = useState<LiveGameSummary[]>([]);
+  const [watchedGame, setWatchedGame] = useState<MultiplayerGameState | null>(null);
+  // The game being watched, so that states of earlier games are ignored
+  const watchedGameIdRef = useRef<string | null>(null);
+  const { clock, runningClock, syncClock } = useChessClock();
+
+  const loggedIn = user !== null;
+
+  /**
+   * Effect hook that loads the running games once logged in.
+   */
+  useEffect(() => {
+    if (!loggedIn) return;
+    getLiveGames()
+      .then(setLiveGames)
+      .catch(error => console.error('Error fetching live games:', error));
+  }, [loggedIn]);
+
+  /**
+   * Effect hook that watches the game again on a new connection after a dropped one.
+   */
+  useEffect(() => {
+    if (!ws) return;
+    const rewatch = () => {
+      if (watchedGameIdRef.current) {
+        ws.send(JSON.stringify({ type: 'watch', gameId: watchedGameIdRef.current } as WebSocketMessage));
+      }
+    };
+    ws.addEventListener('open', rewatch);
+    return () => ws.removeEventListener('open', rewatch);
+  }, [ws]);
+
+  const sendMessage = useCallback((message: WebSocketMessage) => {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+      return true;
+    }
+    return false;
+  }, [ws]);
+
+  const stopWatching = useCallback(() => {
+    if (watchedGameIdRef.current) {
+      sendMessage({ type: 'unwatch', gameId: watchedGameIdRef.current });
+    }
+    watchedGameIdRef.current = null;
+    setWatchedGame(null);
+  }, [sendMessage]);
+
+  const watchGame = useCallback((gameId: string) => {
+    if (watchedGameIdRef.current === gameId) return;
+    stopWatching();
+    if (!sendMessage({ type: 'watch', gameId })) {
+      console.error('Cannot watch the game: WebSocket is not connected');
+      return;
+    }
+    watchedGameIdRef.current = gameId;
+  }, [sendMessage, stopWatching]);
+
+  /**
+   * Take over a spectator_state message from the server.
+   */
+  const applySpectatorState = useCallback((state: MultiplayerGameState) => {
+    if (state.gameId !== watchedGameIdRef.current) return;
+    setWatchedGame(state);
+    syncClock(state.timeControl, state.clock);
+  }, [syncClock]);
+
+  return {
+    liveGames,                            // The running multiplayer games with their watcher counts
+    watchedGame,                          // The state of the watched game, or null
+    spectatorClock: clock,                // Remaining milliseconds per side in the watched game, or null if untimed
+    spectatorRunningClock: runningClock,  // The side whose clock is running in the watched game
+    watchGame,                            // Function to start watching a game
+    stopWatching,                         // Function to stop watching
+    applyLiveGames: setLiveGames,         // Function to apply a live_games message
+    applySpectatorState                   // Function to apply a spectator_state message
+  };
+}
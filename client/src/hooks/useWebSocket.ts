@@ -1,5 +1,17 @@
 import { useState, useEffect, useMemo } from 'react';
-import { OnlineUser, User } from '../../../shared/types';
+import { OnlineUser, User, WebSocketMessage } from '../../../shared/types';
+import { onAccessTokenRefreshed, refreshAccessToken } from '../services/api';
+import config from '../config';
+
+// Reconnection attempts wait twice as long each time, up to the maximum
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// Close code the server uses for a missing, invalid or expired access token
+const WS_CLOSE_UNAUTHORIZED = 4001;
+
+// The access token is refreshed this long before the server would close the connection
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
 
 /**
  * Custom React hook for managing WebSocket connections and online users.
@@ -8,60 +20,144 @@ import { OnlineUser, User } from '../../../shared/types';
  * - Establishing and managing a WebSocket connection
  * - Handling WebSocket events (open, message, error, close)
  * - Maintaining a list of online users
+ * - Reconnecting with backoff when the connection drops
+ * 
+ * Connections are only opened for a logged-in user and log in with the
+ * stored access token. Every new connection logs in again, which makes the
+ * server send the state of a multiplayer game that is still running. The
+ * access token is refreshed before the server's deadline for it, and the
+ * connection logs in again with each new token, so it is never dropped for
+ * an expired token while the refresh token is valid.
  * 
  * @param user - The current authenticated user, or null if not authenticated
- * @returns An object containing the WebSocket instance and a list of online users
+ * @returns An object containing the WebSocket instance, whether it is connected and a list of online users
  */
 export function useWebSocket(user: User | null) {
   // The WebSocket instance
   const [ws, setWs] = useState<WebSocket | null>(null);
+
+  // Whether the WebSocket is open; false while reconnecting
+  const [connected, setConnected] = useState(false);
   
   // The list of currently online users
   const [onlineUsers, setOnlineUsers] = useState<OnlineUser[]>([]);
 
+  // Reconnect only when a different user logs in, not when their data is refreshed
+  const username = user ? user.username : null;
+
   /**
    * Effect hook to establish and manage the WebSocket connection.
    * 
-   * This effect runs whenever the user state changes. It:
+   * This effect runs whenever the logged-in username changes. It:
    * - Creates a new WebSocket connection
    * - Sets up event listeners for the WebSocket
-   * - Sends a login message when the connection is established (if a user is authenticated)
+   * - Sends a login message with the access token when the connection is established
+   * - Opens a new connection after a delay when the connection drops
    * - Cleans up the connection when the component unmounts or the user changes
    */
   useEffect(() => {
-    console.log('Initializing WebSocket connection');
-    const socket = new WebSocket('ws://localhost:3001');
-    setWs(socket);
-
-    socket.onopen = () => {
-      console.log('WebSocket connection established');
-      if (user) {
-        socket.send(JSON.stringify({ type: 'login', username: user.username }));
-      }
-    };
+    if (!username) {
+      setWs(null);
+      return;
+    }
 
-    socket.onmessage = (event) => {
-      console.log(`Received WebSocket message: ${event.data}`);
-      const data = JSON.parse(event.data);
-      if (data.type === 'onlineUsers') {
-        console.log('Received online users:', data.users);
-        setOnlineUsers(data.users);
-      }
-    };
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempts = 0;
+    // Set on cleanup, when the connection is closed on purpose
+    let stopped = false;
+
+    const connect = () => {
+      console.log('Initializing WebSocket connection');
+      const current = new WebSocket(config.wsUrl);
+      let opened = false;
+      socket = current;
+      setWs(current);
+
+      current.onopen = () => {
+        console.log('WebSocket connection established');
+        opened = true;
+        setConnected(true);
+        // Read on every connection, as the token may have been refreshed in the meantime
+        const token = localStorage.getItem('accessToken') || '';
+        current.send(JSON.stringify({ type: 'login', token }));
+      };
+
+      // A listener rather than onmessage, which the App sets for the other messages
+      current.addEventListener('message', (event) => {
+        const data: WebSocketMessage = JSON.parse(event.data);
+        if (data.type === 'login_accepted') {
+          // The connection works, so the next drop backs off from the start again
+          attempts = 0;
+          scheduleRefresh(data.expiresInMs);
+        }
+        if (data.type === 'onlineUsers') {
+          console.log('Received online users:', data.users);
+          setOnlineUsers(data.users);
+        }
+      });
 
-    socket.onerror = (error) => {
-      console.error('WebSocket error:', error);
+      current.onerror = (error) => {
+        console.error('WebSocket error:', error);
+      };
+
+      current.onclose = async (event) => {
+        console.log(`WebSocket connection closed (${event.code} ${event.reason})`);
+        setConnected(false);
+        if (refreshTimer) clearTimeout(refreshTimer);
+        if (stopped) return;
+        // Back off from the start after a working connection dropped, but not while the token is rejected
+        if (opened && event.code !== WS_CLOSE_UNAUTHORIZED) {
+          attempts = 0;
+        }
+        if (event.code === WS_CLOSE_UNAUTHORIZED) {
+          // The access token was rejected; get a new one before the next attempt
+          try {
+            await refreshAccessToken();
+          } catch (error) {
+            console.error('Error refreshing access token:', error);
+          }
+          if (stopped) return;
+        }
+        const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempts, RECONNECT_MAX_DELAY_MS);
+        attempts++;
+        console.log(`Reconnecting in ${delay}ms`);
+        reconnectTimer = setTimeout(connect, delay);
+      };
     };
 
-    socket.onclose = () => {
-      console.log('WebSocket connection closed');
+    /**
+     * Refresh the access token shortly before the server closes the connection
+     * for it. The refresh listener below then logs in with the new token.
+     */
+    const scheduleRefresh = (expiresInMs: number) => {
+      if (refreshTimer) clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => {
+        refreshAccessToken().catch((error) => {
+          console.error('Error refreshing access token:', error);
+        });
+      }, Math.max(expiresInMs - TOKEN_REFRESH_MARGIN_MS, 0));
     };
 
+    connect();
+
+    // Log in again with a refreshed token, which moves the server's expiry of the connection
+    const removeRefreshListener = onAccessTokenRefreshed((token) => {
+      if (socket && socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'login', token }));
+      }
+    });
+
     return () => {
       console.log('Closing WebSocket connection');
-      socket.close();
+      stopped = true;
+      removeRefreshListener();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (refreshTimer) clearTimeout(refreshTimer);
+      if (socket) socket.close();
     };
-  }, [user]);
+  }, [username]);
 
   /**
    * Memoized list of online users, excluding the current user.
@@ -84,6 +180,7 @@ export function useWebSocket(user: User | null) {
 
   return {
     ws,                    // The WebSocket instance
+    connected,             // Whether the WebSocket is open
     onlineUsers: memoizedOnlineUsers  // The filtered and deduplicated list of online users
   };
 }
@@ -1,18 +1,13 @@
-import axios from 'axios';
-import { GetMoveRequest, GetMoveResponse } from '../../shared/types';
-
-
-// Set: REACT_APP_CODESPACES=true in the ~ /client/.env file
-const codeSpaceUrl = 'redesigned-carnival-q7vjv65vcx9gv-3001.app.github.dev';
-const codespace = process.env.REACT_APP_CODESPACES 
-if (codespace === undefined) {
-  console.error('REACT_APP_CODESPACES environment variable is not set');
-  alert('REACT_APP_CODESPACES environment variable is not set; the application cannot proceed. Set it in the .env file');
-  // Optionally, you can redirect to an error page or stop further execution
-  throw new Error('REACT_APP_CODESPACES environment variable is not set');
-}
-const isCodespace = codespace === 'true';
-const API_URL = isCodespace ? `https://${codeSpaceUrl}/api` : 'http://localhost:3001/api';
+import axios, { InternalAxiosRequestConfig } from 'axios';
+import clientConfig from '../config';
+import { GetMoveRequest, GetMoveResponse, GameRecord, GameSummary, RatingHistoryEntry, OpponentInfo } from '../../../shared/types';
+import { AnalyzeRequest, AnalyzeResponse, AnalysisProgress } from '../../../shared/types';
+import { EngineLinesRequest, EngineLinesResponse, EngineLinesProgress } from '../../../shared/types';
+import { StartMatchRequest, StartMatchResponse, MatchProgress } from '../../../shared/types';
+import { NextPuzzleResponse, PuzzleMoveResponse } from '../../../shared/types';
+import { LiveGameSummary } from '../../../shared/types';
+import { MoveRequest, MoveResponse, NewGameRequest, NewGameResponse, GameStateResponse, UndoRequest, UndoResponse, TimeoutRequest } from '../../../shared/types';
+import { EngineStrength, Evaluation, InvalidTokenResponse } from '../../../shared/types';
 
 /**
  * Create an axios instance with predefined configuration.
@@ -22,7 +17,7 @@ const API_URL = isCodespace ? `https://${codeSpaceUrl}/api` : 'http://localhost:
  * with this instance. This saves us from repeating these settings for each request.
  */
 const api = axios.create({
-  baseURL: API_URL,
+  baseURL: clientConfig.apiUrl,
   headers: {
     'Content-Type': 'application/json',
   },
@@ -45,6 +40,104 @@ api.interceptors.request.use((config) => {
   return Promise.reject(error);
 });
 
+// Requests that are never retried with a refreshed access token
+const NO_REFRESH_URLS = ['/login', '/register', '/token'];
+
+// The refresh in progress, shared by every request that fails while it runs
+let refreshPromise: Promise<string> | null = null;
+
+// Called with the new access token after every refresh
+const refreshListeners: Array<(accessToken: string) => void> = [];
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * 
+ * The server replaces the refresh token as well, and a refresh token can only
+ * be used once, so concurrent callers all wait for the same refresh. If the
+ * server rejects the refresh token, both tokens are removed and the user has
+ * to log in again.
+ * 
+ * @returns {Promise<string>} The new access token
+ * @throws {Error} If there is no refresh token or the refresh fails
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = requestNewTokens().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+const requestNewTokens = async (): Promise<string> => {
+  const refreshToken = localStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new Error('No refresh token');
+  }
+  try {
+    // Sent past the api instance, so that a failed refresh does not trigger another one
+    const response = await axios.post(`${clientConfig.apiUrl}/token`, { refreshToken });
+    localStorage.setItem('accessToken', response.data.accessToken);
+    localStorage.setItem('refreshToken', response.data.refreshToken);
+    refreshListeners.forEach(listener => listener(response.data.accessToken));
+    return response.data.accessToken;
+  } catch (error) {
+    if (error.response && (error.response.status === 401 || error.response.status === 403)) {
+      localStorage.removeItem('accessToken');
+      localStorage.removeItem('refreshToken');
+    }
+    throw error;
+  }
+};
+
+/**
+ * Register a function to be called with the new access token after every refresh,
+ * e.g. to log in the WebSocket connection again.
+ * 
+ * @param {Function} listener - Called with the new access token
+ * @returns {Function} A function that removes the listener again
+ */
+export const onAccessTokenRefreshed = (listener: (accessToken: string) => void) => {
+  refreshListeners.push(listener);
+  return () => {
+    const index = refreshListeners.indexOf(listener);
+    if (index !== -1) refreshListeners.splice(index, 1);
+  };
+};
+
+/**
+ * Intercept responses to refresh an expired access token.
+ * 
+ * Only a 401 with the invalid_token code means that the access token is
+ * invalid or has expired; other 401 and 403 answers are passed on, since a
+ * new token would not change them. The failed request is sent once more
+ * with a new token; requests failing while a refresh is running wait for it
+ * instead of starting their own. If the refresh fails, the original error
+ * is passed on to the caller.
+ */
+api.interceptors.response.use((response) => response, async (error) => {
+  const config: InternalAxiosRequestConfig & { retried?: boolean } | undefined = error.config;
+  const data: Partial<InvalidTokenResponse> | undefined = error.response && error.response.data;
+  const invalidToken = error.response && error.response.status === 401 && data && data.code === 'invalid_token';
+  if (!invalidToken || !config || config.retried || NO_REFRESH_URLS.includes(config.url || '')) {
+    return Promise.reject(error);
+  }
+  config.retried = true;
+
+  try {
+    // Another request may have refreshed the token since this one was sent
+    const token = localStorage.getItem('accessToken');
+    if (!token || config.headers['Authorization'] === `Bearer ${token}`) {
+      await refreshAccessToken();
+    }
+  } catch (refreshError) {
+    console.error('Error refreshing access token:', refreshError);
+    return Promise.reject(error);
+  }
+  // The request interceptor sets the new token
+  return api(config);
+});
+
 /**
  * Attempt to log in a user.
  * 
@@ -59,7 +152,6 @@ api.interceptors.request.use((config) => {
 export const login = async (username: string, password: string) => {
   try {
     const response = await api.post('/login', { username, password });
-    console.log('CODESPACES environment variable:', process.env.CODESPACES);
     if (response.data.accessToken) {
       localStorage.setItem('accessToken', response.data.accessToken);
       localStorage.setItem('refreshToken', response.data.refreshToken);
@@ -106,7 +198,7 @@ export const register = async (username: string, password: string) => {
  * Log out the current user.
  * 
  * This function does three things:
- * 1. Sends a POST request to the server to invalidate the session.
+ * 1. Sends a POST request to the server to invalidate the session and its refresh token.
  * 2. Sends a WebSocket message to notify about the logout.
  * 3. Removes the stored tokens from local storage.
  * 
@@ -115,16 +207,8 @@ export const register = async (username: string, password: string) => {
 export const logout = async (ws: WebSocket | null) => {
   try {
     // Send logout request to the server
-    const response = await fetch('http://localhost:3001/api/logout', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${localStorage.getItem('accessToken')}`,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error('Logout failed');
-    }
+    // The refresh token is revoked on the server, so it cannot be used again
+    await api.post('/logout', { refreshToken: localStorage.getItem('refreshToken') });
 
     // If logout was successful, send WebSocket message
     if (ws && ws.readyState === WebSocket.OPEN) {
@@ -162,51 +246,342 @@ export const getUserData = async () => {
 };
 
 /**
- * Add a new game to the user's history.
+ * Fetch the logged-in user's finished games, newest first.
+ * 
+ * The server records games itself when they end, so there is nothing to post here.
+ * 
+ * @returns {Promise<GameSummary[]>} The user's games, without their move text
+ */
+export const getGames = async (): Promise<GameSummary[]> => {
+  const response = await api.get('/games');
+  return response.data.games;
+};
+
+/**
+ * Fetch a single finished game, including its PGN.
+ * 
+ * @param {number} gameId - The id of the game
+ * @returns {Promise<GameRecord>} The full game record
+ */
+export const getGame = async (gameId: number): Promise<GameRecord> => {
+  const response = await api.get(`/games/${gameId}`);
+  return response.data.game;
+};
+
+/**
+ * Fetch the engines that can be played against.
+ * 
+ * The list is configured on the server; opponents that are not running
+ * right now are included with available set to false.
+ * 
+ * @returns {Promise<OpponentInfo[]>} The opponents in the server's order
+ */
+export const getOpponents = async (): Promise<OpponentInfo[]> => {
+  const response = await api.get('/opponents');
+  return response.data.opponents;
+};
+
+/**
+ * Fetch the multiplayer games being played right now.
+ * 
+ * The list is kept up to date afterwards by live_games messages on the WebSocket.
+ * 
+ * @returns {Promise<LiveGameSummary[]>} The running games, oldest first, with their watcher counts
+ */
+export const getLiveGames = async (): Promise<LiveGameSummary[]> => {
+  const response = await api.get('/live-games');
+  return response.data;
+};
+
+/**
+ * Fetch the user's rating history, oldest first.
+ * 
+ * Ratings are only ever computed by the server after a rated game; each
+ * entry records the rating before and after one game.
+ * 
+ * @returns {Promise<RatingHistoryEntry[]>} The rating history entries
+ */
+export const getRatingHistory = async (): Promise<RatingHistoryEntry[]> => {
+  const response = await api.get('/rating-history');
+  return response.data.history;
+};
+
+/**
+ * Start a post-game analysis of the given moves.
+ * 
+ * The analysis runs in the background on the server; use getAnalysis to
+ * follow its progress.
+ * 
+ * @param {AnalyzeRequest} request - The moves of the game and the search depth
+ * @returns {Promise<AnalyzeResponse>} The id of the analysis, or an error
+ */
+export const startAnalysis = async (request: AnalyzeRequest): Promise<AnalyzeResponse> => {
+  try {
+    const response = await api.post('/analyze', request);
+    return response.data;
+  } catch (error) {
+    if (error.response && error.response.data && error.response.data.error) {
+      return error.response.data;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Fetch the progress of an analysis, including the report once it is done.
+ * 
+ * @param {string} analysisId - The id returned by startAnalysis
+ * @returns {Promise<AnalysisProgress>} The current state of the analysis
+ */
+export const getAnalysis = async (analysisId: string): Promise<AnalysisProgress> => {
+  const response = await api.get(`/analyze/${analysisId}`);
+  return response.data;
+};
+
+/**
+ * Start a MultiPV search of a position for the analysis panel.
+ * 
+ * @param {EngineLinesRequest} request - The position, number of lines and target depth
+ * @returns {Promise<EngineLinesResponse>} The id of the search, or an error
+ */
+export const startEngineLines = async (request: EngineLinesRequest): Promise<EngineLinesResponse> => {
+  try {
+    const response = await api.post('/lines', request);
+    return response.data;
+  } catch (error) {
+    if (error.response && error.response.data && error.response.data.error) {
+      return error.response.data;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Fetch the lines a search has found so far.
+ * 
+ * @param {string} searchId - The id returned by startEngineLines
+ * @returns {Promise<EngineLinesProgress>} The current lines, best first
+ */
+export const getEngineLines = async (searchId: string): Promise<EngineLinesProgress> => {
+  const response = await api.get(`/lines/${searchId}`);
+  return response.data;
+};
+
+/**
+ * Stop a search that is no longer needed, freeing its engine.
  * 
- * This function sends a POST request to record a completed game in the user's history.
+ * @param {string} searchId - The id returned by startEngineLines
+ */
+export const stopEngineLines = async (searchId: string): Promise<void> => {
+  await api.post(`/lines/${searchId}/stop`);
+};
+
+/**
+ * Start a match between two engines.
+ * 
+ * The games are played in the background on the server; watch the match over
+ * the WebSocket or use getMatch to follow it.
+ * 
+ * @param {StartMatchRequest} request - The engines, number of games and openings
+ * @returns {Promise<StartMatchResponse>} The id of the match, or an error
+ */
+export const startMatch = async (request: StartMatchRequest): Promise<StartMatchResponse> => {
+  try {
+    const response = await api.post('/matches', request);
+    return response.data;
+  } catch (error) {
+    if (error.response && error.response.data && error.response.data.error) {
+      return error.response.data;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Fetch the standing and current game of a match.
  * 
- * @param {number} opponentId - The ID of the opponent
- * @param {string} result - The result of the game
- * @returns {Promise<Object>} The response data
+ * @param {string} matchId - The id returned by startMatch
+ * @returns {Promise<MatchProgress>} The current state of the match
  */
-export const addGame = async (opponentId: number, result: string) => {
-  const response = await api.post('/game', { opponentId, result });
+export const getMatch = async (matchId: string): Promise<MatchProgress> => {
+  const response = await api.get(`/matches/${matchId}`);
   return response.data;
 };
 
 /**
- * Update the user's Elo rating.
+ * Stop a match; the games finished so far stay recorded.
  * 
- * This function sends a PUT request to update the user's Elo rating after a game.
+ * @param {string} matchId - The id returned by startMatch
+ */
+export const stopMatch = async (matchId: string): Promise<void> => {
+  await api.post(`/matches/${matchId}/stop`);
+};
+
+/**
+ * Fetch the next puzzle for the logged-in user, near their puzzle rating.
  * 
- * @param {number} newElo - The new Elo rating
- * @returns {Promise<Object>} The response data
+ * @returns {Promise<NextPuzzleResponse>} The puzzle, or none when all have been tried, and the user's puzzle rating
  */
-export const updateElo = async (newElo: number) => {
-  const response = await api.put('/elo', { newElo });
+export const getNextPuzzle = async (): Promise<NextPuzzleResponse> => {
+  const response = await api.get('/puzzles/next');
   return response.data;
 };
 
+/**
+ * Send the solver's latest move of a puzzle.
+ * 
+ * @param {number} puzzleId - The puzzle being solved
+ * @param {string[]} moves - Every move played from the puzzle position in UCI, the latest one last
+ * @returns {Promise<PuzzleMoveResponse>} Whether the move was right, with the reply or the refutation
+ */
+export const sendPuzzleMove = async (puzzleId: number, moves: string[]): Promise<PuzzleMoveResponse> => {
+  const response = await api.post(`/puzzles/${puzzleId}/move`, { moves });
+  return response.data;
+};
+
+/**
+ * Return the body of an error response, which carries the server's error
+ * message in the same shape as the endpoint's other responses.
+ * 
+ * @throws {Error} The original error if the server did not explain it
+ */
+const getErrorResponseData = (error: any) => {
+  if (error.response && error.response.data && error.response.data.error) {
+    return error.response.data;
+  }
+  throw error;
+};
+
+/**
+ * Start a game against an engine on the server.
+ * 
+ * The game is recorded under the user's account if they are logged in.
+ * 
+ * @param {NewGameRequest} request - The opponent, color, time control and an optional starting position
+ * @returns {Promise<NewGameResponse>} The id of the game and the user's color, or an error
+ */
+export const createGameSession = async (request: NewGameRequest): Promise<NewGameResponse> => {
+  try {
+    const response = await api.post('/new_game', request);
+    return response.data;
+  } catch (error) {
+    return getErrorResponseData(error);
+  }
+};
+
+/**
+ * End a game that is abandoned, e.g. when a new one is started.
+ * 
+ * @param {string} gameId - The id of the game
+ */
+export const endGameSession = async (gameId: string): Promise<void> => {
+  await api.post('/end_game', { gameId });
+};
+
+/**
+ * Get the state of a running game against an engine, e.g. after a reload.
+ * 
+ * @param {string} gameId - The id of the game
+ * @returns {Promise<GameStateResponse>} The position, moves and status of the game, or an error
+ */
+export const getGameState = async (gameId: string): Promise<GameStateResponse> => {
+  try {
+    const response = await api.get(`/game_state/${gameId}`);
+    return response.data;
+  } catch (error) {
+    return getErrorResponseData(error);
+  }
+};
+
+/**
+ * Send the user's move in a game against an engine.
+ * 
+ * @param {MoveRequest} request - The game and the move
+ * @returns {Promise<MoveResponse>} The opening after the move, or why it was rejected
+ */
+export const sendMoveToServer = async (request: MoveRequest): Promise<MoveResponse> => {
+  try {
+    const response = await api.post('/move', request);
+    return response.data;
+  } catch (error) {
+    return getErrorResponseData(error);
+  }
+};
+
 /**
  * Request a move from the server.
  * 
  * This function is used when playing against an AI opponent. It sends the current
  * board state to the server and receives the AI's move in response.
  * 
- * @param {GetMoveRequest} request - The request object containing the board state and opponent
- * @returns {Promise<GetMoveResponse>} The server's move response
- * @throws {Error} If getting the move fails
+ * @param {GetMoveRequest} request - The request object containing the game and the board state
+ * @returns {Promise<GetMoveResponse>} The server's move response, or an error
  */
 export const getMoveFromServer = async (request: GetMoveRequest): Promise<GetMoveResponse> => {
   try {
-    const response = await api.post('/api/get_move', request);
+    const response = await api.post('/get_move', request);
     return response.data;
   } catch (error) {
-    console.error('Error getting move from server:', error);
-    throw error;
+    return getErrorResponseData(error);
+  }
+};
+
+/**
+ * Take back moves of a game against an engine.
+ * 
+ * @param {UndoRequest} request - The game and the number of plies to take back
+ * @returns {Promise<UndoResponse>} The position afterwards, or why nothing was taken back
+ */
+export const undoOnServer = async (request: UndoRequest): Promise<UndoResponse> => {
+  try {
+    const response = await api.post('/undo', request);
+    return response.data;
+  } catch (error) {
+    return getErrorResponseData(error);
   }
 };
 
+/**
+ * Resign a game against an engine.
+ * 
+ * @param {string} gameId - The id of the game
+ */
+export const resignOnServer = async (gameId: string): Promise<void> => {
+  await api.post('/resign', { gameId });
+};
+
+/**
+ * Report that a side ran out of time in a game against an engine.
+ * 
+ * @param {TimeoutRequest} request - The game and the side whose flag fell
+ */
+export const reportTimeout = async (request: TimeoutRequest): Promise<void> => {
+  await api.post('/timeout', request);
+};
+
+/**
+ * Evaluate a position with the engine of a game, or the default one without a game.
+ * 
+ * @param {string} board - The position in FEN
+ * @param {string | null} gameId - The game the position is from, if any
+ * @returns {Promise<Evaluation>} The engine's evaluation of the position
+ * @throws {Error} If the position cannot be evaluated
+ */
+export const evaluatePosition = async (board: string, gameId: string | null): Promise<Evaluation> => {
+  const response = await api.post('/evaluate', { board, gameId });
+  return response.data.evaluation;
+};
+
+/**
+ * Change the strength of the engine in a running game.
+ * 
+ * @param {string} gameId - The id of the game
+ * @param {EngineStrength} strength - The new strength settings
+ * @throws {Error} If the game is unknown or the settings are invalid
+ */
+export const setStrengthOnServer = async (gameId: string, strength: EngineStrength): Promise<void> => {
+  await api.post('/set-strength', { gameId, strength });
+};
+
 // Export the api instance in case it's needed elsewhere in the application
 export default api;
@@ -0,0 +1,11 @@
+/**
+ * Unit tests of the server, which sit next to the modules they test.
+ * Test files are only transpiled; the server's types are checked by tsc.
+ */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/server/src'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { isolatedModules: true } }]
+  }
+};
@@ -0,0 +1,89 @@
+import { PositionEvaluation, classifyMove, createAnalysisJob, getAnalysisJob, getMoveAccuracy, runAnalysis } from './analysis';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/**
+ * An analyzer that answers with the given evaluations in order, one per position.
+ */
+function answerInOrder(evaluations: PositionEvaluation[]) {
+  const queue = [...evaluations];
+  return jest.fn(async () => queue.shift() as PositionEvaluation);
+}
+
+describe('classifyMove', () => {
+  test('classifies moves by their centipawn loss', () => {
+    expect(classifyMove(0)).toBe('best');
+    expect(classifyMove(10)).toBe('best');
+    expect(classifyMove(11)).toBe('good');
+    expect(classifyMove(80)).toBe('inaccuracy');
+    expect(classifyMove(300)).toBe('mistake');
+    expect(classifyMove(301)).toBe('blunder');
+  });
+});
+
+describe('getMoveAccuracy', () => {
+  test('is full for moves that keep the winning chances', () => {
+    expect(getMoveAccuracy(60, 60)).toBeCloseTo(100, 2);
+  });
+
+  test('falls as the winning chances drop', () => {
+    expect(getMoveAccuracy(60, 50)).toBeLessThan(getMoveAccuracy(60, 55));
+    expect(getMoveAccuracy(90, 5)).toBe(0);
+  });
+});
+
+describe('runAnalysis', () => {
+  test('rejects moves that are not a legal game', () => {
+    expect(createAnalysisJob(START_FEN, ['e4', 'e4'], 1)).toBeNull();
+  });
+
+  test('reports the best move and a blunder', async () => {
+    const job = createAnalysisJob(START_FEN, ['e4', 'f6'], 1)!;
+    const analyzer = answerInOrder([
+      { bestMove: 'e2e4', evaluation: { type: 'cp', value: 30, perspective: 'w' } },
+      { bestMove: 'e7e5', evaluation: { type: 'cp', value: 30, perspective: 'w' } },
+      { bestMove: 'd2d4', evaluation: { type: 'cp', value: 500, perspective: 'w' } }
+    ]);
+
+    await runAnalysis(job, analyzer);
+
+    expect(analyzer).toHaveBeenCalledTimes(3);
+    expect(job.status).toBe('done');
+    const [whiteMove, blackMove] = job.report!.moves;
+    expect(whiteMove).toMatchObject({ san: 'e4', bestMove: 'e4', centipawnLoss: 0, classification: 'best' });
+    expect(blackMove).toMatchObject({ san: 'f6', bestMove: 'e5', centipawnLoss: 470, classification: 'blunder' });
+    expect(job.report!.accuracy.white!).toBeGreaterThan(job.report!.accuracy.black!);
+  });
+
+  test('scores a mate from the rules without asking the engine', async () => {
+    const job = createAnalysisJob(START_FEN, ['f3', 'e5', 'g4', 'Qh4#'], 1)!;
+    const even = { bestMove: '', evaluation: { type: 'cp' as const, value: 0, perspective: 'w' as const } };
+    const analyzer = answerInOrder([even, even, even, even]);
+
+    await runAnalysis(job, analyzer);
+
+    expect(analyzer).toHaveBeenCalledTimes(4);
+    const mate = job.report!.moves[3];
+    expect(mate.evaluationAfter).toEqual({ type: 'mate', value: 0, perspective: 'w' });
+    expect(mate.centipawnLoss).toBe(0);
+  });
+
+  test('stores a failure on the job', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const job = createAnalysisJob(START_FEN, ['e4'], 1)!;
+
+    await runAnalysis(job, async () => { throw new Error('Engine crashed'); });
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('Failed to analyze the game');
+  });
+});
+
+describe('getAnalysisJob', () => {
+  test('only finds the analyses of their user', () => {
+    const job = createAnalysisJob(START_FEN, ['e4'], 1)!;
+
+    expect(getAnalysisJob(job.id, 1)).toBe(job);
+    expect(getAnalysisJob(job.id, 2)).toBeUndefined();
+  });
+});
@@ -0,0 +1,238 @@
+import { Chess } from 'chess.js';
+import { v4 as uuidv4 } from 'uuid';
+import { AnalysisProgress, AnalysisReport, AnalyzedMove, Evaluation, MoveClassification } from '../../shared/types';
+import { EVEN_EVALUATION, toCentipawns } from './evaluation';
+
+/**
+ * The engine's verdict on one position: its best move in UCI notation and
+ * the evaluation from White's point of view.
+ */
+export interface PositionEvaluation {
+  bestMove: string;
+  evaluation: Evaluation;
+}
+
+export type PositionAnalyzer = (fen: string) => Promise<PositionEvaluation>;
+
+/**
+ * A post-game analysis running in the background. Clients poll it through
+ * GET /api/analyze/:id until the report is done.
+ */
+export interface AnalysisJob {
+  id: string;
+  // The user who asked for the analysis; only they can follow it
+  userId: number;
+  // The positions before every move, plus the final one
+  positions: Chess[];
+  moves: string[]; // SAN
+  status: AnalysisProgress['status'];
+  analyzedPositions: number;
+  report: AnalysisReport | null;
+  error?: string;
+  createdAt: Date;
+}
+
+// Evaluations beyond this are all "winning", so they are capped before comparing moves
+const MAX_EVALUATION_CP = 1000;
+
+// Upper bounds of the centipawn loss for each classification, checked in order
+const CLASSIFICATION_THRESHOLDS: { classification: MoveClassification; maxLoss: number }[] = [
+  { classification: 'best', maxLoss: 10 },
+  { classification: 'good', maxLoss: 50 },
+  { classification: 'inaccuracy', maxLoss: 100 },
+  { classification: 'mistake', maxLoss: 300 }
+];
+
+// In-memory registry of analysis jobs, keyed by analysis id
+const analysisJobs: { [analysisId: string]: AnalysisJob } = {};
+
+/**
+ * Set up an analysis of a game without starting it.
+ *
+ * @returns The new job, or null if the moves are not a legal game from startFen
+ */
+export function createAnalysisJob(startFen: string, moves: string[], userId: number): AnalysisJob | null {
+  const positions: Chess[] = [];
+  const sanMoves: string[] = [];
+  try {
+    const chess = new Chess(startFen);
+    positions.push(new Chess(chess.fen()));
+    for (const move of moves) {
+      sanMoves.push(chess.move(move).san);
+      positions.push(new Chess(chess.fen()));
+    }
+  } catch {
+    return null;
+  }
+
+  const job: AnalysisJob = {
+    id: uuidv4(),
+    userId,
+    positions,
+    moves: sanMoves,
+    status: 'running',
+    analyzedPositions: 0,
+    report: null,
+    createdAt: new Date()
+  };
+  analysisJobs[job.id] = job;
+  return job;
+}
+
+/**
+ * Look up an analysis of the given user. Analyses of other users are not found.
+ */
+export function getAnalysisJob(analysisId: string, userId: number): AnalysisJob | undefined {
+  const job = analysisJobs[analysisId];
+  return job && job.userId === userId ? job : undefined;
+}
+
+/**
+ * Count the running analyses, of one user or of everybody.
+ */
+export function countRunningAnalyses(userId?: number): number {
+  return Object.values(analysisJobs)
+    .filter(job => job.status === 'running' && (userId === undefined || job.userId === userId))
+    .length;
+}
+
+export function getAnalysisProgress(job: AnalysisJob): AnalysisProgress {
+  return {
+    analysisId: job.id,
+    status: job.status,
+    analyzedPositions: job.analyzedPositions,
+    totalPositions: job.positions.length,
+    report: job.report,
+    ...(job.error && { error: job.error })
+  };
+}
+
+/**
+ * Evaluate every position of the game one after another and build the report.
+ * Failures are stored on the job rather than thrown.
+ */
+export async function runAnalysis(job: AnalysisJob, analyzePosition: PositionAnalyzer) {
+  try {
+    const evaluations: (PositionEvaluation | null)[] = [];
+    for (const position of job.positions) {
+      evaluations.push(position.isGameOver() ? null : await analyzePosition(position.fen()));
+      job.analyzedPositions++;
+    }
+    job.report = buildReport(job, evaluations);
+    job.status = 'done';
+    console.log(`Analysis ${job.id} finished (${job.moves.length} moves)`);
+  } catch (error) {
+    console.error(`Analysis ${job.id} failed:`, error);
+    job.status = 'failed';
+    job.error = 'Failed to analyze the game';
+  }
+}
+
+/**
+ * The evaluation of a position from White's point of view. Finished games
+ * are scored from the rules rather than by the engine.
+ */
+function getPositionEvaluation(position: Chess, evaluation: PositionEvaluation | null): Evaluation {
+  if (evaluation) {
+    return evaluation.evaluation;
+  }
+  return position.isCheckmate() ? { type: 'mate', value: 0, perspective: 'w' } : EVEN_EVALUATION;
+}
+
+/**
+ * The evaluation of a position in centipawns from the side to move, capped.
+ */
+function getSideToMoveCp(position: Chess, evaluation: Evaluation): number {
+  // A mated side to move has no sign on its mate score
+  const whiteCp = evaluation.type === 'mate' && evaluation.value === 0
+    ? (position.turn() === 'w' ? -MAX_EVALUATION_CP : MAX_EVALUATION_CP)
+    : toCentipawns(evaluation);
+  const cp = position.turn() === 'w' ? whiteCp : -whiteCp;
+  return Math.max(-MAX_EVALUATION_CP, Math.min(MAX_EVALUATION_CP, cp));
+}
+
+export function classifyMove(centipawnLoss: number): MoveClassification {
+  const threshold = CLASSIFICATION_THRESHOLDS.find(t => centipawnLoss <= t.maxLoss);
+  return threshold ? threshold.classification : 'blunder';
+}
+
+/**
+ * Chance of winning in percent for a centipawn evaluation, as used by Lichess.
+ */
+function getWinPercent(cp: number): number {
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+}
+
+/**
+ * Accuracy of a single move from the drop in winning chances it caused.
+ */
+export function getMoveAccuracy(winPercentBefore: number, winPercentAfter: number): number {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * (winPercentBefore - winPercentAfter)) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length * 10) / 10;
+}
+
+function toSan(position: Chess, uciMove: string): string | null {
+  try {
+    const move = new Chess(position.fen()).move({
+      from: uciMove.slice(0, 2),
+      to: uciMove.slice(2, 4),
+      promotion: uciMove.length > 4 ? uciMove[4] : undefined
+    });
+    return move ? move.san : null;
+  } catch {
+    return null;
+  }
+}
+
+function buildReport(job: AnalysisJob, evaluations: (PositionEvaluation | null)[]): AnalysisReport {
+  const positionEvaluations = job.positions.map((position, i) => getPositionEvaluation(position, evaluations[i]));
+  const cps = job.positions.map((position, i) => getSideToMoveCp(position, positionEvaluations[i]));
+  const accuracies: { w: number[]; b: number[] } = { w: [], b: [] };
+
+  const moves: AnalyzedMove[] = job.moves.map((san, i) => {
+    const before = job.positions[i];
+    const color = before.turn();
+    const evaluation = evaluations[i];
+    const bestMove = evaluation ? toSan(before, evaluation.bestMove) : null;
+
+    // Both evaluations from the mover's point of view
+    const moverBefore = cps[i];
+    const moverAfter = -cps[i + 1];
+    const centipawnLoss = san === bestMove ? 0 : Math.max(0, moverBefore - moverAfter);
+
+    accuracies[color].push(getMoveAccuracy(getWinPercent(moverBefore), getWinPercent(moverAfter)));
+
+    return {
+      ply: i + 1,
+      color,
+      san,
+      bestMove,
+      evaluationBefore: positionEvaluations[i],
+      evaluationAfter: positionEvaluations[i + 1],
+      centipawnLoss,
+      classification: classifyMove(centipawnLoss)
+    };
+  });
+
+  return {
+    moves,
+    accuracy: { white: average(accuracies.w), black: average(accuracies.b) }
+  };
+}
+
+/**
+ * Drop analyses that were finished or abandoned a while ago.
+ */
+export function sweepAnalysisJobs(maxAgeMs: number) {
+  const cutoff = Date.now() - maxAgeMs;
+  Object.values(analysisJobs).forEach((job) => {
+    if (job.status !== 'running' && job.createdAt.getTime() < cutoff) {
+      delete analysisJobs[job.id];
+    }
+  });
+}
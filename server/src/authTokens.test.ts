@@ -0,0 +1,104 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { issueRefreshToken, loadTokenSecrets, revokeRefreshTokens, rotateRefreshToken } from './authTokens';
+
+// An in-memory refresh token table with the semantics of the SQL statements
+jest.mock('./database/models/RefreshToken', () => {
+  const records: any[] = [];
+  const now = () => new Date().toISOString();
+  return {
+    addRefreshToken: jest.fn(async (token: any) => {
+      records.push({ ...token, id: records.length + 1, used_at: null, revoked_at: null, created_at: now() });
+    }),
+    getRefreshToken: jest.fn(async (tokenHash: string) => records.find(record => record.token_hash === tokenHash)),
+    markRefreshTokenUsed: jest.fn(async (tokenId: number) => {
+      const record = records.find(r => r.id === tokenId && r.used_at === null);
+      if (record) record.used_at = now();
+      return record !== undefined;
+    }),
+    revokeRefreshTokenFamily: jest.fn(async (familyId: string) => {
+      records.filter(r => r.family_id === familyId && !r.revoked_at).forEach((r) => { r.revoked_at = now(); });
+    }),
+    revokeUserRefreshTokens: jest.fn(async (userId: number) => {
+      records.filter(r => r.user_id === userId && !r.revoked_at).forEach((r) => { r.revoked_at = now(); });
+    }),
+    deleteExpiredRefreshTokens: jest.fn(async () => 0)
+  };
+});
+
+const alice = { userId: 1, username: 'alice' };
+const bob = { userId: 2, username: 'bob' };
+
+beforeAll(() => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'stockmate-secrets-'));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  loadTokenSecrets(path.join(dir, 'token_secrets.json'));
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('loadTokenSecrets', () => {
+  test('keeps the secrets it generated across restarts', () => {
+    const filePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'stockmate-secrets-')), 'token_secrets.json');
+    const first = loadTokenSecrets(filePath);
+    const second = loadTokenSecrets(filePath);
+
+    expect(first.accessTokenSecret).toHaveLength(128);
+    expect(first.accessTokenSecret).not.toBe(first.refreshTokenSecret);
+    expect(second).toEqual(first);
+  });
+});
+
+describe('rotateRefreshToken', () => {
+  test('exchanges a token for a new one once', async () => {
+    const token = await issueRefreshToken(alice);
+    const rotated = await rotateRefreshToken(token);
+
+    expect(rotated).toEqual({ user: alice, refreshToken: expect.any(String) });
+    expect(rotated!.refreshToken).not.toBe(token);
+    expect(await rotateRefreshToken(rotated!.refreshToken)).not.toBeNull();
+  });
+
+  test('revokes the whole family when a used token comes back', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const stolen = await issueRefreshToken(alice);
+    const rotated = await rotateRefreshToken(stolen);
+
+    expect(await rotateRefreshToken(stolen)).toBeNull();
+    expect(await rotateRefreshToken(rotated!.refreshToken)).toBeNull();
+  });
+
+  test('rejects tokens that were not issued by the server', async () => {
+    expect(await rotateRefreshToken('not-a-token')).toBeNull();
+  });
+});
+
+describe('revokeRefreshTokens', () => {
+  test('revokes the family of a token of the user', async () => {
+    const token = await issueRefreshToken(alice);
+    const otherDevice = await issueRefreshToken(alice);
+    await revokeRefreshTokens(alice.userId, token);
+
+    expect(await rotateRefreshToken(token)).toBeNull();
+    expect(await rotateRefreshToken(otherDevice)).not.toBeNull();
+  });
+
+  test('leaves tokens of other users alone', async () => {
+    const token = await issueRefreshToken(bob);
+    await revokeRefreshTokens(alice.userId, token);
+
+    expect(await rotateRefreshToken(token)).not.toBeNull();
+  });
+
+  test('revokes every token of the user without a token', async () => {
+    const first = await issueRefreshToken(bob);
+    const second = await issueRefreshToken(bob);
+    await revokeRefreshTokens(bob.userId);
+
+    expect(await rotateRefreshToken(first)).toBeNull();
+    expect(await rotateRefreshToken(second)).toBeNull();
+  });
+});
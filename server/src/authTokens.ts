@@ -0,0 +1,148 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  addRefreshToken,
+  deleteExpiredRefreshTokens,
+  getRefreshToken,
+  markRefreshTokenUsed,
+  revokeRefreshTokenFamily,
+  revokeUserRefreshTokens
+} from './database/models/RefreshToken';
+
+export interface TokenSecrets {
+  accessTokenSecret: string;
+  refreshTokenSecret: string;
+}
+
+interface RefreshTokenPayload {
+  userId: number;
+  username: string;
+}
+
+export const REFRESH_TOKEN_LIFETIME_MS = 30 * 24 * 60 * 60 * 1000;
+
+let refreshTokenSecret: string | null = null;
+
+function generateSecret(): string {
+  return crypto.randomBytes(64).toString('hex');
+}
+
+/**
+ * Load the secrets tokens are signed with. ACCESS_TOKEN_SECRET and
+ * REFRESH_TOKEN_SECRET in the environment take precedence; otherwise they
+ * are read from a JSON file, which is created with new secrets on the first
+ * start. Either way they survive restarts, so users stay logged in.
+ */
+export function loadTokenSecrets(filePath: string): TokenSecrets {
+  const fromEnv = {
+    accessTokenSecret: process.env.ACCESS_TOKEN_SECRET,
+    refreshTokenSecret: process.env.REFRESH_TOKEN_SECRET
+  };
+  if (fromEnv.accessTokenSecret && fromEnv.refreshTokenSecret) {
+    return setSecrets({ accessTokenSecret: fromEnv.accessTokenSecret, refreshTokenSecret: fromEnv.refreshTokenSecret });
+  }
+
+  let stored: Partial<TokenSecrets> = {};
+  if (fs.existsSync(filePath)) {
+    stored = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+  const secrets: TokenSecrets = {
+    accessTokenSecret: fromEnv.accessTokenSecret || stored.accessTokenSecret || generateSecret(),
+    refreshTokenSecret: fromEnv.refreshTokenSecret || stored.refreshTokenSecret || generateSecret()
+  };
+  if (secrets.accessTokenSecret !== stored.accessTokenSecret || secrets.refreshTokenSecret !== stored.refreshTokenSecret) {
+    // Readable by the server's user only
+    fs.writeFileSync(filePath, JSON.stringify(secrets, null, 2), { mode: 0o600 });
+    console.log(`Stored token secrets in ${filePath}`);
+  }
+  return setSecrets(secrets);
+}
+
+function setSecrets(secrets: TokenSecrets): TokenSecrets {
+  refreshTokenSecret = secrets.refreshTokenSecret;
+  return secrets;
+}
+
+function getRefreshTokenSecret(): string {
+  if (!refreshTokenSecret) throw new Error('Token secrets have not been loaded');
+  return refreshTokenSecret;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Issue a refresh token and store its hash.
+ *
+ * @param familyId - The family of the token it replaces; a login starts a new family
+ */
+export async function issueRefreshToken(user: RefreshTokenPayload, familyId: string = uuidv4()): Promise<string> {
+  const token = jwt.sign(
+    { userId: user.userId, username: user.username },
+    getRefreshTokenSecret(),
+    { expiresIn: Math.floor(REFRESH_TOKEN_LIFETIME_MS / 1000), jwtid: uuidv4() }
+  );
+  await addRefreshToken({
+    user_id: user.userId,
+    token_hash: hashToken(token),
+    family_id: familyId,
+    expires_at: new Date(Date.now() + REFRESH_TOKEN_LIFETIME_MS).toISOString()
+  });
+  return token;
+}
+
+/**
+ * Exchange a refresh token for a new one. Every token can be used once; a
+ * token that is used again has been copied, so the whole family it belongs
+ * to is revoked and the user has to log in again.
+ *
+ * @returns The user and their new refresh token, or null if the token is not valid
+ */
+export async function rotateRefreshToken(token: string): Promise<{ user: RefreshTokenPayload; refreshToken: string } | null> {
+  let payload: RefreshTokenPayload;
+  try {
+    payload = jwt.verify(token, getRefreshTokenSecret()) as RefreshTokenPayload;
+  } catch (error) {
+    console.log('Refresh token verification failed:', (error as Error).message);
+    return null;
+  }
+
+  const record = await getRefreshToken(hashToken(token));
+  if (!record || record.revoked_at || new Date(record.expires_at).getTime() < Date.now()) {
+    return null;
+  }
+  // Checked and marked in one statement, so two requests with the same token cannot both succeed
+  if (record.used_at || !(await markRefreshTokenUsed(record.id))) {
+    console.warn(`Refresh token of ${payload.username} was reused, revoking its family ${record.family_id}`);
+    await revokeRefreshTokenFamily(record.family_id);
+    return null;
+  }
+
+  const user = { userId: record.user_id, username: payload.username };
+  return { user, refreshToken: await issueRefreshToken(user, record.family_id) };
+}
+
+/**
+ * Revoke the family of the given refresh token, or every refresh token of
+ * the user if none is given. Tokens of other users are left alone.
+ */
+export async function revokeRefreshTokens(userId: number, token?: string): Promise<void> {
+  if (!token) {
+    await revokeUserRefreshTokens(userId);
+    return;
+  }
+  const record = await getRefreshToken(hashToken(token));
+  if (record && record.user_id === userId) {
+    await revokeRefreshTokenFamily(record.family_id);
+  }
+}
+
+export async function sweepExpiredRefreshTokens(): Promise<void> {
+  const deleted = await deleteExpiredRefreshTokens(new Date().toISOString());
+  if (deleted > 0) {
+    console.log(`Deleted ${deleted} expired refresh tokens`);
+  }
+}
@@ -0,0 +1,46 @@
+import { MAX_CHAT_MESSAGE_LENGTH, maskProfanity, postChatMessage } from './chat';
+import { createMultiplayerGame } from './multiplayer';
+
+jest.mock('./database/models/Game', () => ({ addGame: jest.fn() }));
+
+describe('maskProfanity', () => {
+  test('masks profane words letter by letter', () => {
+    expect(maskProfanity('what the fuck')).toBe('what the ****');
+    expect(maskProfanity('Shitty move')).toBe('****** move');
+    expect(maskProfanity('you ass')).toBe('you ***');
+  });
+
+  test('leaves harmless words that contain profane ones', () => {
+    expect(maskProfanity('a classic passed pawn assault')).toBe('a classic passed pawn assault');
+    expect(maskProfanity('Scunthorpe and Dickens')).toBe('Scunthorpe and Dickens');
+  });
+});
+
+describe('postChatMessage', () => {
+  test('adds a trimmed and masked message of a player', () => {
+    const game = createMultiplayerGame('alice', 'bob');
+    const posted = postChatMessage(game, 'alice', '  good shit  ');
+
+    expect(posted).toEqual({ message: { sender: 'alice', text: 'good ****', sentAt: expect.any(String) } });
+    expect(game.chat).toHaveLength(1);
+  });
+
+  test('rejects spectators, empty and overlong messages', () => {
+    const game = createMultiplayerGame('carol', 'dave');
+
+    expect(postChatMessage(game, 'eve', 'hi')).toEqual({ error: 'You are not a player in this game' });
+    expect(postChatMessage(game, 'carol', '   ')).toEqual({ error: 'Empty message' });
+    expect(postChatMessage(game, 'carol', 42)).toEqual({ error: 'Empty message' });
+    expect(postChatMessage(game, 'carol', 'x'.repeat(MAX_CHAT_MESSAGE_LENGTH + 1))).toHaveProperty('error');
+    expect(game.chat).toHaveLength(0);
+  });
+
+  test('limits how fast a player can send', () => {
+    const game = createMultiplayerGame('frank', 'grace');
+    for (let i = 0; i < 5; i++) {
+      expect(postChatMessage(game, 'frank', `message ${i}`)).toHaveProperty('message');
+    }
+    expect(postChatMessage(game, 'frank', 'one more')).toEqual({ error: 'You are sending messages too quickly' });
+    expect(postChatMessage(game, 'grace', 'my turn')).toHaveProperty('message');
+  });
+});
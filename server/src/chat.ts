@@ -0,0 +1,76 @@
+import { ChatMessage } from '../../shared/types';
+import { MultiplayerGame, getPlayerColor } from './multiplayer';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+
+// A game keeps at most this many messages; later ones are rejected
+const MAX_CHAT_MESSAGES_PER_GAME = 500;
+
+// Each player may send this many messages within the window
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW_MS = 10 * 1000;
+
+// Matched at the start of words, so that e.g. "shitty" is masked too
+const PROFANE_STEMS = ['fuck', 'shit', 'cunt', 'bitch', 'wank', 'twat', 'bollock', 'asshole', 'motherfuck'];
+// Matched as whole words only; as stems they would mask harmless words
+const PROFANE_WORDS = ['ass', 'arse', 'dick', 'cock', 'piss', 'prick', 'bastard', 'slut', 'whore'];
+
+const profanityPattern = new RegExp(
+  `\\b(?:(?:${PROFANE_STEMS.join('|')})[a-z]*|(?:${PROFANE_WORDS.join('|')})(?:e?s)?\\b)`,
+  'gi'
+);
+
+// Send times of each player's recent messages, keyed by username
+const recentMessages: { [username: string]: number[] } = {};
+
+/**
+ * Replace every letter of profane words with an asterisk.
+ */
+export function maskProfanity(text: string): string {
+  return text.replace(profanityPattern, word => '*'.repeat(word.length));
+}
+
+/**
+ * Count a message against the player's rate limit.
+ *
+ * @returns Whether the player has already sent too many messages recently
+ */
+function isRateLimited(username: string, now: number): boolean {
+  const recent = (recentMessages[username] || []).filter(sentAt => now - sentAt < CHAT_RATE_WINDOW_MS);
+  if (recent.length >= CHAT_RATE_LIMIT) {
+    recentMessages[username] = recent;
+    return true;
+  }
+  recent.push(now);
+  recentMessages[username] = recent;
+  return false;
+}
+
+/**
+ * Validate a chat message sent by a player and add it to the game.
+ *
+ * @returns The message as it is shown to both players, or an error describing why it was rejected
+ */
+export function postChatMessage(game: MultiplayerGame, username: string, text: unknown): { message: ChatMessage } | { error: string } {
+  if (!getPlayerColor(game, username)) {
+    return { error: 'You are not a player in this game' };
+  }
+  if (typeof text !== 'string' || text.trim().length === 0) {
+    return { error: 'Empty message' };
+  }
+  const trimmed = text.trim();
+  if (trimmed.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return { error: `Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters long` };
+  }
+  if (game.chat.length >= MAX_CHAT_MESSAGES_PER_GAME) {
+    return { error: 'The chat of this game is full' };
+  }
+  const now = Date.now();
+  if (isRateLimited(username, now)) {
+    return { error: 'You are sending messages too quickly' };
+  }
+
+  const message: ChatMessage = { sender: username, text: maskProfanity(trimmed), sentAt: new Date(now).toISOString() };
+  game.chat.push(message);
+  return { message };
+}
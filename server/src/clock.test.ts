@@ -0,0 +1,63 @@
+import { createClock, formatPgnTimeControl, getClockSnapshot, getFlaggedColor, getRemainingMs, isValidTimeControl, pressClock, stopClock } from './clock';
+
+describe('isValidTimeControl', () => {
+  test('accepts clock and correspondence time controls', () => {
+    expect(isValidTimeControl({ type: 'clock', initialSeconds: 300, incrementSeconds: 3 })).toBe(true);
+    expect(isValidTimeControl({ type: 'correspondence', daysPerMove: 3 })).toBe(true);
+  });
+
+  test('rejects missing or excessive times', () => {
+    expect(isValidTimeControl(null)).toBe(false);
+    expect(isValidTimeControl({ type: 'clock', initialSeconds: 0, incrementSeconds: 0 })).toBe(false);
+    expect(isValidTimeControl({ type: 'clock', initialSeconds: 300, incrementSeconds: 61 })).toBe(false);
+    expect(isValidTimeControl({ type: 'clock', initialSeconds: 4 * 60 * 60, incrementSeconds: 0 })).toBe(false);
+    expect(isValidTimeControl({ type: 'correspondence', daysPerMove: 15 })).toBe(false);
+    expect(isValidTimeControl({ type: 'blitz' })).toBe(false);
+  });
+});
+
+describe('game clock', () => {
+  test('does not run before the first move', () => {
+    const clock = createClock({ type: 'clock', initialSeconds: 60, incrementSeconds: 0 });
+    expect(getRemainingMs(clock, 'w', 10000)).toBe(60000);
+    expect(getFlaggedColor(clock, 100000)).toBeNull();
+  });
+
+  test('charges the side to move and adds the increment', () => {
+    const clock = createClock({ type: 'clock', initialSeconds: 60, incrementSeconds: 2 });
+    pressClock(clock, 'w', 0);
+    expect(clock.running).toBe('b');
+    expect(getRemainingMs(clock, 'w', 0)).toBe(62000);
+    pressClock(clock, 'b', 5000);
+    expect(getClockSnapshot(clock, 5000)).toEqual({ white: 62000, black: 57000, running: 'w' });
+  });
+
+  test('flags the side to move once its time is up', () => {
+    const clock = createClock({ type: 'clock', initialSeconds: 10, incrementSeconds: 0 });
+    pressClock(clock, 'w', 0);
+    expect(getFlaggedColor(clock, 9999)).toBeNull();
+    expect(getFlaggedColor(clock, 10000)).toBe('b');
+    expect(getRemainingMs(clock, 'b', 20000)).toBe(0);
+  });
+
+  test('resets the time per move in correspondence games', () => {
+    const clock = createClock({ type: 'correspondence', daysPerMove: 1 });
+    pressClock(clock, 'w', 0);
+    pressClock(clock, 'b', 60 * 60 * 1000);
+    expect(getRemainingMs(clock, 'b', 60 * 60 * 1000)).toBe(24 * 60 * 60 * 1000);
+  });
+
+  test('keeps the remaining times when stopped', () => {
+    const clock = createClock({ type: 'clock', initialSeconds: 60, incrementSeconds: 0 });
+    pressClock(clock, 'w', 0);
+    stopClock(clock, 15000);
+    expect(getClockSnapshot(clock, 50000)).toEqual({ white: 60000, black: 45000, running: null });
+  });
+});
+
+describe('formatPgnTimeControl', () => {
+  test('writes the PGN TimeControl tag', () => {
+    expect(formatPgnTimeControl({ type: 'clock', initialSeconds: 300, incrementSeconds: 3 })).toBe('300+3');
+    expect(formatPgnTimeControl({ type: 'correspondence', daysPerMove: 1 })).toBe('1/86400');
+  });
+});
@@ -0,0 +1,109 @@
+import { ClockSnapshot, PlayerColor, TimeControl } from '../../shared/types';
+
+/**
+ * Remaining time of both sides in a timed game. Times are kept as of
+ * `turnStartedAt`; the side to move is charged for the time since then.
+ * The clock starts running with White's first move.
+ */
+export interface GameClock {
+  timeControl: TimeControl;
+  remainingMs: { w: number; b: number };
+  running: PlayerColor | null;
+  turnStartedAt: number | null;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Longest time control we accept, to keep clock values sane
+const MAX_CLOCK_SECONDS = 3 * 60 * 60;
+const MAX_CORRESPONDENCE_DAYS = 14;
+
+export function isValidTimeControl(timeControl: any): timeControl is TimeControl {
+  if (!timeControl || typeof timeControl !== 'object') return false;
+  if (timeControl.type === 'clock') {
+    return Number.isInteger(timeControl.initialSeconds) && timeControl.initialSeconds > 0
+      && timeControl.initialSeconds <= MAX_CLOCK_SECONDS
+      && Number.isInteger(timeControl.incrementSeconds) && timeControl.incrementSeconds >= 0
+      && timeControl.incrementSeconds <= 60;
+  }
+  if (timeControl.type === 'correspondence') {
+    return Number.isInteger(timeControl.daysPerMove) && timeControl.daysPerMove > 0
+      && timeControl.daysPerMove <= MAX_CORRESPONDENCE_DAYS;
+  }
+  return false;
+}
+
+/**
+ * The time each side has for its next move when the game starts.
+ */
+function getInitialMs(timeControl: TimeControl): number {
+  return timeControl.type === 'clock'
+    ? timeControl.initialSeconds * 1000
+    : timeControl.daysPerMove * MS_PER_DAY;
+}
+
+export function createClock(timeControl: TimeControl): GameClock {
+  const initialMs = getInitialMs(timeControl);
+  return {
+    timeControl,
+    remainingMs: { w: initialMs, b: initialMs },
+    running: null,
+    turnStartedAt: null
+  };
+}
+
+/**
+ * Time left for a side at the given moment.
+ */
+export function getRemainingMs(clock: GameClock, color: PlayerColor, now: number = Date.now()): number {
+  const elapsed = clock.running === color && clock.turnStartedAt !== null ? now - clock.turnStartedAt : 0;
+  return Math.max(clock.remainingMs[color] - elapsed, 0);
+}
+
+/**
+ * Return the side whose flag has fallen, if any.
+ */
+export function getFlaggedColor(clock: GameClock, now: number = Date.now()): PlayerColor | null {
+  if (clock.running && getRemainingMs(clock, clock.running, now) <= 0) {
+    return clock.running;
+  }
+  return null;
+}
+
+/**
+ * Stop the mover's clock after a move, add the increment (or reset the time
+ * for correspondence games) and start the opponent's clock.
+ */
+export function pressClock(clock: GameClock, mover: PlayerColor, now: number = Date.now()) {
+  const remaining = getRemainingMs(clock, mover, now);
+  clock.remainingMs[mover] = clock.timeControl.type === 'clock'
+    ? remaining + clock.timeControl.incrementSeconds * 1000
+    : getInitialMs(clock.timeControl);
+  clock.running = mover === 'w' ? 'b' : 'w';
+  clock.turnStartedAt = now;
+}
+
+export function stopClock(clock: GameClock, now: number = Date.now()) {
+  if (clock.running) {
+    clock.remainingMs[clock.running] = getRemainingMs(clock, clock.running, now);
+  }
+  clock.running = null;
+  clock.turnStartedAt = null;
+}
+
+export function getClockSnapshot(clock: GameClock, now: number = Date.now()): ClockSnapshot {
+  return {
+    white: getRemainingMs(clock, 'w', now),
+    black: getRemainingMs(clock, 'b', now),
+    running: clock.running
+  };
+}
+
+/**
+ * The PGN TimeControl tag for a time control, e.g. "300+3".
+ */
+export function formatPgnTimeControl(timeControl: TimeControl): string {
+  return timeControl.type === 'clock'
+    ? `${timeControl.initialSeconds}+${timeControl.incrementSeconds}`
+    : `1/${timeControl.daysPerMove * 24 * 60 * 60}`;
+}
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from './config';
+
+let dir: string;
+
+/**
+ * Write a config file into the test directory.
+ */
+function writeConfig(name: string, content: string): string {
+  const filePath = path.join(dir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+});
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true });
+});
+
+describe('loadConfig', () => {
+  test('uses the defaults without a file or environment', () => {
+    const config = loadConfig(path.join(dir, 'missing.json'), {});
+    expect(config.port).toBe(3001);
+    expect(config.corsOrigins).toEqual(['http://localhost:3000']);
+    expect(path.isAbsolute(config.databaseFile)).toBe(true);
+    expect(path.isAbsolute(config.tokenSecretsFile)).toBe(true);
+  });
+
+  test('lets the environment override the file', () => {
+    const filePath = writeConfig('override.json', JSON.stringify({ port: 8080, stockfishPoolSize: 4, corsOrigins: ['https://a.example'] }));
+    const config = loadConfig(filePath, { PORT: '9090', CORS_ORIGINS: 'https://b.example, https://c.example' });
+    expect(config.port).toBe(9090);
+    expect(config.stockfishPoolSize).toBe(4);
+    expect(config.corsOrigins).toEqual(['https://b.example', 'https://c.example']);
+  });
+
+  test('merges the opponent URLs of the file and the environment', () => {
+    const filePath = writeConfig('urls.json', JSON.stringify({ opponentUrls: { other: 'http://other:5000' } }));
+    const config = loadConfig(filePath, { CHESS_TUNE_URL: 'http://tune:5000' });
+    expect(config.opponentUrls).toEqual({ other: 'http://other:5000', chess_tune: 'http://tune:5000' });
+  });
+
+  test('rejects values of the wrong type', () => {
+    expect(() => loadConfig(writeConfig('port.json', '{ "port": "8080" }'), {})).toThrow('port in');
+    expect(() => loadConfig(writeConfig('origins.json', '{ "corsOrigins": "https://a.example" }'), {})).toThrow('corsOrigins');
+    expect(() => loadConfig(writeConfig('urls.json', '{ "opponentUrls": { "x": 1 } }'), {})).toThrow('opponentUrls');
+    expect(() => loadConfig(writeConfig('array.json', '[]'), {})).toThrow('must hold a JSON object');
+    expect(() => loadConfig(path.join(dir, 'missing.json'), { PORT: 'eighty' })).toThrow('PORT must be a number');
+  });
+
+  test('names the file that is not valid JSON', () => {
+    const filePath = writeConfig('broken.json', '{ "port": ');
+    expect(() => loadConfig(filePath, {})).toThrow(filePath);
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+
+export interface ServerConfig {
+  port: number;
+  // Origins of the pages allowed to call the API, e.g. the client behind a reverse proxy
+  corsOrigins: string[];
+  databaseFile: string;
+  tokenSecretsFile: string;
+  stockfishPoolSize: number;
+  opponentsConfig: string;
+  // Service URLs of HTTP opponents keyed by opponent id, taking precedence over the opponents config
+  opponentUrls: { [opponentId: string]: string };
+  ecoDatabase: string;
+  syzygyPath?: string;
+  fathomPath: string;
+}
+
+const DEFAULT_CONFIG: ServerConfig = {
+  port: 3001,
+  corsOrigins: ['http://localhost:3000'],
+  // Next to the server's sources, wherever the server is started from
+  databaseFile: path.join(__dirname, '..', 'chess_users.db'),
+  tokenSecretsFile: path.join(__dirname, '..', 'token_secrets.json'),
+  stockfishPoolSize: 2,
+  opponentsConfig: path.join(__dirname, '..', 'opponents.json'),
+  opponentUrls: {},
+  ecoDatabase: path.join(__dirname, '..', 'data', 'eco.tsv'),
+  fathomPath: 'fathom'
+};
+
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function parseInteger(name: string, value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Read the settings given in the environment. Variables that are not set
+ * are left out, so they do not override the config file.
+ */
+function readEnvironment(env: NodeJS.ProcessEnv): Partial<ServerConfig> {
+  const config: Partial<ServerConfig> = {};
+  if (env.PORT) config.port = parseInteger('PORT', env.PORT);
+  if (env.CORS_ORIGINS) config.corsOrigins = parseList(env.CORS_ORIGINS);
+  if (env.DATABASE_FILE) config.databaseFile = env.DATABASE_FILE;
+  if (env.TOKEN_SECRETS_FILE) config.tokenSecretsFile = env.TOKEN_SECRETS_FILE;
+  if (env.STOCKFISH_POOL_SIZE) config.stockfishPoolSize = parseInteger('STOCKFISH_POOL_SIZE', env.STOCKFISH_POOL_SIZE);
+  if (env.OPPONENTS_CONFIG) config.opponentsConfig = env.OPPONENTS_CONFIG;
+  if (env.CHESS_TUNE_URL) config.opponentUrls = { chess_tune: env.CHESS_TUNE_URL };
+  if (env.ECO_DATABASE) config.ecoDatabase = env.ECO_DATABASE;
+  if (env.SYZYGY_PATH) config.syzygyPath = env.SYZYGY_PATH;
+  if (env.FATHOM_PATH) config.fathomPath = env.FATHOM_PATH;
+  return config;
+}
+
+function isStringMap(value: unknown): value is { [key: string]: string } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && Object.values(value).every(item => typeof item === 'string');
+}
+
+/**
+ * Check the settings read from the config file, which may hold anything.
+ *
+ * @throws {Error} Naming the file and the first setting of the wrong type
+ */
+function readConfigFile(filePath: string, stored: unknown): Partial<ServerConfig> {
+  if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) {
+    throw new Error(`${filePath} must hold a JSON object`);
+  }
+  const values = stored as { [key: string]: unknown };
+  const invalid = (key: string, expected: string) => new Error(`${key} in ${filePath} must be ${expected}`);
+  for (const key of ['port', 'stockfishPoolSize']) {
+    if (key in values && !Number.isInteger(values[key])) throw invalid(key, 'an integer');
+  }
+  for (const key of ['databaseFile', 'tokenSecretsFile', 'opponentsConfig', 'ecoDatabase', 'syzygyPath', 'fathomPath']) {
+    if (key in values && typeof values[key] !== 'string') throw invalid(key, 'a string');
+  }
+  if ('corsOrigins' in values) {
+    const origins = values.corsOrigins;
+    if (!Array.isArray(origins) || !origins.every(origin => typeof origin === 'string')) {
+      throw invalid('corsOrigins', 'a list of strings');
+    }
+  }
+  if ('opponentUrls' in values && !isStringMap(values.opponentUrls)) {
+    throw invalid('opponentUrls', 'an object of URLs keyed by opponent id');
+  }
+  return values as Partial<ServerConfig>;
+}
+
+/**
+ * Load the server's settings. Each setting is taken from the environment,
+ * else from the JSON config file, else from the defaults, which suit
+ * running the server and the client's dev server on one machine.
+ *
+ * The file holds any of the ServerConfig keys, e.g.
+ * `{ "port": 8080, "corsOrigins": ["https://chess.example.com"] }`.
+ *
+ * @throws {Error} If the file is not valid JSON or a setting has the wrong type
+ */
+export function loadConfig(filePath: string, env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  let stored: Partial<ServerConfig> = {};
+  if (fs.existsSync(filePath)) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Could not read server config ${filePath}: ${(error as Error).message}`);
+    }
+    stored = readConfigFile(filePath, parsed);
+    console.log(`Read server config from ${filePath}`);
+  }
+  const fromEnv = readEnvironment(env);
+  return {
+    ...DEFAULT_CONFIG,
+    ...stored,
+    ...fromEnv,
+    opponentUrls: { ...DEFAULT_CONFIG.opponentUrls, ...stored.opponentUrls, ...fromEnv.opponentUrls }
+  };
+}
+
+export const config = loadConfig(process.env.SERVER_CONFIG || path.join(__dirname, '..', 'config.json'));
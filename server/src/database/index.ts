@@ -3,9 +3,9 @@ import { open } from 'sqlite';
 
 let db: any;
 
-async function initializeDatabase() {
+async function initializeDatabase(filename: string) {
   db = await open({
-    filename: './chess_users.db',
+    filename,
     driver: sqlite3.Database
   });
 
@@ -14,7 +14,8 @@ async function initializeDatabase() {
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       username TEXT UNIQUE,
       password TEXT,
-      elo_rating INTEGER DEFAULT 1500
+      elo_rating INTEGER DEFAULT 1500,
+      puzzle_rating INTEGER DEFAULT 1500
     );
 
     CREATE TABLE IF NOT EXISTS games (
@@ -23,12 +24,114 @@ async function initializeDatabase() {
       black_player_id INTEGER,
       result TEXT,
       date DATETIME DEFAULT CURRENT_TIMESTAMP,
+      white_name TEXT,
+      black_name TEXT,
+      opponent_type TEXT,
+      engine_depth INTEGER,
+      termination TEXT,
+      pgn TEXT,
+      start_fen TEXT,
+      end_fen TEXT,
+      started_at DATETIME,
+      ended_at DATETIME,
+      puzzles_scanned INTEGER DEFAULT 0,
       FOREIGN KEY (white_player_id) REFERENCES users(id),
       FOREIGN KEY (black_player_id) REFERENCES users(id)
     );
+
+    CREATE TABLE IF NOT EXISTS rating_history (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      game_id INTEGER,
+      opponent_name TEXT,
+      opponent_rating INTEGER,
+      old_rating INTEGER,
+      new_rating INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (game_id) REFERENCES games(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS puzzles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      game_id INTEGER,
+      ply INTEGER,
+      fen TEXT NOT NULL,
+      moves TEXT NOT NULL,
+      rating INTEGER DEFAULT 1500,
+      attempts INTEGER DEFAULT 0,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (game_id, ply),
+      FOREIGN KEY (game_id) REFERENCES games(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS puzzle_attempts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      puzzle_id INTEGER NOT NULL,
+      solved INTEGER,
+      old_rating INTEGER,
+      new_rating INTEGER,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE (user_id, puzzle_id),
+      FOREIGN KEY (user_id) REFERENCES users(id),
+      FOREIGN KEY (puzzle_id) REFERENCES puzzles(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS refresh_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      token_hash TEXT UNIQUE NOT NULL,
+      family_id TEXT NOT NULL,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME,
+      revoked_at DATETIME,
+      created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS chat_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      game_id INTEGER NOT NULL,
+      sender TEXT,
+      text TEXT,
+      sent_at DATETIME,
+      FOREIGN KEY (game_id) REFERENCES games(id)
+    );
   `);
 
+  // Databases created before games stored their moves, or before puzzles, lack these columns
+  await addMissingColumns('games', {
+    white_name: 'TEXT',
+    black_name: 'TEXT',
+    opponent_type: 'TEXT',
+    engine_depth: 'INTEGER',
+    termination: 'TEXT',
+    pgn: 'TEXT',
+    start_fen: 'TEXT',
+    end_fen: 'TEXT',
+    started_at: 'DATETIME',
+    ended_at: 'DATETIME',
+    puzzles_scanned: 'INTEGER DEFAULT 0'
+  });
+  await addMissingColumns('users', {
+    puzzle_rating: 'INTEGER DEFAULT 1500'
+  });
+
   return db;
 }
 
+/**
+ * Add any of the given columns that an existing table does not have yet.
+ */
+async function addMissingColumns(table: string, columns: { [name: string]: string }) {
+  const existing: { name: string }[] = await db.all(`PRAGMA table_info(${table})`);
+  const existingNames = new Set(existing.map(column => column.name));
+  for (const [name, type] of Object.entries(columns)) {
+    if (!existingNames.has(name)) {
+      await db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+    }
+  }
+}
+
 export { initializeDatabase, db };
@@ -0,0 +1,18 @@
+import { db } from '../index';
+import { ChatMessage } from '../../../../shared/types';
+
+/**
+ * Store the chat of a finished game, in the order it was sent.
+ */
+export async function addChatMessages(gameId: number, messages: ChatMessage[]): Promise<void> {
+  for (const message of messages) {
+    await db.run(
+      'INSERT INTO chat_messages (game_id, sender, text, sent_at) VALUES (?, ?, ?, ?)',
+      [gameId, message.sender, message.text, message.sentAt]
+    );
+  }
+}
+
+export async function getChatMessages(gameId: number): Promise<ChatMessage[]> {
+  return db.all('SELECT sender, text, sent_at AS sentAt FROM chat_messages WHERE game_id = ? ORDER BY id ASC', [gameId]);
+}
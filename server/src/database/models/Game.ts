@@ -1,16 +1,46 @@
 import { db } from '../index';
+import { GameRecord, GameSummary } from '../../../../shared/types';
 
-export async function addGame(whitePlayerId: number, blackPlayerId: number, result: string): Promise<number> {
+export type NewGameRecord = Omit<GameRecord, 'id'>;
+
+export async function addGame(game: NewGameRecord): Promise<number> {
   const result = await db.run(
-    'INSERT INTO games (white_player_id, black_player_id, result) VALUES (?, ?, ?)',
-    [whitePlayerId, blackPlayerId, result]
+    `INSERT INTO games (
+      white_player_id, black_player_id, white_name, black_name, opponent_type, engine_depth,
+      result, termination, pgn, start_fen, end_fen, started_at, ended_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      game.white_player_id, game.black_player_id, game.white_name, game.black_name,
+      game.opponent_type, game.engine_depth, game.result, game.termination, game.pgn,
+      game.start_fen, game.end_fen, game.started_at, game.ended_at
+    ]
   );
   return result.lastID;
 }
 
-export async function getGames(userId: number): Promise<any[]> {
+export async function getGames(userId: number): Promise<GameSummary[]> {
   return db.all(
-    'SELECT * FROM games WHERE white_player_id = ? OR black_player_id = ? ORDER BY date DESC',
+    `SELECT id, white_player_id, black_player_id, white_name, black_name, opponent_type, engine_depth,
+            result, termination, start_fen, end_fen, started_at, ended_at
+     FROM games WHERE white_player_id = ? OR black_player_id = ? ORDER BY date DESC`,
     [userId, userId]
   );
 }
+
+export async function getGame(gameId: number): Promise<GameRecord | undefined> {
+  return db.get('SELECT * FROM games WHERE id = ?', [gameId]);
+}
+
+/**
+ * Finished games whose positions have not been searched for puzzles yet, oldest first.
+ */
+export async function getGamesToScanForPuzzles(limit: number): Promise<GameRecord[]> {
+  return db.all(
+    'SELECT * FROM games WHERE puzzles_scanned = 0 AND pgn IS NOT NULL ORDER BY id ASC LIMIT ?',
+    [limit]
+  );
+}
+
+export async function markGameScannedForPuzzles(gameId: number): Promise<void> {
+  await db.run('UPDATE games SET puzzles_scanned = 1 WHERE id = ?', [gameId]);
+}
@@ -0,0 +1,84 @@
+import { db } from '../index';
+
+export interface PuzzleRecord {
+  id: number;
+  game_id: number | null;
+  ply: number; // Plies played in the game before the puzzle position
+  fen: string;
+  moves: string; // The solution in UCI, separated by spaces, starting with the solver's move
+  rating: number;
+  attempts: number;
+  created_at: string;
+}
+
+export type NewPuzzleRecord = Pick<PuzzleRecord, 'game_id' | 'ply' | 'fen' | 'moves'>;
+
+export interface PuzzleAttempt {
+  user_id: number;
+  puzzle_id: number;
+  solved: boolean;
+  old_rating: number;
+  new_rating: number;
+}
+
+/**
+ * Store a puzzle unless the same game position already has one.
+ */
+export async function addPuzzle(puzzle: NewPuzzleRecord): Promise<void> {
+  await db.run(
+    'INSERT OR IGNORE INTO puzzles (game_id, ply, fen, moves) VALUES (?, ?, ?, ?)',
+    [puzzle.game_id, puzzle.ply, puzzle.fen, puzzle.moves]
+  );
+}
+
+export async function getPuzzle(puzzleId: number): Promise<PuzzleRecord | undefined> {
+  return db.get('SELECT * FROM puzzles WHERE id = ?', [puzzleId]);
+}
+
+/**
+ * The puzzle closest to a rating that the user has not tried yet.
+ */
+export async function getNextPuzzle(userId: number, rating: number): Promise<PuzzleRecord | undefined> {
+  return db.get(
+    `SELECT * FROM puzzles
+     WHERE id NOT IN (SELECT puzzle_id FROM puzzle_attempts WHERE user_id = ?)
+     ORDER BY ABS(rating - ?) ASC, RANDOM() LIMIT 1`,
+    [userId, rating]
+  );
+}
+
+/**
+ * Count the user's rated attempts.
+ */
+export async function countPuzzleAttempts(userId: number): Promise<number> {
+  const row = await db.get('SELECT COUNT(*) AS count FROM puzzle_attempts WHERE user_id = ? AND solved IS NOT NULL', [userId]);
+  return row ? row.count : 0;
+}
+
+/**
+ * Record that a user started a puzzle. The result and ratings stay empty
+ * until finishPuzzleAttempt.
+ *
+ * @returns Whether it was recorded; false if the user already attempted the puzzle
+ */
+export async function addPuzzleAttempt(userId: number, puzzleId: number): Promise<boolean> {
+  const result = await db.run('INSERT OR IGNORE INTO puzzle_attempts (user_id, puzzle_id) VALUES (?, ?)', [userId, puzzleId]);
+  return result.changes > 0;
+}
+
+/**
+ * Store the result and ratings of a started attempt.
+ *
+ * @returns Whether this call finished it; false if it was not started or is already finished
+ */
+export async function finishPuzzleAttempt(attempt: PuzzleAttempt): Promise<boolean> {
+  const result = await db.run(
+    'UPDATE puzzle_attempts SET solved = ?, old_rating = ?, new_rating = ? WHERE user_id = ? AND puzzle_id = ? AND solved IS NULL',
+    [attempt.solved ? 1 : 0, attempt.old_rating, attempt.new_rating, attempt.user_id, attempt.puzzle_id]
+  );
+  return result.changes > 0;
+}
+
+export async function setPuzzleRating(puzzleId: number, newRating: number): Promise<void> {
+  await db.run('UPDATE puzzles SET rating = ?, attempts = attempts + 1 WHERE id = ?', [newRating, puzzleId]);
+}
@@ -0,0 +1,22 @@
+import { db } from '../index';
+import { RatingHistoryEntry } from '../../../../shared/types';
+
+export type NewRatingHistoryEntry = Omit<RatingHistoryEntry, 'id' | 'created_at'>;
+
+export async function addRatingHistory(entry: NewRatingHistoryEntry): Promise<number> {
+  const result = await db.run(
+    `INSERT INTO rating_history (user_id, game_id, opponent_name, opponent_rating, old_rating, new_rating)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [entry.user_id, entry.game_id, entry.opponent_name, entry.opponent_rating, entry.old_rating, entry.new_rating]
+  );
+  return result.lastID;
+}
+
+export async function getRatingHistory(userId: number): Promise<RatingHistoryEntry[]> {
+  return db.all('SELECT * FROM rating_history WHERE user_id = ? ORDER BY id ASC', [userId]);
+}
+
+export async function countRatedGames(userId: number): Promise<number> {
+  const row = await db.get('SELECT COUNT(*) AS count FROM rating_history WHERE user_id = ?', [userId]);
+  return row ? row.count : 0;
+}
@@ -0,0 +1,60 @@
+import { db } from '../index';
+
+export interface RefreshTokenRecord {
+  id: number;
+  user_id: number;
+  token_hash: string; // SHA-256 of the token; the token itself is never stored
+  family_id: string; // Shared by a token and all tokens it was rotated into
+  expires_at: string;
+  used_at: string | null; // Set once the token was exchanged for a new one
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type NewRefreshTokenRecord = Pick<RefreshTokenRecord, 'user_id' | 'token_hash' | 'family_id' | 'expires_at'>;
+
+export async function addRefreshToken(token: NewRefreshTokenRecord): Promise<void> {
+  await db.run(
+    'INSERT INTO refresh_tokens (user_id, token_hash, family_id, expires_at) VALUES (?, ?, ?, ?)',
+    [token.user_id, token.token_hash, token.family_id, token.expires_at]
+  );
+}
+
+export async function getRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+  return db.get('SELECT * FROM refresh_tokens WHERE token_hash = ?', [tokenHash]);
+}
+
+/**
+ * Mark a token as exchanged for a new one.
+ *
+ * @returns Whether this call marked it; false if it was already used
+ */
+export async function markRefreshTokenUsed(tokenId: number): Promise<boolean> {
+  const result = await db.run(
+    'UPDATE refresh_tokens SET used_at = CURRENT_TIMESTAMP WHERE id = ? AND used_at IS NULL',
+    [tokenId]
+  );
+  return result.changes > 0;
+}
+
+export async function revokeRefreshTokenFamily(familyId: string): Promise<void> {
+  await db.run(
+    'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE family_id = ? AND revoked_at IS NULL',
+    [familyId]
+  );
+}
+
+export async function revokeUserRefreshTokens(userId: number): Promise<void> {
+  await db.run(
+    'UPDATE refresh_tokens SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL',
+    [userId]
+  );
+}
+
+/**
+ * Drop tokens that have expired; they can no longer be used or reused.
+ */
+export async function deleteExpiredRefreshTokens(now: string): Promise<number> {
+  const result = await db.run('DELETE FROM refresh_tokens WHERE expires_at < ?', [now]);
+  return result.changes;
+}
@@ -17,3 +17,11 @@ export async function getUser(username: string): Promise<any> {
 export async function updateElo(userId: number, newElo: number): Promise<void> {
   await db.run('UPDATE users SET elo_rating = ? WHERE id = ?', [newElo, userId]);
 }
+
+export async function getUserById(userId: number): Promise<any> {
+  return db.get('SELECT * FROM users WHERE id = ?', [userId]);
+}
+
+export async function updatePuzzleRating(userId: number, newRating: number): Promise<void> {
+  await db.run('UPDATE users SET puzzle_rating = ? WHERE id = ?', [newRating, userId]);
+}
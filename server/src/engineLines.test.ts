@@ -0,0 +1,70 @@
+import { EventEmitter } from 'events';
+import { Engine } from 'node-uci';
+import { createLinesSearch, getLinesProgress, getLinesSearch, runLinesSearch, stopUserLinesSearches } from './engineLines';
+import { StockfishPool } from './stockfishPool';
+
+const START_FEN = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+
+/**
+ * An engine that reports the given infos once it is searching.
+ */
+function fakeEngine(infos: object[], failOnPosition = false) {
+  return {
+    setoption: jest.fn(async () => undefined),
+    position: jest.fn(async () => {
+      if (failOnPosition) throw new Error('engine crashed');
+    }),
+    goInfinite: jest.fn(() => {
+      const emitter = new EventEmitter();
+      setImmediate(() => infos.forEach(info => emitter.emit('data', info)));
+      return emitter;
+    }),
+    stop: jest.fn(async () => undefined)
+  };
+}
+
+function fakePool(engine: ReturnType<typeof fakeEngine>): StockfishPool {
+  return { run: (_key: string | null, task: (engine: Engine) => Promise<unknown>) => task(engine as unknown as Engine) } as unknown as StockfishPool;
+}
+
+describe('runLinesSearch', () => {
+  test('collects every line until the target depth is reached', async () => {
+    const engine = fakeEngine([
+      { depth: 4, multipv: 1, nodes: 1000, score: { unit: 'cp', value: 30 }, pv: 'e2e4 e7e5' },
+      { depth: 4, multipv: 2, nodes: 1000, score: { unit: 'cp', value: 20 }, pv: 'd2d4' }
+    ]);
+    const search = createLinesSearch(START_FEN, 2, 4, 1);
+    await runLinesSearch(search, fakePool(engine));
+
+    const progress = getLinesProgress(search);
+    expect(progress).toMatchObject({ status: 'done', depth: 4 });
+    expect(progress.lines.map(line => line.moves)).toEqual([['e4', 'e5'], ['d4']]);
+    expect(engine.setoption).toHaveBeenNthCalledWith(1, 'MultiPV', '2');
+    expect(engine.setoption).toHaveBeenLastCalledWith('MultiPV', '1');
+  });
+
+  test('leaves the engine in single-line mode after a failure', async () => {
+    const engine = fakeEngine([], true);
+    const search = createLinesSearch(START_FEN, 3, 10, 1);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await runLinesSearch(search, fakePool(engine));
+
+    expect(search.status).toBe('failed');
+    expect(engine.setoption).toHaveBeenLastCalledWith('MultiPV', '1');
+    jest.restoreAllMocks();
+  });
+});
+
+describe('line search registry', () => {
+  test('only finds and stops the searches of their user', () => {
+    const own = createLinesSearch(START_FEN, 1, 10, 1);
+    const other = createLinesSearch(START_FEN, 1, 10, 2);
+
+    expect(getLinesSearch(own.id, 1)).toBe(own);
+    expect(getLinesSearch(own.id, 2)).toBeUndefined();
+
+    stopUserLinesSearches(1);
+    expect(own.stopRequested).toBe(true);
+    expect(other.stopRequested).toBe(false);
+  });
+});
@@ -0,0 +1,198 @@
+import { Chess } from 'chess.js';
+import { v4 as uuidv4 } from 'uuid';
+import { Engine } from 'node-uci';
+import { EngineLine, EngineLinesProgress } from '../../shared/types';
+import { StockfishPool } from './stockfishPool';
+import { UciScore, getSideToMove, normalizeScore } from './evaluation';
+
+/**
+ * A MultiPV search of one position. The engine searches without a depth
+ * limit and reports every line as it deepens; clients poll the latest lines
+ * through GET /api/lines/:id while the search is running.
+ */
+export interface LinesSearch {
+  id: string;
+  // The user who started the search
+  userId: number;
+  fen: string;
+  multiPv: number;
+  targetDepth: number;
+  status: EngineLinesProgress['status'];
+  // Latest line per MultiPV rank, which may be from different depths
+  lines: EngineLine[];
+  stopRequested: boolean;
+  createdAt: Date;
+}
+
+interface PvInfo {
+  depth: number;
+  multipv?: number;
+  nodes?: number;
+  score?: UciScore;
+  pv?: string;
+}
+
+// Searches never hold a pooled engine longer than this
+const MAX_SEARCH_MS = 15 * 1000;
+const STOP_CHECK_INTERVAL_MS = 100;
+
+// In-memory registry of line searches, keyed by search id
+const linesSearches: { [searchId: string]: LinesSearch } = {};
+
+export function createLinesSearch(fen: string, multiPv: number, targetDepth: number, userId: number): LinesSearch {
+  const search: LinesSearch = {
+    id: uuidv4(),
+    userId,
+    fen,
+    multiPv,
+    targetDepth,
+    status: 'running',
+    lines: [],
+    stopRequested: false,
+    createdAt: new Date()
+  };
+  linesSearches[search.id] = search;
+  return search;
+}
+
+/**
+ * Look up a search of the given user. Searches of other users are not found.
+ */
+export function getLinesSearch(searchId: string, userId: number): LinesSearch | undefined {
+  const search = linesSearches[searchId];
+  return search && search.userId === userId ? search : undefined;
+}
+
+/**
+ * Ask a running search to stop; it ends at the next check.
+ */
+export function stopLinesSearch(search: LinesSearch) {
+  search.stopRequested = true;
+}
+
+/**
+ * Ask every running search of a user to stop, e.g. before the user starts
+ * a search of the next position.
+ */
+export function stopUserLinesSearches(userId: number) {
+  Object.values(linesSearches)
+    .filter(search => search.status === 'running' && search.userId === userId)
+    .forEach(stopLinesSearch);
+}
+
+/**
+ * The depth that every reported line has reached.
+ */
+function getCompletedDepth(search: LinesSearch): number {
+  return search.lines.length > 0 ? Math.min(...search.lines.map(line => line.depth)) : 0;
+}
+
+export function getLinesProgress(search: LinesSearch): EngineLinesProgress {
+  return {
+    searchId: search.id,
+    status: search.status,
+    depth: getCompletedDepth(search),
+    targetDepth: search.targetDepth,
+    lines: search.lines.filter(line => line !== undefined)
+  };
+}
+
+/**
+ * Convert a principal variation from UCI to SAN, up to the first move that
+ * does not apply.
+ */
+function pvToSan(fen: string, pv: string): { moves: string[]; firstMove: EngineLine['firstMove'] } | null {
+  const chess = new Chess(fen);
+  const moves: string[] = [];
+  let firstMove: EngineLine['firstMove'] | null = null;
+  for (const uciMove of pv.trim().split(/\s+/)) {
+    try {
+      const move = chess.move({
+        from: uciMove.slice(0, 2),
+        to: uciMove.slice(2, 4),
+        promotion: uciMove.length > 4 ? uciMove[4] : undefined
+      });
+      if (!move) break;
+      if (!firstMove) firstMove = { from: move.from, to: move.to, promotion: move.promotion };
+      moves.push(move.san);
+    } catch {
+      break;
+    }
+  }
+  return firstMove ? { moves, firstMove } : null;
+}
+
+function recordInfo(search: LinesSearch, info: PvInfo) {
+  if (!info.pv || !info.score || !info.depth) return;
+  const converted = pvToSan(search.fen, info.pv);
+  if (!converted) return;
+  const rank = info.multipv || 1;
+  search.lines[rank - 1] = {
+    rank,
+    depth: info.depth,
+    evaluation: normalizeScore(info.score, getSideToMove(search.fen)),
+    nodes: info.nodes || 0,
+    moves: converted.moves,
+    firstMove: converted.firstMove
+  };
+}
+
+/**
+ * Search until every line has reached the target depth, the client stops
+ * the search or the time limit is hit.
+ */
+async function searchLines(engine: Engine, search: LinesSearch, expectedLines: number) {
+  await engine.setoption('MultiPV', expectedLines.toString());
+  try {
+    await engine.position(search.fen);
+    const startedAt = Date.now();
+
+    await new Promise<void>((resolve) => {
+      const emitter = engine.goInfinite();
+      const timer = setInterval(() => {
+        const reachedDepth = search.lines.filter(line => line !== undefined).length >= expectedLines
+          && getCompletedDepth(search) >= search.targetDepth;
+        if (reachedDepth || search.stopRequested || Date.now() - startedAt > MAX_SEARCH_MS) {
+          clearInterval(timer);
+          emitter.removeAllListeners('data');
+          resolve();
+        }
+      }, STOP_CHECK_INTERVAL_MS);
+
+      emitter.on('data', (data: PvInfo | string) => {
+        if (typeof data === 'object') recordInfo(search, data);
+      });
+    });
+
+    await engine.stop();
+  } finally {
+    // The pool is shared, so leave the engine in single-line mode even after a failure
+    await engine.setoption('MultiPV', '1');
+  }
+}
+
+/**
+ * Run a search on a pooled engine. Failures are stored on the search rather than thrown.
+ */
+export async function runLinesSearch(search: LinesSearch, pool: StockfishPool) {
+  const expectedLines = Math.min(search.multiPv, new Chess(search.fen).moves().length);
+  try {
+    await pool.run(search.id, engine => searchLines(engine, search, expectedLines));
+    search.status = search.stopRequested ? 'stopped' : 'done';
+  } catch (error) {
+    console.error(`Line search ${search.id} failed:`, error);
+    search.status = 'failed';
+  }
+}
+
+/**
+ * Drop searches that finished a while ago.
+ */
+export function sweepLinesSearches(maxAgeMs: number) {
+  const cutoff = Date.now() - maxAgeMs;
+  Object.values(linesSearches).forEach((search) => {
+    if (search.status !== 'running' && search.createdAt.getTime() < cutoff) {
+      delete linesSearches[search.id];
+    }
+  });
+}
@@ -0,0 +1,58 @@
+import { getFullStrengthOptions, getGoOptions, getStrengthOptions, isSameStrength, isValidStrength, normalizeStrength } from './engineStrength';
+
+describe('isValidStrength', () => {
+  test('accepts a depth with optional limits', () => {
+    expect(isValidStrength({ depth: 10 })).toBe(true);
+    expect(isValidStrength({ depth: 8, skillLevel: 5, elo: 1500, movetimeMs: 500, nodes: 10000 })).toBe(true);
+  });
+
+  test('rejects missing or out-of-range depths', () => {
+    expect(isValidStrength(null)).toBe(false);
+    expect(isValidStrength({})).toBe(false);
+    expect(isValidStrength({ depth: 0 })).toBe(false);
+    expect(isValidStrength({ depth: 31 })).toBe(false);
+    expect(isValidStrength({ depth: 10.5 })).toBe(false);
+    expect(isValidStrength({ depth: '10' })).toBe(false);
+  });
+
+  test('rejects limits outside the engine ranges', () => {
+    expect(isValidStrength({ depth: 10, skillLevel: 21 })).toBe(false);
+    expect(isValidStrength({ depth: 10, elo: 1000 })).toBe(false);
+    expect(isValidStrength({ depth: 10, movetimeMs: 0 })).toBe(false);
+    expect(isValidStrength({ depth: 10, nodes: -1 })).toBe(false);
+  });
+});
+
+describe('normalizeStrength', () => {
+  test('drops unknown settings', () => {
+    expect(normalizeStrength({ depth: 5, extra: true } as any)).toEqual({ depth: 5 });
+  });
+
+  test('compares strengths regardless of key order', () => {
+    expect(isSameStrength({ depth: 5, elo: 1500, skillLevel: 3 }, { skillLevel: 3, depth: 5, elo: 1500 })).toBe(true);
+    expect(isSameStrength({ depth: 5 }, { depth: 6 })).toBe(false);
+  });
+});
+
+describe('engine options', () => {
+  test('limit the strength only when asked to', () => {
+    expect(getStrengthOptions({ depth: 10 })).toEqual({});
+    expect(getStrengthOptions({ depth: 10, skillLevel: 4, elo: 1600 })).toEqual({
+      'Skill Level': '4',
+      'UCI_LimitStrength': 'true',
+      'UCI_Elo': '1600'
+    });
+  });
+
+  test('are reset to full strength afterwards', () => {
+    expect(getFullStrengthOptions(getStrengthOptions({ depth: 10, skillLevel: 4, elo: 1600 }))).toEqual({
+      'Skill Level': '20',
+      'UCI_LimitStrength': 'false'
+    });
+  });
+
+  test('pass the search limits to go', () => {
+    expect(getGoOptions({ depth: 12 })).toEqual({ depth: 12 });
+    expect(getGoOptions({ depth: 12, movetimeMs: 300, nodes: 5000 })).toEqual({ depth: 12, movetime: 300, nodes: 5000 });
+  });
+});
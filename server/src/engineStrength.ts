@@ -0,0 +1,90 @@
+import { EngineStrength } from '../../shared/types';
+import { GoOptions } from 'node-uci';
+
+// Range of Stockfish's Skill Level option
+const MIN_SKILL_LEVEL = 0;
+const MAX_SKILL_LEVEL = 20;
+// Range of UCI_Elo in Stockfish 16; older versions clamp to their own range
+const MIN_ELO = 1320;
+const MAX_ELO = 3190;
+// Upper bounds that keep a single move from holding a pooled engine for long
+const MAX_DEPTH = 30;
+const MAX_MOVETIME_MS = 30 * 1000;
+const MAX_NODES = 100 * 1000 * 1000;
+
+// Options that restore full strength; the pool is shared, so every limited search ends with them
+const FULL_STRENGTH_OPTIONS: { [name: string]: string } = {
+  'Skill Level': String(MAX_SKILL_LEVEL),
+  'UCI_LimitStrength': 'false'
+};
+
+function isIntegerInRange(value: any, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+function isOptionalIntegerInRange(value: any, min: number, max: number): boolean {
+  return value === undefined || isIntegerInRange(value, min, max);
+}
+
+export function isValidStrength(strength: any): strength is EngineStrength {
+  if (!strength || typeof strength !== 'object') return false;
+  return isIntegerInRange(strength.depth, 1, MAX_DEPTH)
+    && isOptionalIntegerInRange(strength.skillLevel, MIN_SKILL_LEVEL, MAX_SKILL_LEVEL)
+    && isOptionalIntegerInRange(strength.elo, MIN_ELO, MAX_ELO)
+    && isOptionalIntegerInRange(strength.movetimeMs, 1, MAX_MOVETIME_MS)
+    && isOptionalIntegerInRange(strength.nodes, 1, MAX_NODES);
+}
+
+/**
+ * Keep only the known settings, so that stored strengths compare reliably.
+ */
+export function normalizeStrength(strength: EngineStrength): EngineStrength {
+  return {
+    depth: strength.depth,
+    ...(strength.skillLevel !== undefined && { skillLevel: strength.skillLevel }),
+    ...(strength.elo !== undefined && { elo: strength.elo }),
+    ...(strength.movetimeMs !== undefined && { movetimeMs: strength.movetimeMs }),
+    ...(strength.nodes !== undefined && { nodes: strength.nodes })
+  };
+}
+
+export function isSameStrength(a: EngineStrength, b: EngineStrength): boolean {
+  return JSON.stringify(normalizeStrength(a)) === JSON.stringify(normalizeStrength(b));
+}
+
+/**
+ * The UCI options that weaken the engine, empty at full strength.
+ */
+export function getStrengthOptions(strength: EngineStrength): { [name: string]: string } {
+  const options: { [name: string]: string } = {};
+  if (strength.skillLevel !== undefined) {
+    options['Skill Level'] = String(strength.skillLevel);
+  }
+  if (strength.elo !== undefined) {
+    options['UCI_LimitStrength'] = 'true';
+    options['UCI_Elo'] = String(strength.elo);
+  }
+  return options;
+}
+
+/**
+ * The options that undo getStrengthOptions.
+ */
+export function getFullStrengthOptions(options: { [name: string]: string }): { [name: string]: string } {
+  const reset: { [name: string]: string } = {};
+  Object.keys(options)
+    .filter(name => FULL_STRENGTH_OPTIONS[name] !== undefined)
+    .forEach((name) => { reset[name] = FULL_STRENGTH_OPTIONS[name]; });
+  return reset;
+}
+
+/**
+ * The limits of one search; the engine stops at whichever is reached first.
+ */
+export function getGoOptions(strength: EngineStrength): GoOptions {
+  return {
+    depth: strength.depth,
+    ...(strength.movetimeMs !== undefined && { movetime: strength.movetimeMs }),
+    ...(strength.nodes !== undefined && { nodes: strength.nodes })
+  };
+}
@@ -0,0 +1,32 @@
+import { MATE_SCORE_CP, getSideToMove, normalizeScore, toCentipawns } from './evaluation';
+
+describe('normalizeScore', () => {
+  test('keeps scores of White to move', () => {
+    expect(normalizeScore({ unit: 'cp', value: 35 }, 'w')).toEqual({ type: 'cp', value: 35, perspective: 'w' });
+  });
+
+  test('turns scores of Black to move around', () => {
+    expect(normalizeScore({ unit: 'cp', value: 35 }, 'b')).toEqual({ type: 'cp', value: -35, perspective: 'w' });
+    expect(normalizeScore({ unit: 'mate', value: 2 }, 'b')).toEqual({ type: 'mate', value: -2, perspective: 'w' });
+  });
+});
+
+describe('getSideToMove', () => {
+  test('reads the side to move from a FEN', () => {
+    expect(getSideToMove('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1')).toBe('b');
+    expect(getSideToMove('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toBe('w');
+  });
+});
+
+describe('toCentipawns', () => {
+  test('counts from White regardless of the perspective', () => {
+    expect(toCentipawns({ type: 'cp', value: 120, perspective: 'w' })).toBe(120);
+    expect(toCentipawns({ type: 'cp', value: 120, perspective: 'b' })).toBe(-120);
+  });
+
+  test('scores nearer mates higher', () => {
+    expect(toCentipawns({ type: 'mate', value: 1, perspective: 'w' })).toBe(MATE_SCORE_CP - 1);
+    expect(toCentipawns({ type: 'mate', value: -3, perspective: 'w' })).toBe(-(MATE_SCORE_CP - 3));
+    expect(toCentipawns({ type: 'mate', value: 1, perspective: 'w' })).toBeGreaterThan(toCentipawns({ type: 'mate', value: 5, perspective: 'w' }));
+  });
+});
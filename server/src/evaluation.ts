@@ -0,0 +1,48 @@
+import { Evaluation, PlayerColor } from '../../shared/types';
+
+/**
+ * A score as reported by a UCI engine, from the side to move.
+ */
+export interface UciScore {
+  unit: string; // 'cp' or 'mate'; bounds are reported as 'cp' by node-uci
+  value: number;
+}
+
+// Centipawn value given to a forced mate when scores have to be compared
+export const MATE_SCORE_CP = 10000;
+
+export const EVEN_EVALUATION: Evaluation = { type: 'cp', value: 0, perspective: 'w' };
+
+/**
+ * Turn an engine score into an evaluation from White's point of view.
+ *
+ * @param score - The score of the last search info line
+ * @param sideToMove - The side to move in the searched position
+ */
+export function normalizeScore(score: UciScore, sideToMove: PlayerColor): Evaluation {
+  const sign = sideToMove === 'w' ? 1 : -1;
+  return {
+    type: score.unit === 'mate' ? 'mate' : 'cp',
+    value: Number(score.value) * sign,
+    perspective: 'w'
+  };
+}
+
+/**
+ * The side to move of a position given as FEN.
+ */
+export function getSideToMove(fen: string): PlayerColor {
+  return fen.split(' ')[1] === 'b' ? 'b' : 'w';
+}
+
+/**
+ * Centipawns from White's point of view, with mates counted as a large
+ * score that shrinks the further away the mate is.
+ */
+export function toCentipawns(evaluation: Evaluation): number {
+  const value = evaluation.perspective === 'w' ? evaluation.value : -evaluation.value;
+  if (evaluation.type === 'cp') {
+    return value;
+  }
+  return Math.sign(value) * (MATE_SCORE_CP - Math.abs(value));
+}
@@ -0,0 +1,119 @@
+import { Chess } from 'chess.js';
+import { GameResult, GameTermination, PlayerColor, TimeControl } from '../../shared/types';
+import { addGame } from './database/models/Game';
+import { formatPgnTimeControl } from './clock';
+
+export interface GameOutcome {
+  result: GameResult;
+  termination: GameTermination;
+}
+
+interface RecordedPlayer {
+  id: number | null;
+  name: string;
+}
+
+/**
+ * Everything needed to store a finished game, whoever played it.
+ */
+export interface FinishedGame {
+  chess: Chess;
+  startFen: string;
+  white: RecordedPlayer;
+  black: RecordedPlayer;
+  opponentType: string;
+  engineDepth: number | null;
+  timeControl: TimeControl | null;
+  outcome: GameOutcome;
+  startedAt: Date;
+  // PGN Event and Round, for games that are part of a series such as an engine match
+  event?: string;
+  round?: number;
+}
+
+/**
+ * Work out how a game ended from its final position.
+ *
+ * @returns The outcome, or null if the game is still in progress
+ */
+export function getPositionOutcome(chess: Chess): GameOutcome | null {
+  if (chess.isCheckmate()) {
+    // The side to move has been mated
+    return { result: chess.turn() === 'w' ? '0-1' : '1-0', termination: 'checkmate' };
+  }
+  if (chess.isStalemate()) {
+    return { result: '1/2-1/2', termination: 'stalemate' };
+  }
+  if (chess.isInsufficientMaterial()) {
+    return { result: '1/2-1/2', termination: 'insufficient_material' };
+  }
+  if (chess.isThreefoldRepetition()) {
+    return { result: '1/2-1/2', termination: 'threefold_repetition' };
+  }
+  if (chess.isDraw()) {
+    return { result: '1/2-1/2', termination: 'fifty_move_rule' };
+  }
+  return null;
+}
+
+export function getResignationOutcome(resigningColor: PlayerColor): GameOutcome {
+  return { result: resigningColor === 'w' ? '0-1' : '1-0', termination: 'resignation' };
+}
+
+export function getAbandonmentOutcome(leavingColor: PlayerColor): GameOutcome {
+  return { result: leavingColor === 'w' ? '0-1' : '1-0', termination: 'abandonment' };
+}
+
+export function getTimeoutOutcome(flaggedColor: PlayerColor): GameOutcome {
+  return { result: flaggedColor === 'w' ? '0-1' : '1-0', termination: 'timeout' };
+}
+
+/**
+ * Build the PGN for a finished game, including the standard seven-tag roster.
+ */
+export function buildPgn(game: FinishedGame): string {
+  const pgnGame = new Chess(game.startFen);
+  game.chess.history().forEach(move => pgnGame.move(move));
+
+  const date = game.startedAt.toISOString().slice(0, 10).replace(/-/g, '.');
+  pgnGame.header(
+    'Event', game.event || (game.opponentType === 'human' ? 'StockMate Chess online game' : `StockMate Chess vs ${game.opponentType}`),
+    'Site', 'StockMate Chess',
+    'Date', date,
+    'Round', game.round !== undefined ? game.round.toString() : '-',
+    'White', game.white.name,
+    'Black', game.black.name,
+    'Result', game.outcome.result,
+    'Termination', game.outcome.termination
+  );
+  pgnGame.header('TimeControl', game.timeControl ? formatPgnTimeControl(game.timeControl) : '-');
+  if (game.engineDepth !== null) {
+    pgnGame.header('EngineDepth', game.engineDepth.toString());
+  }
+  return pgnGame.pgn();
+}
+
+/**
+ * Store a finished game in the games table.
+ *
+ * @returns The id of the stored game
+ */
+export async function recordFinishedGame(game: FinishedGame): Promise<number> {
+  const gameId = await addGame({
+    white_player_id: game.white.id,
+    black_player_id: game.black.id,
+    white_name: game.white.name,
+    black_name: game.black.name,
+    opponent_type: game.opponentType,
+    engine_depth: game.engineDepth,
+    result: game.outcome.result,
+    termination: game.outcome.termination,
+    pgn: buildPgn(game),
+    start_fen: game.startFen,
+    end_fen: game.chess.fen(),
+    started_at: game.startedAt.toISOString(),
+    ended_at: new Date().toISOString()
+  });
+  console.log(`Recorded game ${gameId}: ${game.white.name} vs ${game.black.name}, ${game.outcome.result} (${game.outcome.termination})`);
+  return gameId;
+}
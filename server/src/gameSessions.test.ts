@@ -0,0 +1,56 @@
+import { checkSessionOwner, createGameSession, endGameSession, getGameSession, sweepIdleSessions } from './gameSessions';
+
+describe('createGameSession', () => {
+  test('starts a rated game from the standard position', () => {
+    const session = createGameSession('stockfish', { userId: 1, username: 'alice', humanColor: 'b' });
+
+    expect(session).toMatchObject({ opponent: 'stockfish', userId: 1, humanColor: 'b', status: 'active', rated: true });
+    expect(getGameSession(session.id)).toBe(session);
+  });
+
+  test('leaves games continued from an imported position unrated', () => {
+    const fromMoves = createGameSession('stockfish', { moves: ['e4', 'e5'] });
+    const fromFen = createGameSession('stockfish', { startFen: '4k3/8/8/8/8/8/4P3/4K3 w - - 0 1' });
+
+    expect(fromMoves.chess.history()).toEqual(['e4', 'e5']);
+    expect(fromMoves.rated).toBe(false);
+    expect(fromFen.rated).toBe(false);
+  });
+});
+
+describe('checkSessionOwner', () => {
+  test('lets only the player who started the game act on it', () => {
+    const session = createGameSession('stockfish', { userId: 1, username: 'alice' });
+
+    expect(checkSessionOwner(session, { userId: 1 })).toBeNull();
+    expect(checkSessionOwner(session, { userId: 2 })).toEqual({ status: 403, error: 'This game belongs to another player' });
+    expect(checkSessionOwner(session, undefined)).toEqual({ status: 401, error: 'Log in to play this game' });
+  });
+
+  test('leaves anonymous games open', () => {
+    const session = createGameSession('stockfish');
+
+    expect(checkSessionOwner(session, undefined)).toBeNull();
+    expect(checkSessionOwner(session, { userId: 2 })).toBeNull();
+  });
+});
+
+describe('ending sessions', () => {
+  test('ends a session once', () => {
+    const session = createGameSession('random');
+
+    expect(endGameSession(session.id)).toBe(true);
+    expect(endGameSession(session.id)).toBe(false);
+    expect(getGameSession(session.id)).toBeUndefined();
+  });
+
+  test('drops sessions that have not been used for a while', () => {
+    const idle = createGameSession('random');
+    const busy = createGameSession('random');
+    idle.lastActivity = new Date(Date.now() - 60 * 60 * 1000);
+
+    expect(sweepIdleSessions(30 * 60 * 1000)).toEqual([idle]);
+    expect(getGameSession(idle.id)).toBeUndefined();
+    expect(getGameSession(busy.id)).toBe(busy);
+  });
+});
@@ -0,0 +1,124 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { v4 as uuidv4 } from 'uuid';
+import { EngineStrength, GameStatus, PlayerColor, TimeControl } from '../../shared/types';
+
+export const DEFAULT_SEARCH_DEPTH = 10;
+
+/**
+ * Server-side state of a game played against an engine opponent.
+ * Every engine-related request carries the id of its session so that
+ * concurrent players never see each other's settings. The session also
+ * holds the authoritative position, which is what gets recorded when
+ * the game finishes.
+ */
+export interface GameSession {
+  id: string;
+  opponent: string;
+  strength: EngineStrength;
+  // The logged-in player, if the game was started with an access token
+  userId: number | null;
+  username: string | null;
+  humanColor: PlayerColor;
+  startFen: string;
+  chess: Chess;
+  // The clock itself runs in the client for engine games
+  timeControl: TimeControl | null;
+  // The engine plays book moves while fewer plies than this have been played
+  bookPlies: number;
+  status: GameStatus;
+  // Cleared when the player takes back moves or changes the strength mid-game
+  rated: boolean;
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+export interface GameSessionOptions {
+  strength?: EngineStrength;
+  userId?: number | null;
+  username?: string | null;
+  timeControl?: TimeControl | null;
+  bookPlies?: number;
+  humanColor?: PlayerColor;
+  startFen?: string;
+  // Moves already played from startFen; assumed to be legal
+  moves?: string[];
+}
+
+// In-memory registry of engine game sessions, keyed by game id
+const gameSessions: { [gameId: string]: GameSession } = {};
+
+export function createGameSession(opponent: string, options: GameSessionOptions = {}): GameSession {
+  const now = new Date();
+  const chess = options.startFen ? new Chess(options.startFen) : new Chess();
+  const startFen = chess.fen();
+  (options.moves || []).forEach(move => chess.move(move));
+  const session: GameSession = {
+    id: uuidv4(),
+    opponent,
+    strength: options.strength ?? { depth: DEFAULT_SEARCH_DEPTH },
+    userId: options.userId ?? null,
+    username: options.username ?? null,
+    humanColor: options.humanColor ?? 'w',
+    startFen,
+    chess,
+    timeControl: options.timeControl ?? null,
+    bookPlies: options.bookPlies ?? 0,
+    status: 'active',
+    // Games continued from an imported position say nothing about the player's strength
+    rated: startFen === DEFAULT_POSITION && chess.history().length === 0,
+    createdAt: now,
+    lastActivity: now
+  };
+  gameSessions[session.id] = session;
+  return session;
+}
+
+/**
+ * Look up a session and mark it as recently used.
+ */
+export function getGameSession(gameId: string | undefined): GameSession | undefined {
+  const session = gameId ? gameSessions[gameId] : undefined;
+  if (session) {
+    session.lastActivity = new Date();
+  }
+  return session;
+}
+
+/**
+ * Check whether a user may act on a session. Sessions of logged-in players
+ * belong to them; anonymous sessions are unrated and open to whoever holds
+ * the game id.
+ *
+ * @param user - The requester, if they sent a valid access token
+ * @returns The status and error to answer with, or null if the request may go on
+ */
+export function checkSessionOwner(session: GameSession, user: { userId: number } | undefined): { status: number; error: string } | null {
+  if (session.userId === null) return null;
+  // Expired access tokens are rejected before this, so the player is not logged in at all
+  if (!user) return { status: 401, error: 'Log in to play this game' };
+  if (user.userId !== session.userId) return { status: 403, error: 'This game belongs to another player' };
+  return null;
+}
+
+export function endGameSession(gameId: string): boolean {
+  if (!gameSessions[gameId]) {
+    return false;
+  }
+  delete gameSessions[gameId];
+  return true;
+}
+
+/**
+ * Drop sessions whose players went away without calling /api/end_game.
+ *
+ * @returns The dropped sessions, so that games still in progress can be scored
+ */
+export function sweepIdleSessions(maxIdleMs: number): GameSession[] {
+  const cutoff = Date.now() - maxIdleMs;
+  const idle = Object.values(gameSessions).filter(session => session.lastActivity.getTime() < cutoff);
+  idle.forEach((session) => {
+    console.log(`Removing idle game session ${session.id}`);
+    delete gameSessions[session.id];
+  });
+  return idle;
+}
@@ -1,44 +1,78 @@
 import express from 'express';
 import cors from 'cors';
-import os from 'os';
-import { Engine } from 'node-uci';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { Chess } from 'chess.js';
-import axios from 'axios';
 import bcrypt from 'bcrypt';
-import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
-import { GetMoveRequest, GetMoveResponse, SuccessfulGetMoveResponse, ErrorResponse } from '../../shared/types';
-import { NewGameRequest, NewGameResponse } from '../../shared/types';
-import { MoveResponse, MoveRequest, WebSocketMessage } from '../../shared/types';
-import { User, UserLoginRequest, UserRegistrationRequest, AuthResponse, RefreshTokenRequest } from '../../shared/types';
+import { GetMoveRequest, GetMoveResponse, ErrorResponse, OpeningInfo } from '../../shared/types';
+import { NewGameRequest, NewGameResponse, EndGameRequest, EndGameResponse, SetStrengthRequest, EngineStrength, GameStateResponse } from '../../shared/types';
+import { ResignRequest, UndoRequest, UndoResponse, GameStatus, TimeoutRequest, TimeControl, PlayerColor } from '../../shared/types';
+import { MoveResponse, MoveRequest, WebSocketMessage, AnalyzeRequest, AnalyzeResponse } from '../../shared/types';
+import { EngineLinesRequest, EngineLinesResponse, Evaluation, OpponentsResponse } from '../../shared/types';
+import { StartMatchRequest, StartMatchResponse } from '../../shared/types';
+import { NextPuzzleResponse, PuzzleMoveRequest, PuzzleMoveResponse } from '../../shared/types';
+import { UserLoginRequest, UserRegistrationRequest, AuthResponse, RefreshTokenRequest, InvalidTokenResponse } from '../../shared/types';
+import { config } from './config';
 import { initializeDatabase } from './database';
-import { createUser, getUser, updateElo } from './database/models/User';
-import { addGame, getGames } from './database/models/Game';
+import { createUser, getUser, getUserById } from './database/models/User';
+import { addPuzzleAttempt, getNextPuzzle, getPuzzle } from './database/models/Puzzle';
+import { getGames, getGame } from './database/models/Game';
+import { getRatingHistory } from './database/models/RatingHistory';
+import { addChatMessages, getChatMessages } from './database/models/ChatMessage';
+import { GameOutcome, getAbandonmentOutcome, getPositionOutcome, getResignationOutcome, getTimeoutOutcome, recordFinishedGame } from './gameRecords';
+import { isValidTimeControl, getRemainingMs } from './clock';
+import { RatingChange, getStockfishNominalRating, rateGame } from './ratings';
+import { CandidateMove, StockfishPool, locateStockfish, searchCandidates, searchPosition } from './stockfishPool';
+import { EVEN_EVALUATION } from './evaluation';
+import { EngineMove, getOpponent, listOpponents, loadOpponents } from './opponents';
+import { identifyOpening, loadOpenings } from './openings';
+import { addTablebaseResult, configureTablebases, getTablebasePath } from './tablebase';
+import { isSameStrength, isValidStrength, normalizeStrength } from './engineStrength';
+import { Match, MatchOpening, countRunningMatches, createMatch, getMatch, getMatchProgress, parseOpening, runMatch, stopMatch, sweepMatches } from './matches';
+import { postChatMessage } from './chat';
+import { loadTokenSecrets, issueRefreshToken, rotateRefreshToken, revokeRefreshTokens, sweepExpiredRefreshTokens } from './authTokens';
+import { DEFAULT_PUZZLE_RATING, getPuzzleForSolver, judgePuzzleMove, ratePuzzleAttempt, scanGamesForPuzzles } from './puzzles';
+import { createLinesSearch, getLinesSearch, getLinesProgress, runLinesSearch, stopLinesSearch, stopUserLinesSearches, sweepLinesSearches } from './engineLines';
+import { PositionEvaluation, countRunningAnalyses, createAnalysisJob, getAnalysisJob, getAnalysisProgress, runAnalysis, sweepAnalysisJobs } from './analysis';
+import {
+  GameSession,
+  DEFAULT_SEARCH_DEPTH,
+  createGameSession,
+  getGameSession,
+  endGameSession,
+  checkSessionOwner,
+  sweepIdleSessions
+} from './gameSessions';
+import {
+  MultiplayerGame,
+  createMultiplayerGame,
+  getMultiplayerGame,
+  removeMultiplayerGame,
+  getPlayerColor,
+  getOpponentName,
+  applyMultiplayerMove,
+  resignMultiplayerGame,
+  checkMultiplayerFlag,
+  getMultiplayerGameState,
+  listActiveMultiplayerGames,
+  getLiveGameSummary,
+  findActiveMultiplayerGame,
+  abandonMultiplayerGame
+} from './multiplayer';
 import http from 'http';
 import WebSocket from 'ws';
 import { Move } from 'chess.js';  // Make sure to import the Move type from chess.js
 
-const execAsync = promisify(exec);
-
 // Initialize Express app and set port
 const app = express();
 const server = http.createServer(app);
 const wss = new WebSocket.Server({ server });
-const port = process.env.PORT || 3001;
-
-// Define the whitelist of allowed origins
-const whitelist = [
-  'https://redesigned-carnival-q7vjv65vcx9gv-3000.app.github.dev', // Your Codespace URL
-  'http://localhost:3000' // Local development URL
-];
+const port = config.port;
 
-// Configure CORS middleware
+// Configure CORS middleware, allowing the origins of the config
 app.use(cors({
   origin: function (origin, callback) {
-    if (!origin || whitelist.indexOf(origin) !== -1) {
+    if (!origin || config.corsOrigins.indexOf(origin) !== -1) {
       callback(null, true);
     } else {
       callback(new Error('Not allowed by CORS'));
@@ -54,242 +88,305 @@ app.use(cors({
 // make the parsed data available in req.body.
 app.use(express.json());
 
-// Secret keys for JWT
-const ACCESS_TOKEN_SECRET = crypto.randomBytes(64).toString('hex');
-const REFRESH_TOKEN_SECRET = crypto.randomBytes(64).toString('hex');
+// Secret keys for JWT, see loadTokenSecrets; refresh tokens are kept in the database
+const { accessTokenSecret: ACCESS_TOKEN_SECRET } = loadTokenSecrets(config.tokenSecretsFile);
 
-// In-memory storage for refresh tokens and online users (replace with a database in production)
-let refreshTokens: string[] = [];
+// In-memory storage for online users
 const onlineUsers: { [key: string]: { id: string, username: string } } = {};
 const wsClients: { [username: string]: WebSocket } = {};
+// Challenges waiting for an answer, keyed by "challenger:challenged"
+const pendingChallenges: { [key: string]: { timeControl: TimeControl | null; sentAt: number } } = {};
+// Pending flag checks of timed multiplayer games, keyed by game id
+const flagTimers: { [gameId: string]: NodeJS.Timeout } = {};
+// Connections following an engine match, keyed by match id
+const matchWatchers: { [matchId: string]: Set<WebSocket> } = {};
+// Connections spectating a multiplayer game, keyed by game id
+const gameWatchers: { [gameId: string]: Set<WebSocket> } = {};
+// Forfeits of players who dropped out of a running game, keyed by username
+const disconnectTimers: { [username: string]: NodeJS.Timeout } = {};
+
+// Request body fields that never appear in the log
+const REDACTED_BODY_FIELDS = ['password', 'refreshToken'];
+
+/**
+ * A copy of a request body that is safe to log.
+ */
+function redactBody(body: any) {
+  if (!body || typeof body !== 'object') return body;
+  const redacted = { ...body };
+  REDACTED_BODY_FIELDS.forEach((field) => {
+    if (field in redacted) redacted[field] = '[redacted]';
+  });
+  return redacted;
+}
 
 // Add a middleware to log all incoming requests
 app.use((req, res, next) => {
   console.log(`Received ${req.method} request to ${req.url}`);
-  console.log('Request body:', req.body);
+  console.log('Request body:', redactBody(req.body));
   next();
 });
 
-// Initialize Stockfish engine
-let engine: Engine;
-let searchDepth = 10; // Default search depth
-
-const CHESS_TUNE_URL = 'http://127.0.0.1:5000'; // Update this if the URL is different
-
-// Add this near the top of your file, after other initializations
-let currentOpponent: string | null = null;
+// Pool of Stockfish processes shared by all game sessions
+let stockfishPool: StockfishPool;
+
+// Book moves are played from the ECO database, see loadOpenings
+const MAX_BOOK_PLIES = 30;
+
+// Sessions nobody has touched for this long are dropped
+const SESSION_IDLE_TIMEOUT_MS = 60 * 60 * 1000;
+// Rated engine games left with at least this many plies played count as lost
+const MIN_ABANDONED_PLIES = 2;
+
+// Limits of a single post-game analysis
+const MAX_ANALYSIS_PLIES = 300;
+const MAX_ANALYSIS_DEPTH = 16;
+// Analyses share the engine pool with live games, so only few run at a time
+const MAX_RUNNING_ANALYSES = 1;
+const MAX_RUNNING_ANALYSES_PER_USER = 1;
+const ANALYSIS_RETENTION_MS = 30 * 60 * 1000;
+
+// Limits of engine matches; matches run one at a time to leave engines for players
+const MAX_MATCH_GAMES = 200;
+const MAX_MATCH_OPENINGS = 100;
+const MAX_RUNNING_MATCHES = 1;
+// Match games take turns with live games on the engine pool, so each move is kept short
+const MAX_MATCH_DEPTH = 15;
+const MAX_MATCH_MOVETIME_MS = 1000;
+const MATCH_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Stored games are searched for puzzles a few at a time in the background
+const PUZZLE_SCAN_INTERVAL_MS = 5 * 60 * 1000;
+const PUZZLE_SCAN_BATCH = 5;
+
+// Close code for WebSocket connections without a valid access token
+const WS_CLOSE_UNAUTHORIZED = 4001;
+// Close codes of the WebSocket protocol for logged out users and messages that are not JSON objects
+const WS_CLOSE_NORMAL = 1000;
+const WS_CLOSE_UNSUPPORTED_DATA = 1003;
+
+// A player who drops out of a running game loses it unless they reconnect within this time
+const DISCONNECT_GRACE_MS = 60 * 1000;
+
+// Challenges that are not answered within this time can no longer be accepted
+const CHALLENGE_TIMEOUT_MS = 2 * 60 * 1000;
+
+// Candidate lines shown in the analysis panel
+const DEFAULT_ENGINE_LINES = 3;
+const MAX_ENGINE_LINES = 5;
 
 /**
- * Initialize the Stockfish chess engine.
+ * Initialize the pool of Stockfish chess engines.
  */
 async function initializeEngine() {
-  let enginePath: string;
-
-  if (os.platform() === 'darwin') {
-    // macOS
-    enginePath = '/opt/homebrew/bin/stockfish';
-  } else if (os.platform() === 'linux') {
-    // Linux
-    try {
-      const { stdout } = await execAsync('which stockfish');
-      enginePath = stdout.trim();
-      if (!enginePath) {
-        throw new Error('Stockfish not found in PATH');
-      }
-    } catch {
-      // Fallback to the default path on Ubuntu 22.04
-      enginePath = '/usr/games/stockfish';
-    }
-
-    // Check if the fallback path points to the Stockfish binary
-    try {
-      const { stdout: versionOutput } = await execAsync(`${enginePath} --version`);
-      if (!versionOutput.includes('Stockfish')) {
-        throw new Error('Stockfish not found');
-      }
-    } catch (err) {
-      const error = err as Error;
-      throw new Error('Failed to locate Stockfish: ' + error.message);
-    }
-  } else {
-    throw new Error('Unsupported operating system');
-  }
-
-  engine = new Engine(enginePath);
-  await engine.init();
-  await engine.isready();
+  const enginePath = await locateStockfish();
+  const tablebasePath = getTablebasePath();
+  // Stockfish probes the tablebases itself while searching, so its moves in endgames are exact
+  stockfishPool = new StockfishPool(enginePath, config.stockfishPoolSize, tablebasePath ? { SyzygyPath: tablebasePath } : {});
+  await stockfishPool.init();
   console.log('Stockfish engine initialized');
 }
 
+// Syzygy tablebases used for exact endgame evaluations, probed with Fathom
+configureTablebases(config.syzygyPath, config.fathomPath);
+
 initializeEngine().catch((error) => {
   console.error('Failed to initialize Stockfish engine:', error);
 });
 
+// The ECO database used to name openings and for book moves, see loadOpenings for the format
+loadOpenings(config.ecoDatabase);
+
+// The engines players can choose from, see loadOpponents for the format
+loadOpponents(config.opponentsConfig, {
+  getStockfishPool: () => stockfishPool || null,
+  evaluate: getStockfishEvaluation
+}, config.opponentUrls);
+
+setInterval(() => {
+  sweepIdleSessions(SESSION_IDLE_TIMEOUT_MS).forEach((session) => {
+    abandonEngineGame(session).catch((error) => {
+      console.error(`Failed to score abandoned game ${session.id}:`, error);
+    });
+  });
+  sweepAnalysisJobs(ANALYSIS_RETENTION_MS);
+  sweepLinesSearches(ANALYSIS_RETENTION_MS);
+  sweepMatches(MATCH_RETENTION_MS);
+  sweepPendingChallenges();
+  sweepExpiredRefreshTokens().catch((error) => {
+    console.error('Failed to delete expired refresh tokens:', error);
+  });
+}, 10 * 60 * 1000);
+
+setInterval(() => {
+  if (!stockfishPool) return;
+  scanGamesForPuzzles(PUZZLE_SCAN_BATCH, searchStockfishCandidates).catch((error) => {
+    console.error('Failed to scan games for puzzles:', error);
+  });
+}, PUZZLE_SCAN_INTERVAL_MS);
+
 /**
- * Set the search depth for the Stockfish engine.
+ * Set how strongly the engine plays in one game.
  * 
- * This endpoint allows the client to adjust the search depth of the Stockfish chess engine.
- * A deeper search generally results in stronger moves but takes more time to compute.
+ * This endpoint allows the client to adjust the search depth of the engine and
+ * to weaken Stockfish through its Skill Level, a UCI_Elo rating or a time or
+ * node limit per move. The settings only apply to the engine's own moves;
+ * evaluations are always searched at full strength.
  * 
- * @route POST /api/set-depth
+ * @route POST /api/set-strength
  * @param {Object} req.body - The request body
- * @param {number} req.body.depth - The desired search depth (must be a positive number)
+ * @param {string} req.body.gameId - The game returned by /api/new_game
+ * @param {EngineStrength} req.body.strength - The depth and any optional limits
  * @returns {Object} JSON response indicating success or failure
- * @returns {boolean} response.success - Indicates whether the depth was successfully set
- * @returns {string} [response.error] - Error message if the depth setting failed
- */
-app.post('/api/set-depth', async (req, res) => {
-  const { depth } = req.body as { depth: number };
-  if (typeof depth === 'number' && depth > 0) {
-    searchDepth = depth;
-    await engine.setoption('Depth', depth.toString());
+ * @returns {boolean} response.success - Indicates whether the strength was successfully set
+ * @returns {string} [response.error] - Error message if the strength setting failed
+ */
+app.post('/api/set-strength', identifyUser, async (req: any, res) => {
+  const { gameId, strength } = req.body as SetStrengthRequest;
+  const session = getGameSession(gameId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Unknown game' });
+  }
+  const denied = checkSessionOwner(session, req.user);
+  if (denied) {
+    return res.status(denied.status).json({ success: false, error: denied.error });
+  }
+  if (isValidStrength(strength)) {
+    if (!isSameStrength(strength, session.strength) && session.chess.history().length > 0) {
+      console.log(`Strength changed mid-game, game ${session.id} is no longer rated`);
+      session.rated = false;
+    }
+    session.strength = normalizeStrength(strength);
     res.json({ success: true });
   } else {
-    res.status(400).json({ success: false, error: 'Invalid depth value' });
+    res.status(400).json({ success: false, error: 'Invalid strength settings' });
   }
 });
 
 /**
  * Get the next best move from Stockfish for a given board position.
  * @param board - FEN string representing the current board state
+ * @param session - The game the search is for, or null for a one-off search
  * @returns JSON string of the best move
  */
-async function getStockfishMove(board: string): Promise<SuccessfulGetMoveResponse> {
+async function getStockfishMove(board: string, session: GameSession | null): Promise<EngineMove> {
   try {
-    await engine.position(board);
-    const result = await engine.go({ depth: searchDepth });
+    const depth = session ? session.strength.depth : DEFAULT_SEARCH_DEPTH;
+    const { bestMove, evaluation: engineEvaluation } = await analyzeWithStockfish(board, session ? session.id : null, depth);
+    const evaluation = await addTablebaseResult(board, engineEvaluation);
 
     const chess = new Chess(board);
-    const moveResult = chess.move(result.bestmove);
+    const moveResult = chess.move(bestMove);
 
     if (!moveResult) {
       throw new Error('Invalid move suggested by Stockfish');
     }
 
-    // Parse the evaluation from Stockfish output
-    const lastItem = result.info[result.info.length - 1];
-    const lastInfo = typeof lastItem === 'object' ? lastItem as InfoItem : null;
-
-    if (lastInfo && lastInfo.score) {
-      const evaluation = parseFloat(lastInfo.score.value) / 100;
-      console.log('Suggested move:', moveResult, 'Evaluation:', evaluation);
-      return { move: moveResult, evaluation };
-    } else {
-      console.error('Invalid or missing score information');
-      return { move: moveResult, evaluation: 0 };
-    }
+    console.log('Suggested move:', moveResult, 'Evaluation:', evaluation);
+    return { move: moveResult, evaluation };
   } catch (error) {
     console.error('Error getting move from Stockfish:', error);
     throw error;
   }
 }
 
-interface InfoItem {
-  score: {
-    value: string;
-  };
+/**
+ * Search a position with Stockfish.
+ * @param board - FEN string of the position
+ * @param poolKey - The game or analysis the search belongs to, or null for a one-off search
+ * @param depth - The search depth
+ * @returns The best move in UCI notation and the evaluation from White's point of view
+ */
+async function analyzeWithStockfish(board: string, poolKey: string | null, depth: number): Promise<PositionEvaluation> {
+  return searchPosition(stockfishPool, board, poolKey, { depth });
 }
 
-async function getChessTuneMove(board: string): Promise<{ move: any, evaluation: number }> {
-  try {
-    // Make a GET request to the ChessTune '/get_move' endpoint
-    const response = await axios.get(`${CHESS_TUNE_URL}/get_move`, {
-      params: { fen: board }
-    });
-    const data = response.data;
-
-    switch (data.status) {
-      case 'game_over':
-        console.log('Game over. Result:', data.result);
-        throw new Error(`Game over: ${data.result}`);
-
-      case 'ok':
-        console.log('Move received:', data.move);
-        // Convert SAN move to the format expected by the client
-        const chess = new Chess(board);
-        const moveObject = chess.move(data.move);
-        console.log('Move object:', moveObject);
-        if (!moveObject) {
-          throw new Error('Invalid move received from ChessTune');
-        }
-
-        // Get evaluation from Stockfish for the new board position
-        const evaluation = await getStockfishEvaluation(data.new_fen);
-        console.log('Evaluation:', evaluation);
-
-        return {
-          move: {
-            from: moveObject.from,
-            to: moveObject.to,
-            promotion: moveObject.promotion
-          },
-          evaluation
-        };
-
-      case 'error':
-        throw new Error(data.message || 'Unknown error from ChessTune');
+/**
+ * Rank the best moves of a position with Stockfish at full strength.
+ */
+function searchStockfishCandidates(board: string, depth: number, count: number): Promise<CandidateMove[]> {
+  return searchCandidates(stockfishPool, board, null, depth, count);
+}
 
-      default:
-        throw new Error('Unexpected response from ChessTune');
-    }
+/**
+ * Evaluate a position with Stockfish, or exactly from the tablebases in the endgames they cover.
+ */
+async function getStockfishEvaluation(board: string, session: GameSession | null): Promise<Evaluation> {
+  try {
+    const depth = session ? session.strength.depth : DEFAULT_SEARCH_DEPTH;
+    const { evaluation } = await analyzeWithStockfish(board, session ? session.id : null, depth);
+    return await addTablebaseResult(board, evaluation);
   } catch (error) {
-    console.error('Error getting move from ChessTune:', error);
-    throw error;
+    console.error('Error getting evaluation from Stockfish:', error);
+    return EVEN_EVALUATION;
   }
 }
 
-async function getStockfishEvaluation(board: string): Promise<number> {
+/**
+ * List the engines that can be played against, with whether each one is
+ * running right now.
+ * GET /api/opponents
+ */
+app.get('/api/opponents', async (req, res) => {
   try {
-    await engine.position(board);
-    const result = await engine.go({ depth: searchDepth });
-
-    // Parse the evaluation from Stockfish output
-    const lastItem = result.info[result.info.length - 1];
-    const lastInfo = typeof lastItem === 'object' ? lastItem as InfoItem : null;
-
-    if (lastInfo && lastInfo.score) {
-      return parseFloat(lastInfo.score.value) / 100;
-    } else {
-      console.error('Invalid or missing score information');
-      return 0;
-    }
+    const response: OpponentsResponse = { opponents: await listOpponents() };
+    res.json(response);
   } catch (error) {
-    console.error('Error getting evaluation from Stockfish:', error);
-    return 0;
+    console.error('Error listing opponents:', error);
+    res.status(500).json({ error: 'Failed to list opponents' });
   }
+});
+
+/**
+ * The opening the game of a session has reached.
+ */
+function getSessionOpening(session: GameSession): OpeningInfo | null {
+  return identifyOpening(session.startFen, session.chess.history());
 }
 
-async function getNextMove(board: string, opponent: string): Promise<SuccessfulGetMoveResponse> {
-  switch (opponent) {
-    case 'stockfish':
-      return getStockfishMove(board);
-    case 'chess_tune':
-      return getChessTuneMove(board);
-    default:
-      throw new Error('Invalid opponent type');
+app.post<{}, GetMoveResponse, GetMoveRequest>('/api/get_move', identifyUser, async (req: any, res) => {
+  const { gameId, board } = req.body;
+  console.log(`Received move request. Game: ${gameId}, Board: ${board}`);
+
+  const session = getGameSession(gameId);
+  if (!session) {
+    const errorResponse: ErrorResponse = { error: 'Unknown game' };
+    return res.status(404).json(errorResponse);
+  }
+  const denied = checkSessionOwner(session, req.user);
+  if (denied) {
+    const errorResponse: ErrorResponse = { error: denied.error };
+    return res.status(denied.status).json(errorResponse);
   }
-}
 
-app.post('/api/get_move', async (req, res) => {
-  const { board, opponent } = req.body;
-  console.log(`Received move request. Board: ${board}, Opponent: ${opponent}`);
+  if (session.status !== 'active') {
+    const errorResponse: ErrorResponse = { error: 'Game is already over' };
+    return res.status(409).json(errorResponse);
+  }
+  if (session.chess.turn() === session.humanColor) {
+    const errorResponse: ErrorResponse = { error: 'It is not the engine\'s turn' };
+    return res.status(409).json(errorResponse);
+  }
+  if (board && board !== session.chess.fen()) {
+    console.log(`Client board differs from game ${session.id}, using the server position`);
+  }
 
+  const opponent = getOpponent(session.opponent);
   if (!opponent) {
-    const errorResponse: ErrorResponse = { error: 'No opponent specified' };
+    const errorResponse: ErrorResponse = { error: 'Invalid opponent' };
     return res.status(400).json(errorResponse);
   }
 
   try {
-    let response: SuccessfulGetMoveResponse;
-
-    if (opponent === 'stockfish') {
-      response = await getStockfishMove(board);
-    } else {
-      const errorResponse: ErrorResponse = { error: 'Invalid opponent' };
-      return res.status(400).json(errorResponse);
+    const response = await opponent.getMove(session);
+    // Engines that do not probe the tablebases still report an exact evaluation in endgames
+    if (response.evaluation) {
+      response.evaluation = await addTablebaseResult(session.chess.fen(), response.evaluation);
     }
+    session.chess.move(response.move);
+    await checkEngineGameOver(session);
 
-    res.json(response);
+    res.json({ ...response, opening: getSessionOpening(session) });
   } catch (error) {
     console.error('Error getting move:', error);
     const errorResponse: ErrorResponse = { error: 'Error getting move' };
@@ -299,19 +396,19 @@ app.post('/api/get_move', async (req, res) => {
 
 /**
  * Suggest the best move for the current board position.
+ * The search uses the depth of the given game, if any.
  * POST /api/suggest
  */
 app.post('/api/suggest', async (req, res) => {
   try {
-    const { board } = req.body;
+    const { board, gameId } = req.body;
     console.log('Received board for suggestion:', board);
 
     if (!board) {
       return res.status(400).json({ error: 'Board position is required' });
     }
 
-    await engine.setoption('Depth', searchDepth.toString());
-    const { move, evaluation } = await getNextMove(board, 'stockfish');
+    const { move, evaluation } = await getStockfishMove(board, getGameSession(gameId) || null);
 
     // Convert the move to the format expected by the client
     const suggestedMove = {
@@ -333,18 +430,19 @@ app.post('/api/suggest', async (req, res) => {
 
 /**
  * Evaluate the current board position.
+ * The search uses the depth of the given game, if any.
  * POST /api/evaluate
  */
 app.post('/api/evaluate', async (req, res) => {
   try {
-    const { board } = req.body;
+    const { board, gameId } = req.body;
     console.log('Received board for evaluation:', board);
 
     if (!board) {
       return res.status(400).json({ error: 'Board position is required' });
     }
 
-    const evaluation = await getStockfishEvaluation(board);
+    const evaluation = await getStockfishEvaluation(board, getGameSession(gameId) || null);
     console.log('Evaluation:', evaluation);
     res.json({ evaluation });
   } catch (error) {
@@ -357,6 +455,206 @@ app.post('/api/evaluate', async (req, res) => {
   }
 });
 
+/**
+ * Start a MultiPV search of a position. The top lines are refined as the
+ * search deepens; poll GET /api/lines/:id for the latest ones. Needs a
+ * logged-in user, whose previous search is stopped.
+ * POST /api/lines
+ */
+app.post<{}, EngineLinesResponse, EngineLinesRequest>('/api/lines', authenticateToken, (req: any, res) => {
+  const { board, gameId, lines, depth } = req.body;
+  if (!board) {
+    return res.status(400).json({ success: false, error: 'Board position is required' });
+  }
+  let chess: Chess;
+  try {
+    chess = new Chess(board);
+  } catch {
+    return res.status(400).json({ success: false, error: 'Invalid board position' });
+  }
+  if (chess.isGameOver()) {
+    return res.status(400).json({ success: false, error: 'Game is already over' });
+  }
+  if (lines !== undefined && !(Number.isInteger(lines) && lines > 0 && lines <= MAX_ENGINE_LINES)) {
+    return res.status(400).json({ success: false, error: 'Invalid number of lines' });
+  }
+  if (depth !== undefined && !(Number.isInteger(depth) && depth > 0 && depth <= MAX_ANALYSIS_DEPTH)) {
+    return res.status(400).json({ success: false, error: 'Invalid depth value' });
+  }
+
+  // Each user has one search at a time; a new position replaces the last one
+  stopUserLinesSearches(req.user.userId);
+  const session = getGameSession(gameId);
+  const targetDepth = depth ?? (session ? session.strength.depth : DEFAULT_SEARCH_DEPTH);
+  const search = createLinesSearch(chess.fen(), lines ?? DEFAULT_ENGINE_LINES, targetDepth, req.user.userId);
+  console.log(`Started line search ${search.id} (${search.multiPv} lines, depth ${targetDepth})`);
+  runLinesSearch(search, stockfishPool);
+
+  res.json({ success: true, searchId: search.id });
+});
+
+/**
+ * Get the current lines of a search.
+ * GET /api/lines/:id
+ */
+app.get('/api/lines/:id', authenticateToken, (req: any, res) => {
+  const search = getLinesSearch(req.params.id, req.user.userId);
+  if (!search) {
+    return res.status(404).json({ error: 'Unknown search' });
+  }
+  res.json(getLinesProgress(search));
+});
+
+/**
+ * Stop a search early, e.g. because the position on the board changed.
+ * POST /api/lines/:id/stop
+ */
+app.post('/api/lines/:id/stop', authenticateToken, (req: any, res) => {
+  const search = getLinesSearch(req.params.id, req.user.userId);
+  if (!search) {
+    return res.status(404).json({ success: false, error: 'Unknown search' });
+  }
+  stopLinesSearch(search);
+  res.json({ success: true });
+});
+
+/**
+ * Start a full analysis of a game. Every position is searched by Stockfish in
+ * the background; poll GET /api/analyze/:id for progress and the report.
+ * Needs a logged-in user, who can only run one analysis at a time.
+ * POST /api/analyze
+ */
+app.post<{}, AnalyzeResponse, AnalyzeRequest>('/api/analyze', authenticateToken, (req: any, res) => {
+  const { moves, startFen, depth } = req.body;
+  if (!Array.isArray(moves) || moves.length === 0) {
+    return res.status(400).json({ success: false, error: 'No moves to analyze' });
+  }
+  if (moves.length > MAX_ANALYSIS_PLIES) {
+    return res.status(400).json({ success: false, error: 'Game is too long to analyze' });
+  }
+  if (depth !== undefined && !(Number.isInteger(depth) && depth > 0 && depth <= MAX_ANALYSIS_DEPTH)) {
+    return res.status(400).json({ success: false, error: 'Invalid depth value' });
+  }
+
+  if (countRunningAnalyses(req.user.userId) >= MAX_RUNNING_ANALYSES_PER_USER) {
+    return res.status(409).json({ success: false, error: 'Your previous analysis is still running' });
+  }
+  if (countRunningAnalyses() >= MAX_RUNNING_ANALYSES) {
+    return res.status(409).json({ success: false, error: 'The server is busy with other analyses, try again shortly' });
+  }
+
+  const job = createAnalysisJob(startFen || new Chess().fen(), moves, req.user.userId);
+  if (!job) {
+    return res.status(400).json({ success: false, error: 'Moves are not a legal game' });
+  }
+  const analysisDepth = depth ?? DEFAULT_SEARCH_DEPTH;
+  console.log(`Started analysis ${job.id} of ${moves.length} moves at depth ${analysisDepth}`);
+  runAnalysis(job, (fen) => analyzeWithStockfish(fen, job.id, analysisDepth));
+
+  res.json({ success: true, analysisId: job.id });
+});
+
+/**
+ * Get the progress of an analysis, and the report once it is done.
+ * GET /api/analyze/:id
+ */
+app.get('/api/analyze/:id', authenticateToken, (req: any, res) => {
+  const job = getAnalysisJob(req.params.id, req.user.userId);
+  if (!job) {
+    return res.status(404).json({ error: 'Unknown analysis' });
+  }
+  res.json(getAnalysisProgress(job));
+});
+
+function isWithinMatchLimits(strength: EngineStrength): boolean {
+  return strength.depth <= MAX_MATCH_DEPTH
+    && (strength.movetimeMs === undefined || strength.movetimeMs <= MAX_MATCH_MOVETIME_MS);
+}
+
+/**
+ * Start a match of several games between two opponents. The games are
+ * played in the background and stored in the games table; poll
+ * GET /api/matches/:id or send a watch_match message over the WebSocket
+ * to follow it.
+ * POST /api/matches
+ */
+app.post<{}, StartMatchResponse, StartMatchRequest>('/api/matches', authenticateToken, async (req: any, res) => {
+  const { engines, games, openings } = req.body;
+  if (!Array.isArray(engines) || engines.length !== 2) {
+    return res.status(400).json({ success: false, error: 'A match needs two engines' });
+  }
+  for (const participant of engines) {
+    const opponent = getOpponent(participant && participant.opponent);
+    if (!opponent) {
+      return res.status(400).json({ success: false, error: 'Unknown opponent' });
+    }
+    if (participant.strength !== undefined && !isValidStrength(participant.strength)) {
+      return res.status(400).json({ success: false, error: 'Invalid strength settings' });
+    }
+    if (participant.strength !== undefined && !isWithinMatchLimits(participant.strength)) {
+      return res.status(400).json({
+        success: false,
+        error: `Match engines search at most ${MAX_MATCH_DEPTH} plies deep and ${MAX_MATCH_MOVETIME_MS}ms per move`
+      });
+    }
+    if (!(await opponent.isAvailable())) {
+      return res.status(503).json({ success: false, error: `${opponent.describe().name} is not available` });
+    }
+  }
+  if (!(Number.isInteger(games) && games > 0 && games <= MAX_MATCH_GAMES)) {
+    return res.status(400).json({ success: false, error: `A match has 1 to ${MAX_MATCH_GAMES} games` });
+  }
+  if (openings !== undefined && !(Array.isArray(openings) && openings.length <= MAX_MATCH_OPENINGS)) {
+    return res.status(400).json({ success: false, error: 'Invalid openings' });
+  }
+  const parsedOpenings: MatchOpening[] = [];
+  for (const text of openings || []) {
+    const opening = typeof text === 'string' ? parseOpening(text) : null;
+    if (!opening) {
+      return res.status(400).json({ success: false, error: `Invalid opening: ${text}` });
+    }
+    parsedOpenings.push(opening);
+  }
+  if (countRunningMatches() >= MAX_RUNNING_MATCHES) {
+    return res.status(409).json({ success: false, error: 'Another match is already running' });
+  }
+
+  const match = createMatch(
+    engines.map(participant => ({ ...participant, strength: participant.strength && normalizeStrength(participant.strength) })) as StartMatchRequest['engines'],
+    games,
+    parsedOpenings,
+    req.user.userId
+  );
+  console.log(`Started match ${match.id}: ${match.engines[0].name} vs ${match.engines[1].name}, ${games} games`);
+  runMatch(match, broadcastMatchUpdate);
+  res.json({ success: true, matchId: match.id });
+});
+
+app.get('/api/matches/:id', (req, res) => {
+  const match = getMatch(req.params.id);
+  if (!match) {
+    return res.status(404).json({ error: 'Unknown match' });
+  }
+  res.json(getMatchProgress(match));
+});
+
+/**
+ * Stop a match after abandoning the game in progress. Finished games stay recorded.
+ * Only the player who started the match can stop it.
+ * POST /api/matches/:id/stop
+ */
+app.post('/api/matches/:id/stop', authenticateToken, (req: any, res) => {
+  const match = getMatch(req.params.id);
+  if (!match) {
+    return res.status(404).json({ success: false, error: 'Unknown match' });
+  }
+  if (match.ownerId !== req.user.userId) {
+    return res.status(403).json({ success: false, error: 'Only the player who started the match can stop it' });
+  }
+  stopMatch(match);
+  res.json({ success: true });
+});
+
 // Root endpoint
 app.get('/', (req, res) => {
   res.send('Hello from Chess Site Backend!');
@@ -378,11 +676,8 @@ app.post<{}, AuthResponse, UserRegistrationRequest>('/api/register', async (req,
 
   try {
     const userId = await createUser(username, password);
-    const accessToken = jwt.sign({ userId, username }, ACCESS_TOKEN_SECRET, { expiresIn: '15m' });
-    const refreshToken = jwt.sign({ userId, username }, REFRESH_TOKEN_SECRET);
-    // Adds the generated refresh token to an array, a more robust solutions
-    // (like a database) should be used in production.
-    refreshTokens.push(refreshToken);
+    const accessToken = generateAccessToken({ id: userId, username });
+    const refreshToken = await issueRefreshToken({ userId, username });
 
     console.log('Registration successful, tokens generated');
     res.json({ success: true, accessToken, refreshToken });
@@ -401,14 +696,10 @@ app.post<{}, AuthResponse, UserLoginRequest>('/api/login', async (req, res) => {
     console.log('User found:', user ? 'Yes' : 'No');
     if (user && await bcrypt.compare(password, user.password)) {
       console.log('Password match for user:', username);
-      const accessToken = jwt.sign({ userId: user.id, username }, ACCESS_TOKEN_SECRET, { expiresIn: '15m' });
-      const refreshToken = jwt.sign({ userId: user.id, username }, REFRESH_TOKEN_SECRET);
+      const accessToken = generateAccessToken(user);
+      const refreshToken = await issueRefreshToken({ userId: user.id, username: user.username });
       console.log('Tokens generated for user:', username);
       res.json({ success: true, accessToken, refreshToken, username: user.username, elo: user.elo_rating });
-      // Broadcast updated online users list
-      onlineUsers[user.id] = { id: user.id, username: user.username };
-      wsClients[user.username] = (req as any).ws; // Assume WebSocket is attached to request
-      broadcastOnlineUsers();
     } else {
       console.log('Login failed for user:', username);
       res.status(401).json({ success: false, error: 'Invalid credentials' });
@@ -420,29 +711,40 @@ app.post<{}, AuthResponse, UserLoginRequest>('/api/login', async (req, res) => {
 });
 
 // Token refresh route
-app.post<{}, AuthResponse, RefreshTokenRequest>('/api/token', (req, res) => {
+// Every refresh token can be used once; the response carries its replacement
+app.post<{}, AuthResponse, RefreshTokenRequest>('/api/token', async (req, res) => {
   const { refreshToken } = req.body;
   if (!refreshToken) return res.sendStatus(401);
-  if (!refreshTokens.includes(refreshToken)) return res.sendStatus(403);
 
-  jwt.verify(refreshToken, REFRESH_TOKEN_SECRET, (err: any, user: any) => {
-    if (err) return res.sendStatus(403);
-    const accessToken = generateAccessToken({ id: user.userId, username: user.username });
-    res.json({ success: true, accessToken });
-  });
+  try {
+    const rotated = await rotateRefreshToken(refreshToken);
+    if (!rotated) return res.sendStatus(403);
+    const accessToken = generateAccessToken({ id: rotated.user.userId, username: rotated.user.username });
+    res.json({ success: true, accessToken, refreshToken: rotated.refreshToken });
+  } catch (error) {
+    console.error('Error refreshing token:', error);
+    res.status(500).json({ success: false, error: 'Error refreshing token' });
+  }
 });
 
 // Logout route
-app.post('/api/logout', authenticateToken, (req: any, res) => {
+// Revokes the refresh token sent in the body, or all of the user's refresh tokens without one
+app.post('/api/logout', authenticateToken, async (req: any, res) => {
   const username = req.user.username;
   console.log(`Logout request for user: ${username}`);
 
-  const userIdToRemove = Object.keys(onlineUsers).find(key => onlineUsers[key].username === username);
-  if (userIdToRemove) {
-    console.log(`Removing user from online users: ${username}`);
-    delete onlineUsers[userIdToRemove];
-    delete wsClients[username];
-    broadcastOnlineUsers();
+  try {
+    await revokeRefreshTokens(req.user.userId, req.body && req.body.refreshToken);
+  } catch (error) {
+    console.error('Error revoking refresh tokens:', error);
+    return res.status(500).json({ success: false, error: 'Error logging out' });
+  }
+
+  // Closing the connection takes the user offline, like any other disconnect
+  const client = wsClients[username];
+  if (client) {
+    console.log(`Closing the connection of ${username}`);
+    client.close(WS_CLOSE_NORMAL, 'Logged out');
   } else {
     console.log(`User not found in online users: ${username}`);
   }
@@ -456,16 +758,71 @@ app.get('/api/online-users', authenticateToken, (req, res) => {
   res.json(users);
 });
 
+// Get the multiplayer games that can be watched
+app.get('/api/live-games', authenticateToken, (req, res) => {
+  res.json(getLiveGames());
+});
+
 // Start the server
 server.listen(port, () => {
   console.log(`Server running at http://localhost:${port}`);
 });
 
 // Helper function to generate access token
-function generateAccessToken(user: Pick<User, 'id' | 'username'>) {
+function generateAccessToken(user: { id: number; username: string }) {
   return jwt.sign({ userId: user.id, username: user.username }, ACCESS_TOKEN_SECRET, { expiresIn: '15m' });
 }
 
+// Middleware that identifies the user when a token is sent, but lets anonymous requests through.
+// A token that is invalid or has expired is rejected, so that the client refreshes it.
+function identifyUser(req: any, res: any, next: any) {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+  if (token == null) {
+    return next();
+  }
+
+  jwt.verify(token, ACCESS_TOKEN_SECRET, (err: any, user: any) => {
+    if (err) {
+      console.log('Token verification failed:', err.message);
+      return rejectInvalidToken(res);
+    }
+    req.user = user;
+    next();
+  });
+}
+
+/**
+ * Answer a request with an invalid or expired access token. Only this
+ * answer makes the client refresh its token, unlike a 401 without a token
+ * or a 403 for a user who may not do what they asked.
+ */
+function rejectInvalidToken(res: any) {
+  const response: InvalidTokenResponse = { error: 'Invalid or expired access token', code: 'invalid_token' };
+  res.status(401).json(response);
+}
+
+interface AccessTokenPayload {
+  userId: number;
+  username: string;
+  exp: number; // Seconds since the epoch
+}
+
+/**
+ * Verify an access token with the same secret as authenticateToken.
+ *
+ * @returns The claims of the token, or null if it is invalid or has expired
+ */
+function verifyAccessToken(token: unknown): AccessTokenPayload | null {
+  if (typeof token !== 'string') return null;
+  try {
+    return jwt.verify(token, ACCESS_TOKEN_SECRET) as AccessTokenPayload;
+  } catch (error) {
+    console.log('Token verification failed:', (error as Error).message);
+    return null;
+  }
+}
+
 // Middleware to authenticate token
 function authenticateToken(req: any, res: any, next: any) {
   const authHeader = req.headers['authorization'];
@@ -478,7 +835,7 @@ function authenticateToken(req: any, res: any, next: any) {
   jwt.verify(token, ACCESS_TOKEN_SECRET, (err: any, user: any) => {
     if (err) {
       console.log('Token verification failed:', err.message);
-      return res.sendStatus(403);
+      return rejectInvalidToken(res);
     }
     console.log('Token verified for user:', user.username);
     req.user = user;
@@ -486,61 +843,456 @@ function authenticateToken(req: any, res: any, next: any) {
   });
 }
 
-async function applyMoveToChessTune(move: string) {
+app.post<{}, MoveResponse, MoveRequest>('/api/move', identifyUser, async (req: any, res) => {
   try {
-    await axios.post(`${CHESS_TUNE_URL}/move`, { move });
+    const { gameId, from, to, promotion, san } = req.body;
+    const session = getGameSession(gameId);
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Unknown game' } as MoveResponse);
+    }
+    const denied = checkSessionOwner(session, req.user);
+    if (denied) {
+      return res.status(denied.status).json({ success: false, error: denied.error } as MoveResponse);
+    }
+    console.log('Received move from:', from, 'to:', to, 'for opponent:', session.opponent);
+
+    if (session.status !== 'active' || session.chess.turn() !== session.humanColor) {
+      return res.status(409).json({ success: false, error: 'It is not your turn' } as MoveResponse);
+    }
+    let appliedSan: string;
+    try {
+      appliedSan = session.chess.move({ from, to, promotion }).san;
+    } catch {
+      return res.status(400).json({ success: false, error: 'Illegal move' } as MoveResponse);
+    }
+    if (san && san !== appliedSan) {
+      console.log(`Client SAN ${san} differs from ${appliedSan}, using the server move`);
+    }
+    await checkEngineGameOver(session);
+
+    const opponent = getOpponent(session.opponent);
+    if (opponent) {
+      // The SAN carries the promotion piece, e.g. "e8=N"
+      await opponent.applyMove(session, appliedSan);
+    }
+    res.json({ success: true, message: 'Move received successfully', opening: getSessionOpening(session) } as MoveResponse);
   } catch (error) {
-    console.error('Error applying move to ChessTune:', error);
-    throw error;
+    console.error('Error processing move:', error);
+    res.status(500).json({ success: false, error: 'Failed to process the move' } as MoveResponse);
+  }
+});
+
+/**
+ * Take back moves in an engine game, e.g. the player's last move and the reply.
+ * POST /api/undo
+ */
+app.post<{}, UndoResponse, UndoRequest>('/api/undo', identifyUser, (req: any, res) => {
+  const { gameId, plies } = req.body;
+  const session = getGameSession(gameId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Unknown game' });
+  }
+  const denied = checkSessionOwner(session, req.user);
+  if (denied) {
+    return res.status(denied.status).json({ success: false, error: denied.error });
+  }
+  if (session.status !== 'active') {
+    return res.status(409).json({ success: false, error: 'Game is already over' });
+  }
+  if (!(Number.isInteger(plies) && plies > 0)) {
+    return res.status(400).json({ success: false, error: 'Invalid number of moves to undo' });
+  }
+
+  for (let i = 0; i < plies && session.chess.undo(); i++) {
+    // Stops early when the start position is reached
+  }
+  // Takebacks make the result meaningless for the player's rating
+  session.rated = false;
+  res.json({ success: true, fen: session.chess.fen(), opening: getSessionOpening(session) });
+});
+
+/**
+ * Resign an engine game. The game is recorded as a loss for the player.
+ * POST /api/resign
+ */
+app.post<{}, EndGameResponse, ResignRequest>('/api/resign', identifyUser, async (req: any, res) => {
+  const { gameId } = req.body;
+  const session = getGameSession(gameId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Unknown game' });
+  }
+  const denied = checkSessionOwner(session, req.user);
+  if (denied) {
+    return res.status(denied.status).json({ success: false, error: denied.error });
+  }
+  if (session.status !== 'active') {
+    return res.status(409).json({ success: false, error: 'Game is already over' });
+  }
+
+  await finishEngineGame(session, 'resigned', getResignationOutcome(session.humanColor));
+  res.json({ success: true, message: 'Game resigned' });
+});
+
+/**
+ * Report that a side ran out of time in a timed engine game. The clock of
+ * engine games runs in the client.
+ * POST /api/timeout
+ */
+app.post<{}, EndGameResponse, TimeoutRequest>('/api/timeout', identifyUser, async (req: any, res) => {
+  const { gameId, color } = req.body;
+  const session = getGameSession(gameId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Unknown game' });
+  }
+  const denied = checkSessionOwner(session, req.user);
+  if (denied) {
+    return res.status(denied.status).json({ success: false, error: denied.error });
+  }
+  if (!session.timeControl) {
+    return res.status(400).json({ success: false, error: 'Game is untimed' });
+  }
+  if (color !== 'w' && color !== 'b') {
+    return res.status(400).json({ success: false, error: 'Invalid color' });
+  }
+  if (session.status !== 'active') {
+    return res.status(409).json({ success: false, error: 'Game is already over' });
+  }
+
+  await finishEngineGame(session, 'timeout', getTimeoutOutcome(color));
+  res.json({ success: true, message: 'Game lost on time' });
+});
+
+/**
+ * Record an engine game if its last move ended it.
+ */
+async function checkEngineGameOver(session: GameSession) {
+  const outcome = getPositionOutcome(session.chess);
+  if (outcome) {
+    await finishEngineGame(session, outcome.termination === 'checkmate' ? 'checkmate' : 'draw', outcome);
   }
 }
 
-app.post<{}, MoveResponse, MoveRequest>('/api/move', async (req, res) => {
+/**
+ * Record a finished engine game and, for rated Stockfish games, update the
+ * player's rating against the nominal rating of the strength played.
+ * Completes before the request that ended the game is answered, so the
+ * client sees the new rating right away.
+ */
+async function finishEngineGame(session: GameSession, status: GameStatus, outcome: GameOutcome) {
+  session.status = status;
+  const human = { id: session.userId, name: session.username || 'Anonymous' };
+  const opponent = getOpponent(session.opponent);
+  const engine = { id: null, name: opponent ? opponent.describe().name : session.opponent };
   try {
-    const { from, to, promotion, san } = req.body;
-    console.log('Received move from:', from, 'to:', to, 'for opponent:', currentOpponent);
+    const recordedGameId = await recordFinishedGame({
+      chess: session.chess,
+      startFen: session.startFen,
+      white: session.humanColor === 'w' ? human : engine,
+      black: session.humanColor === 'w' ? engine : human,
+      opponentType: session.opponent,
+      engineDepth: session.opponent === 'stockfish' ? session.strength.depth : null,
+      timeControl: session.timeControl,
+      outcome,
+      startedAt: session.createdAt
+    });
 
-    if (currentOpponent === 'chess_tune') {
-      await applyMoveToChessTune(san);
-      res.json({ success: true, message: 'Move applied to ChessTune successfully' } as MoveResponse);
-    } else {
-      res.json({ success: true, message: 'Move received successfully' } as MoveResponse);
+    // A timeout is reported by the client; only trust it when it costs the player the game
+    const trustedResult = outcome.termination !== 'timeout' || outcome.result === (session.humanColor === 'w' ? '0-1' : '1-0');
+    const nominalRating = session.opponent === 'stockfish' ? getStockfishNominalRating(session.strength) : null;
+    if (session.rated && trustedResult && nominalRating !== null && session.userId !== null) {
+      const humanSide = { userId: session.userId, name: human.name };
+      const engineSide = { userId: null, name: engine.name, nominalRating };
+      const changes = await rateGame(
+        recordedGameId,
+        session.humanColor === 'w' ? humanSide : engineSide,
+        session.humanColor === 'w' ? engineSide : humanSide,
+        outcome.result
+      );
+      notifyRatingChanges(recordedGameId, changes);
     }
   } catch (error) {
-    console.error('Error processing move:', error);
-    res.status(500).json({ success: false, error: 'Failed to process the move' } as MoveResponse);
+    console.error(`Failed to record game ${session.id}:`, error);
   }
-});
+}
+
+/**
+ * Score a rated engine game the player walked away from as a loss, so that
+ * starting a new game or going idle in a lost position does not dodge the
+ * rating change. Games left before both sides have moved end without a result.
+ */
+async function abandonEngineGame(session: GameSession) {
+  if (session.status !== 'active' || !session.rated || session.userId === null) return;
+  if (session.chess.history().length < MIN_ABANDONED_PLIES) return;
+  console.log(`Game ${session.id} was abandoned by ${session.username}`);
+  await finishEngineGame(session, 'abandoned', getAbandonmentOutcome(session.humanColor));
+}
+
+/**
+ * Record a multiplayer game once it is over, looking up both players'
+ * accounts, and rate it if both players have one.
+ */
+async function finishMultiplayerGame(game: MultiplayerGame) {
+  if (!game.outcome) return;
+  const [white, black] = await Promise.all([getUser(game.white), getUser(game.black)]);
+  const recordedGameId = await recordFinishedGame({
+    chess: game.chess,
+    startFen: game.startFen,
+    white: { id: white ? white.id : null, name: game.white },
+    black: { id: black ? black.id : null, name: game.black },
+    opponentType: 'human',
+    engineDepth: null,
+    timeControl: game.clock ? game.clock.timeControl : null,
+    outcome: game.outcome,
+    startedAt: game.createdAt
+  });
+  if (game.chat.length > 0) {
+    await addChatMessages(recordedGameId, game.chat);
+  }
+
+  if (white && black) {
+    const changes = await rateGame(
+      recordedGameId,
+      { userId: white.id, name: game.white },
+      { userId: black.id, name: game.black },
+      game.outcome.result
+    );
+    notifyRatingChanges(recordedGameId, changes);
+  }
+}
 
-// Update the new game route
-app.post<{}, NewGameResponse, NewGameRequest>('/api/new_game', async (req, res) => {
-  const { opponent } = req.body;
+function notifyRatingChanges(recordedGameId: number, changes: RatingChange[]) {
+  changes.forEach((change) => {
+    const client = wsClients[change.username];
+    if (client && client.readyState === WebSocket.OPEN) {
+      const ratingUpdate: WebSocketMessage = {
+        type: 'rating_update',
+        gameId: recordedGameId,
+        oldRating: change.oldRating,
+        newRating: change.newRating
+      };
+      client.send(JSON.stringify(ratingUpdate));
+    }
+  });
+}
+
+// Create a game session and return its id for the follow-up calls
+app.post<{}, NewGameResponse, NewGameRequest>('/api/new_game', identifyUser, async (req: any, res) => {
+  const { opponent, strength, timeControl, color, startFen, moves, bookPlies } = req.body as NewGameRequest;
   console.log('New game started with opponent:', opponent);
 
+  if (!opponent) {
+    return res.status(400).json({ success: false, error: 'No opponent specified' });
+  }
+  const opponentEngine = getOpponent(opponent);
+  if (!opponentEngine) {
+    return res.status(400).json({ success: false, error: 'Unknown opponent' });
+  }
+  if (strength !== undefined && !isValidStrength(strength)) {
+    return res.status(400).json({ success: false, error: 'Invalid strength settings' });
+  }
+  if (timeControl !== undefined && !isValidTimeControl(timeControl)) {
+    return res.status(400).json({ success: false, error: 'Invalid time control' });
+  }
+  if (bookPlies !== undefined && !(Number.isInteger(bookPlies) && bookPlies >= 0 && bookPlies <= MAX_BOOK_PLIES)) {
+    return res.status(400).json({ success: false, error: 'Invalid number of book plies' });
+  }
+  if (color !== undefined && !['w', 'b', 'random'].includes(color)) {
+    return res.status(400).json({ success: false, error: 'Invalid color' });
+  }
+  if (startFen !== undefined || moves !== undefined) {
+    try {
+      const imported = new Chess(startFen);
+      (moves || []).forEach(move => imported.move(move));
+      if (imported.isGameOver()) {
+        return res.status(400).json({ success: false, error: 'The imported game is already over' });
+      }
+    } catch {
+      return res.status(400).json({ success: false, error: 'Invalid starting position or moves' });
+    }
+  }
+
+  if (!(await opponentEngine.isAvailable())) {
+    return res.status(503).json({ success: false, error: `${opponentEngine.describe().name} is not available` });
+  }
+
   try {
-    // Store the opponent
-    currentOpponent = opponent;
+    const humanColor: PlayerColor = color === 'random' ? (Math.random() < 0.5 ? 'w' : 'b') : color ?? 'w';
+    const session = createGameSession(opponent, {
+      strength: strength && normalizeStrength(strength),
+      timeControl,
+      bookPlies,
+      humanColor,
+      startFen,
+      moves,
+      userId: req.user ? req.user.userId : null,
+      username: req.user ? req.user.username : null
+    });
+    console.log(`Created game session ${session.id} (depth ${session.strength.depth}, human plays ${humanColor})`);
 
-    // Reset the game state for the specified opponent
-    if (opponent === 'chess_tune') {
-      await axios.post(`${CHESS_TUNE_URL}/init`);
+    try {
+      await opponentEngine.newGame(session);
+    } catch (error) {
+      endGameSession(session.id);
+      throw error;
     }
-    // Add any other opponent-specific reset logic here
 
-    // Reset the Stockfish engine
-    await engine.ucinewgame();
-
-    res.json({ success: true, message: `New game started with ${opponent}` });
+    res.json({ success: true, message: `New game started with ${opponent}`, gameId: session.id, color: humanColor });
   } catch (error) {
     console.error('Error starting new game:', error);
     res.status(500).json({ success: false, error: 'Failed to start new game' });
   }
 });
 
-// Add a route to end the game and reset the opponent
-app.post('/api/end_game', (req, res) => {
-  currentOpponent = null;
-  res.json({ success: true, message: 'Game ended and opponent reset' });
+// End a game and release its session; a rated game still in progress is lost by abandonment
+app.post<{}, EndGameResponse, EndGameRequest>('/api/end_game', identifyUser, async (req: any, res) => {
+  const { gameId } = req.body;
+  const session = getGameSession(gameId);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Unknown game' });
+  }
+  const denied = checkSessionOwner(session, req.user);
+  if (denied) {
+    return res.status(denied.status).json({ success: false, error: denied.error });
+  }
+  endGameSession(gameId);
+  await abandonEngineGame(session);
+  res.json({ success: true, message: 'Game ended' });
+});
+
+/**
+ * Get the state of a running engine game, so a reloaded client can carry on.
+ * GET /api/game_state/:id
+ */
+app.get<{ id: string }, GameStateResponse>('/api/game_state/:id', identifyUser, (req: any, res) => {
+  const session = getGameSession(req.params.id);
+  if (!session) {
+    return res.status(404).json({ success: false, error: 'Unknown game' });
+  }
+  const denied = checkSessionOwner(session, req.user);
+  if (denied) {
+    return res.status(denied.status).json({ success: false, error: denied.error });
+  }
+  res.json({
+    success: true,
+    state: {
+      gameId: session.id,
+      opponent: session.opponent,
+      color: session.humanColor,
+      startFen: session.startFen,
+      moves: session.chess.history(),
+      status: session.status,
+      timeControl: session.timeControl,
+      opening: getSessionOpening(session)
+    }
+  });
+});
+
+/**
+ * List the finished games of the logged-in user, newest first.
+ * GET /api/games
+ */
+app.get('/api/games', authenticateToken, async (req: any, res) => {
+  try {
+    const games = await getGames(req.user.userId);
+    res.json({ success: true, games });
+  } catch (error) {
+    console.error('Error fetching games:', error);
+    res.status(500).json({ success: false, error: 'Error fetching games' });
+  }
+});
+
+/**
+ * Get the rating history of the logged-in user, oldest first.
+ * GET /api/rating-history
+ */
+app.get('/api/rating-history', authenticateToken, async (req: any, res) => {
+  try {
+    const history = await getRatingHistory(req.user.userId);
+    res.json({ success: true, history });
+  } catch (error) {
+    console.error('Error fetching rating history:', error);
+    res.status(500).json({ success: false, error: 'Error fetching rating history' });
+  }
+});
+
+/**
+ * Get one finished game, including its PGN. Only the players may see it.
+ * GET /api/games/:id
+ */
+app.get('/api/games/:id', authenticateToken, async (req: any, res) => {
+  const gameId = parseInt(req.params.id, 10);
+  if (isNaN(gameId)) {
+    return res.status(400).json({ success: false, error: 'Invalid game id' });
+  }
+
+  try {
+    const game = await getGame(gameId);
+    if (!game || (game.white_player_id !== req.user.userId && game.black_player_id !== req.user.userId)) {
+      return res.status(404).json({ success: false, error: 'Game not found' });
+    }
+    const chat = await getChatMessages(gameId);
+    res.json({ success: true, game, chat });
+  } catch (error) {
+    console.error('Error fetching game:', error);
+    res.status(500).json({ success: false, error: 'Error fetching game' });
+  }
+});
+
+/**
+ * The unsolved puzzle closest to the user's puzzle rating.
+ * GET /api/puzzles/next
+ */
+app.get('/api/puzzles/next', authenticateToken, async (req: any, res) => {
+  try {
+    const user = await getUserById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const puzzleRating: number = user.puzzle_rating ?? DEFAULT_PUZZLE_RATING;
+    const puzzle = await getNextPuzzle(user.id, puzzleRating);
+    const response: NextPuzzleResponse = { puzzle: puzzle ? getPuzzleForSolver(puzzle) : null, puzzleRating };
+    res.json(response);
+  } catch (error) {
+    console.error('Error fetching the next puzzle:', error);
+    res.status(500).json({ error: 'Failed to fetch a puzzle' });
+  }
+});
+
+/**
+ * Check the solver's latest move. A wrong move is answered with the
+ * engine's refutation. The first attempt at each puzzle is recorded with
+ * its first move and rated once it is over.
+ * POST /api/puzzles/:id/move
+ */
+app.post('/api/puzzles/:id/move', authenticateToken, async (req: any, res) => {
+  const { moves } = req.body as PuzzleMoveRequest;
+  if (!Array.isArray(moves) || !moves.every(move => typeof move === 'string')) {
+    return res.status(400).json({ error: 'Moves are required' });
+  }
+  try {
+    const puzzle = await getPuzzle(parseInt(req.params.id, 10));
+    if (!puzzle) {
+      return res.status(404).json({ error: 'Unknown puzzle' });
+    }
+    const verdict = await judgePuzzleMove(puzzle, moves, searchStockfishCandidates);
+    if (!verdict) {
+      return res.status(400).json({ error: 'The moves do not continue the puzzle' });
+    }
+    // Does nothing after the first move, or if the user attempted the puzzle before
+    await addPuzzleAttempt(req.user.userId, puzzle.id);
+
+    let response: PuzzleMoveResponse;
+    if (verdict.result === 'correct') {
+      response = verdict;
+    } else {
+      const ratingChange = await ratePuzzleAttempt(req.user.userId, puzzle, verdict.result === 'solved');
+      response = { ...verdict, ratingChange };
+    }
+    res.json(response);
+  } catch (error) {
+    console.error('Error checking puzzle move:', error);
+    res.status(500).json({ error: 'Failed to check the move' });
+  }
 });
 
 app.get('/api/user', authenticateToken, async (req: any, res) => {
@@ -564,50 +1316,125 @@ app.get('/api/user', authenticateToken, async (req: any, res) => {
   }
 });
 
+/**
+ * Parse a WebSocket message, or return null if it is not a JSON object.
+ */
+function parseWebSocketMessage(message: string): WebSocketMessage | null {
+  try {
+    const data = JSON.parse(message);
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Connections must log in with an access token in their first message, and
+ * every message after that acts as the user of the token. A connection is
+ * closed when its token expires unless a fresh one was sent in time.
+ */
 wss.on('connection', (ws: WebSocket) => {
   const userId = uuidv4();
   let username: string | null = null;
+  let tokenExpiryTimer: NodeJS.Timeout | null = null;
 
   console.log(`New WebSocket connection established. UserId: ${userId}`);
 
   ws.on('message', (message: string) => {
-    console.log(`Received message: ${message}`);
-    const data: WebSocketMessage = JSON.parse(message);
-    if (data.type === 'login' && typeof data.username === 'string') {
-      console.log(`User logging in: ${data.username}`);
+    const data = parseWebSocketMessage(message);
+    if (!data) {
+      console.log(`Closing connection ${userId}: received a message that is not a JSON object`);
+      ws.close(WS_CLOSE_UNSUPPORTED_DATA, 'Malformed message');
+      return;
+    }
+    // Login messages carry the access token, which stays out of the log
+    console.log(data.type === 'login' ? `Received login on connection ${userId}` : `Received message: ${message}`);
+    if (data.type === 'login') {
+      const payload = verifyAccessToken(data.token);
+      if (!payload || (username && payload.username !== username)) {
+        ws.close(WS_CLOSE_UNAUTHORIZED, 'Invalid token');
+        return;
+      }
+      const expiresInMs = payload.exp * 1000 - Date.now();
+      if (tokenExpiryTimer) clearTimeout(tokenExpiryTimer);
+      tokenExpiryTimer = setTimeout(() => {
+        console.log(`Access token of ${payload.username} expired, closing connection ${userId}`);
+        ws.close(WS_CLOSE_UNAUTHORIZED, 'Token expired');
+      }, Math.min(expiresInMs, 0x7fffffff));
+      ws.send(JSON.stringify({ type: 'login_accepted', expiresInMs } as WebSocketMessage));
+      if (username) {
+        console.log(`Token refreshed for ${username}`);
+        return;
+      }
+
+      const loggedInUsername = payload.username;
+      console.log(`User logging in: ${loggedInUsername}`);
       // Remove any existing entries for this user
       Object.keys(onlineUsers).forEach(key => {
-        if (onlineUsers[key].username === data.username) {
-          console.log(`Removing existing user: ${data.username}`);
+        if (onlineUsers[key].username === loggedInUsername) {
+          console.log(`Removing existing user: ${loggedInUsername}`);
           delete onlineUsers[key];
-          delete wsClients[data.username];
+          delete wsClients[loggedInUsername];
         }
       });
-      username = data.username;
-      onlineUsers[userId] = { id: userId, username: data.username };
+      username = loggedInUsername;
+      onlineUsers[userId] = { id: userId, username };
       wsClients[username] = ws;
       console.log(`Added user to online users: ${JSON.stringify(onlineUsers[userId])}`);
+      // Also sends the list of online users to the newly logged-in client
       broadcastOnlineUsers();
-    } else if (data.type === 'challenge' && data.from && data.to) {
-      console.log(`Challenge from ${data.from} to ${data.to}`);
+      ws.send(JSON.stringify({ type: 'live_games', games: getLiveGames() } as WebSocketMessage));
+      resumeMultiplayerGame(username, ws);
+    } else if (!username) {
+      console.log(`Closing connection ${userId}: ${data.type} sent before logging in`);
+      ws.close(WS_CLOSE_UNAUTHORIZED, 'Not logged in');
+    } else if (data.type === 'challenge' && data.to) {
+      console.log(`Challenge from ${username} to ${data.to}`);
+      const timeControl = data.timeControl || null;
+      if (timeControl && !isValidTimeControl(timeControl)) {
+        console.log(`Ignoring challenge with invalid time control: ${JSON.stringify(timeControl)}`);
+        return;
+      }
+      const refusal = getChallengeRefusal(username, data.to);
+      if (refusal) {
+        refuseChallenge(ws, data.to, refusal);
+        return;
+      }
       const targetWs = wsClients[data.to];
       if (targetWs && targetWs.readyState === WebSocket.OPEN) {
+        pendingChallenges[`${username}:${data.to}`] = { timeControl, sentAt: Date.now() };
         const challengeReceived: WebSocketMessage = {
           type: 'challenge_received',
-          from: data.from
+          from: username,
+          timeControl
         };
         targetWs.send(JSON.stringify(challengeReceived));
         console.log(`Sent challenge_received to ${data.to}`);
       } else {
-        console.log(`User ${data.to} is not online`);
+        refuseChallenge(ws, data.to, `${data.to} is not online`);
+      }
+    } else if (data.type === 'challenge_response' && data.to !== undefined) {
+      console.log(`Challenge response from ${username} to ${data.to}: ${data.accepted}`);
+      const challengeKey = `${data.to}:${username}`;
+      const challenge = pendingChallenges[challengeKey];
+      delete pendingChallenges[challengeKey];
+      if (!challenge || Date.now() - challenge.sentAt > CHALLENGE_TIMEOUT_MS) {
+        if (data.accepted) {
+          refuseChallenge(ws, data.to, `The challenge from ${data.to} is no longer open`);
+        }
+        return;
       }
-    } else if (data.type === 'challenge_response' && data.from && data.to !== undefined) {
-      console.log(`Challenge response from ${data.from} to ${data.to}: ${data.accepted}`);
+      const { timeControl } = challenge;
       const challengerWs = wsClients[data.to];
-      if (challengerWs && challengerWs.readyState === WebSocket.OPEN) {
+      // Either player may have started another game since the challenge was sent
+      const refusal = data.accepted ? getChallengeRefusal(username, data.to) : null;
+      if (refusal) {
+        refuseChallenge(ws, data.to, refusal);
+        if (challengerWs) refuseChallenge(challengerWs, username, getChallengeRefusal(data.to, username)!);
+      } else if (challengerWs && challengerWs.readyState === WebSocket.OPEN) {
         const challengeResponse: WebSocketMessage = {
           type: 'challenge_response',
-          from: data.from,
+          from: username,
           to: data.to,
           accepted: data.accepted
         };
@@ -615,48 +1442,345 @@ wss.on('connection', (ws: WebSocket) => {
         console.log(`Sent challenge_response to ${data.to}`);
 
         if (data.accepted) {
-          const startGame: WebSocketMessage = {
+          const game = createMultiplayerGame(data.to, username, timeControl);
+          const startFor = (player: string): WebSocketMessage => ({
             type: 'start_game',
-            opponent: data.from
-          };
-          challengerWs.send(JSON.stringify(startGame));
-          ws.send(JSON.stringify(startGame));
-          console.log(`Started game between ${data.from} and ${data.to}`);
+            opponent: getOpponentName(game, player),
+            gameId: game.id,
+            color: getPlayerColor(game, player)!,
+            fen: game.chess.fen(),
+            timeControl
+          });
+          challengerWs.send(JSON.stringify(startFor(data.to)));
+          ws.send(JSON.stringify(startFor(username)));
+          console.log(`Started game ${game.id} between ${username} and ${data.to}`);
+          broadcastLiveGames();
         }
       } else {
         console.log(`Challenger ${data.to} is not online`);
       }
+    } else if (data.type === 'move' && data.gameId) {
+      const game = getMultiplayerGame(data.gameId);
+      if (!game || !username) {
+        const rejected: WebSocketMessage = { type: 'move_rejected', gameId: data.gameId, reason: 'Unknown game' };
+        ws.send(JSON.stringify(rejected));
+        return;
+      }
+
+      console.log(`Move in game ${game.id} from ${username}: ${data.from}-${data.to}`);
+      const outcome = applyMultiplayerMove(game, username, data);
+      if ('error' in outcome) {
+        console.log(`Rejected move from ${username}: ${outcome.error}`);
+        const rejected: WebSocketMessage = { type: 'move_rejected', gameId: game.id, reason: outcome.error };
+        ws.send(JSON.stringify(rejected));
+        if (game.status !== 'active') {
+          // The mover lost on time
+          broadcastGameState(game);
+          endMultiplayerGame(game);
+        } else {
+          // Resync the sender with the authoritative position
+          ws.send(JSON.stringify({ type: 'game_state', state: getMultiplayerGameState(game) } as WebSocketMessage));
+        }
+        return;
+      }
+
+      broadcastGameState(game);
+      if (game.status !== 'active') {
+        endMultiplayerGame(game);
+      } else {
+        scheduleFlagCheck(game);
+      }
+    } else if (data.type === 'watch_match' && data.matchId) {
+      const match = getMatch(data.matchId);
+      if (!match) {
+        return;
+      }
+      (matchWatchers[match.id] = matchWatchers[match.id] || new Set()).add(ws);
+      ws.send(JSON.stringify({ type: 'match_update', match: getMatchProgress(match) } as WebSocketMessage));
+    } else if (data.type === 'unwatch_match' && data.matchId) {
+      const watchers = matchWatchers[data.matchId];
+      if (watchers) {
+        watchers.delete(ws);
+      }
+    } else if (data.type === 'chat_message' && data.gameId) {
+      const game = getMultiplayerGame(data.gameId);
+      if (!game || !username) {
+        const rejected: WebSocketMessage = { type: 'chat_message_rejected', gameId: data.gameId, reason: 'Unknown game' };
+        ws.send(JSON.stringify(rejected));
+        return;
+      }
+
+      const outcome = postChatMessage(game, username, data.text);
+      if ('error' in outcome) {
+        console.log(`Rejected chat message from ${username}: ${outcome.error}`);
+        const rejected: WebSocketMessage = { type: 'chat_message_rejected', gameId: game.id, reason: outcome.error };
+        ws.send(JSON.stringify(rejected));
+        return;
+      }
+      // Only the players see the chat, not spectators
+      const received: WebSocketMessage = { type: 'chat_message_received', gameId: game.id, message: outcome.message };
+      [game.white, game.black].forEach((player) => {
+        const client = wsClients[player];
+        if (client && client.readyState === WebSocket.OPEN) {
+          client.send(JSON.stringify(received));
+        }
+      });
+    } else if (data.type === 'watch' && data.gameId) {
+      const game = getMultiplayerGame(data.gameId);
+      if (!game) {
+        return;
+      }
+      (gameWatchers[game.id] = gameWatchers[game.id] || new Set()).add(ws);
+      ws.send(JSON.stringify({ type: 'spectator_state', state: getMultiplayerGameState(game) } as WebSocketMessage));
+      console.log(`${username || userId} is watching game ${game.id}`);
+      broadcastLiveGames();
+    } else if (data.type === 'unwatch' && data.gameId) {
+      const watchers = gameWatchers[data.gameId];
+      if (watchers && watchers.delete(ws)) {
+        broadcastLiveGames();
+      }
+    } else if (data.type === 'resign' && data.gameId) {
+      const game = getMultiplayerGame(data.gameId);
+      if (!game || !username) {
+        return;
+      }
+
+      const error = resignMultiplayerGame(game, username);
+      if (error) {
+        console.log(`Rejected resignation from ${username}: ${error}`);
+        return;
+      }
+      console.log(`${username} resigned game ${game.id}`);
+      broadcastGameState(game);
+      endMultiplayerGame(game);
     }
   });
 
   ws.on('close', () => {
     console.log(`WebSocket connection closed. UserId: ${userId}`);
-    if (username) {
+    if (tokenExpiryTimer) clearTimeout(tokenExpiryTimer);
+    Object.values(matchWatchers).forEach(watchers => watchers.delete(ws));
+    let watchedGames = 0;
+    Object.values(gameWatchers).forEach((watchers) => {
+      if (watchers.delete(ws)) watchedGames++;
+    });
+    if (watchedGames > 0) {
+      broadcastLiveGames();
+    }
+    // A user who already logged in again on a new connection stays online
+    if (username && wsClients[username] === ws) {
       console.log(`Removing user from online users: ${username}`);
-      delete onlineUsers[username];
+      delete onlineUsers[userId];
       delete wsClients[username];
+      dropPendingChallenges(username);
       broadcastOnlineUsers();
+      startDisconnectGrace(username);
     }
   });
-
-  // Send the initial list of online users to the newly connected client
-  ws.send(JSON.stringify({ type: 'onlineUsers', users: Object.values(onlineUsers) }));
 });
 
+/**
+ * Why two players cannot start a game now, from the point of view of the first.
+ *
+ * @returns The reason to refuse a challenge with, or null if they can play
+ */
+function getChallengeRefusal(player: string, opponent: string): string | null {
+  if (player === opponent) return 'You cannot challenge yourself';
+  if (findActiveMultiplayerGame(player)) return 'Finish your current game first';
+  if (findActiveMultiplayerGame(opponent)) return `${opponent} is already playing a game`;
+  return null;
+}
+
+function refuseChallenge(ws: WebSocket, opponent: string, reason: string) {
+  console.log(`Refusing challenge with ${opponent}: ${reason}`);
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({ type: 'challenge_refused', opponent, reason } as WebSocketMessage));
+  }
+}
+
+/**
+ * Drop the challenges a user sent or received, e.g. when they go offline.
+ */
+function dropPendingChallenges(username: string) {
+  Object.keys(pendingChallenges).forEach((key) => {
+    if (key.split(':').includes(username)) {
+      delete pendingChallenges[key];
+    }
+  });
+}
+
+/**
+ * Drop challenges that can no longer be accepted.
+ */
+function sweepPendingChallenges() {
+  const cutoff = Date.now() - CHALLENGE_TIMEOUT_MS;
+  Object.keys(pendingChallenges).forEach((key) => {
+    if (pendingChallenges[key].sentAt < cutoff) {
+      delete pendingChallenges[key];
+    }
+  });
+}
+
 function broadcastOnlineUsers() {
   // Use a Set to ensure unique usernames
   const uniqueUsers = new Set(Object.values(onlineUsers).map(user => JSON.stringify(user)));
   const users = Array.from(uniqueUsers).map(user => JSON.parse(user));
   console.log(`Broadcasting online users: ${JSON.stringify(users)}`);
   const message = JSON.stringify({ type: 'onlineUsers', users });
-  wss.clients.forEach((client) => {
+  // Only logged-in connections see who is online
+  Object.values(wsClients).forEach((client) => {
     if (client.readyState === WebSocket.OPEN) {
       client.send(message);
     }
   });
 }
 
-initializeDatabase().then(() => {
+function getLiveGames() {
+  return listActiveMultiplayerGames().map(game => getLiveGameSummary(game, gameWatchers[game.id] ? gameWatchers[game.id].size : 0));
+}
+
+/**
+ * Send the running multiplayer games and their watcher counts to every
+ * logged-in client, whenever a game starts or ends or a spectator comes or goes.
+ */
+function broadcastLiveGames() {
+  const message = JSON.stringify({ type: 'live_games', games: getLiveGames() } as WebSocketMessage);
+  Object.values(wsClients).forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+}
+
+function sendToPlayer(player: string, message: WebSocketMessage) {
+  const client = wsClients[player];
+  if (client && client.readyState === WebSocket.OPEN) {
+    client.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Give a player who dropped out of a running game time to reconnect
+ * before they forfeit it, and tell their opponent.
+ */
+function startDisconnectGrace(username: string) {
+  const game = findActiveMultiplayerGame(username);
+  if (!game) return;
+  console.log(`${username} disconnected from game ${game.id}`);
+  sendToPlayer(getOpponentName(game, username), { type: 'opponent_disconnected', gameId: game.id, graceMs: DISCONNECT_GRACE_MS });
+  clearTimeout(disconnectTimers[username]);
+  disconnectTimers[username] = setTimeout(() => {
+    delete disconnectTimers[username];
+    if (abandonMultiplayerGame(game, username)) {
+      console.log(`${username} did not reconnect and forfeits game ${game.id}`);
+      broadcastGameState(game);
+      endMultiplayerGame(game);
+    }
+  }, DISCONNECT_GRACE_MS);
+}
+
+/**
+ * Send a player who logs in again the state of the game they are still
+ * playing, and call off their forfeit.
+ */
+function resumeMultiplayerGame(username: string, ws: WebSocket) {
+  const game = findActiveMultiplayerGame(username);
+  if (!game) return;
+  const wasDisconnected = username in disconnectTimers;
+  clearTimeout(disconnectTimers[username]);
+  delete disconnectTimers[username];
+
+  console.log(`${username} resumed game ${game.id}`);
+  const resume: WebSocketMessage = {
+    type: 'resume_game',
+    opponent: getOpponentName(game, username),
+    color: getPlayerColor(game, username)!,
+    state: getMultiplayerGameState(game)
+  };
+  ws.send(JSON.stringify(resume));
+  if (wasDisconnected) {
+    sendToPlayer(getOpponentName(game, username), { type: 'opponent_reconnected', gameId: game.id });
+  }
+}
+
+/**
+ * Arrange for the game to end on time if the side to move does not move
+ * before their clock runs out.
+ */
+function scheduleFlagCheck(game: MultiplayerGame) {
+  clearTimeout(flagTimers[game.id]);
+  if (!game.clock || !game.clock.running) return;
+
+  // setTimeout cannot wait longer than ~24 days; long correspondence waits just check again
+  const delay = Math.min(getRemainingMs(game.clock, game.clock.running) + 50, 0x7fffffff);
+  flagTimers[game.id] = setTimeout(() => {
+    delete flagTimers[game.id];
+    if (checkMultiplayerFlag(game)) {
+      console.log(`Flag fell in game ${game.id}`);
+      broadcastGameState(game);
+      endMultiplayerGame(game);
+    } else {
+      scheduleFlagCheck(game);
+    }
+  }, delay);
+}
+
+/**
+ * Record a finished multiplayer game and drop it from the registry.
+ */
+function endMultiplayerGame(game: MultiplayerGame) {
+  console.log(`Game ${game.id} finished: ${game.status}`);
+  clearTimeout(flagTimers[game.id]);
+  delete flagTimers[game.id];
+  removeMultiplayerGame(game.id);
+  delete gameWatchers[game.id];
+  broadcastLiveGames();
+  finishMultiplayerGame(game).catch((error) => {
+    console.error(`Failed to record game ${game.id}:`, error);
+  });
+}
+
+/**
+ * Send the authoritative state of a multiplayer game to both players and
+ * to everyone watching it.
+ */
+function broadcastGameState(game: MultiplayerGame) {
+  const state = getMultiplayerGameState(game);
+  const message = JSON.stringify({ type: 'game_state', state } as WebSocketMessage);
+  [game.white, game.black].forEach((player) => {
+    const client = wsClients[player];
+    if (client && client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+  const watchers = gameWatchers[game.id];
+  if (!watchers) return;
+  const spectatorMessage = JSON.stringify({ type: 'spectator_state', state } as WebSocketMessage);
+  watchers.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(spectatorMessage);
+    }
+  });
+}
+
+/**
+ * Send the latest state of a match to everyone watching it.
+ */
+function broadcastMatchUpdate(match: Match) {
+  const watchers = matchWatchers[match.id];
+  if (!watchers) return;
+  const message = JSON.stringify({ type: 'match_update', match: getMatchProgress(match) } as WebSocketMessage);
+  watchers.forEach((client) => {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(message);
+    }
+  });
+  if (match.status !== 'running') {
+    delete matchWatchers[match.id];
+  }
+}
+
+initializeDatabase(config.databaseFile).then(() => {
   console.log('Database initialized');
 }).catch(err => {
   console.error('Failed to initialize database:', err);
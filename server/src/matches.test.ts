@@ -0,0 +1,66 @@
+import { getMatchStanding, parseOpening } from './matches';
+import { GameResult, MatchGameSummary } from '../../shared/types';
+
+jest.mock('./opponents', () => ({ getOpponent: jest.fn() }));
+jest.mock('./gameRecords', () => ({ getPositionOutcome: jest.fn(), recordFinishedGame: jest.fn() }));
+jest.mock('./database/models/User', () => ({ getUserById: jest.fn(), updateElo: jest.fn() }));
+jest.mock('./database/models/RatingHistory', () => ({ addRatingHistory: jest.fn(), countRatedGames: jest.fn() }));
+
+/**
+ * Games of a match between "A" and "B" that alternate colors, starting with A as White.
+ */
+function playGames(results: GameResult[]): MatchGameSummary[] {
+  return results.map((result, i) => ({
+    round: i + 1,
+    white: i % 2 === 0 ? 'A' : 'B',
+    black: i % 2 === 0 ? 'B' : 'A',
+    result,
+    termination: result === '1/2-1/2' ? 'threefold_repetition' : 'checkmate',
+    recordedGameId: null
+  }));
+}
+
+describe('getMatchStanding', () => {
+  test('counts wins with either color', () => {
+    const standing = getMatchStanding(playGames(['1-0', '0-1', '1/2-1/2', '1-0']), 'A');
+    expect(standing).toMatchObject({ wins: 2, draws: 1, losses: 1, score: 2.5 });
+  });
+
+  test('estimates the Elo difference from the score', () => {
+    const standing = getMatchStanding(playGames(['1-0', '1/2-1/2', '1-0', '1/2-1/2', '0-1', '1/2-1/2']), 'A');
+    expect(standing.score).toBe(3.5);
+    expect(standing.eloDifference).toBe(58);
+  });
+
+  test('has no estimate without games or for a clean sweep', () => {
+    expect(getMatchStanding([], 'A')).toEqual({ wins: 0, draws: 0, losses: 0, score: 0, eloDifference: null, errorMargin: null });
+    expect(getMatchStanding(playGames(['1-0', '0-1']), 'A').eloDifference).toBeNull();
+  });
+
+  test('gives an error margin once the spread allows one', () => {
+    const results: GameResult[] = [];
+    for (let i = 0; i < 20; i++) results.push('1-0', '0-1', '1-0', '1-0');
+    const standing = getMatchStanding(playGames(results), 'A');
+    expect(standing.eloDifference).toBeGreaterThan(0);
+    expect(standing.errorMargin).toBeGreaterThan(0);
+  });
+});
+
+describe('parseOpening', () => {
+  test('reads move text', () => {
+    expect(parseOpening('1. e4 e5 2. Nf3')).toEqual({
+      fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
+      moves: ['e4', 'e5', 'Nf3']
+    });
+  });
+
+  test('reads a FEN', () => {
+    const fen = 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2';
+    expect(parseOpening(fen)).toEqual({ fen, moves: [] });
+  });
+
+  test('rejects finished games and text that is neither', () => {
+    expect(parseOpening('1. f3 e5 2. g4 Qh4#')).toBeNull();
+    expect(parseOpening('not an opening')).toBeNull();
+  });
+});
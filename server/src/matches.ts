@@ -0,0 +1,280 @@
+import { Chess } from 'chess.js';
+import { v4 as uuidv4 } from 'uuid';
+import { EngineStrength, MatchGameSummary, MatchParticipant, MatchProgress, MatchStanding, PlayerColor } from '../../shared/types';
+import { GameSession, DEFAULT_SEARCH_DEPTH, createGameSession, endGameSession } from './gameSessions';
+import { GameOutcome, getPositionOutcome, recordFinishedGame } from './gameRecords';
+import { OpponentEngine, getOpponent } from './opponents';
+import { getRatingDifference } from './ratings';
+
+/**
+ * A starting position of a match game: a FEN and the moves played from it.
+ */
+export interface MatchOpening {
+  fen: string;
+  moves: string[];
+}
+
+interface MatchEngine {
+  participant: MatchParticipant;
+  opponent: OpponentEngine;
+  name: string;
+}
+
+/**
+ * A series of games between two opponents, played in the background.
+ * Clients poll GET /api/matches/:id or watch it over the WebSocket.
+ */
+export interface Match {
+  id: string;
+  // The user who started the match; only they can stop it
+  ownerId: number;
+  engines: [MatchEngine, MatchEngine];
+  totalGames: number;
+  openings: MatchOpening[];
+  status: MatchProgress['status'];
+  games: MatchGameSummary[];
+  currentGame: MatchProgress['currentGame'];
+  stopRequested: boolean;
+  error?: string;
+  createdAt: Date;
+}
+
+export type MatchListener = (match: Match) => void;
+
+// Two-sided 95% confidence
+const CONFIDENCE_Z = 1.96;
+
+// In-memory registry of matches, keyed by match id
+const matches: { [matchId: string]: Match } = {};
+
+/**
+ * Read an opening given either as a FEN or as move text.
+ *
+ * @returns The opening, or null if the text is neither or the game is already over
+ */
+export function parseOpening(text: string): MatchOpening | null {
+  const chess = new Chess();
+  try {
+    chess.load(text.trim());
+  } catch {
+    try {
+      chess.loadPgn(text.trim());
+    } catch {
+      return null;
+    }
+  }
+  if (chess.isGameOver()) return null;
+  const moves = chess.history();
+  while (chess.undo()) {
+    // Back to the position the moves were played from
+  }
+  return { fen: chess.fen(), moves };
+}
+
+/**
+ * The name of a participant in results, e.g. "Stockfish (depth 8, Elo 1700)".
+ */
+function describeParticipant(opponent: OpponentEngine, strength: EngineStrength): string {
+  const info = opponent.describe();
+  if (!info.supportsDepth) return info.name;
+  const limits = [`depth ${strength.depth}`];
+  if (strength.skillLevel !== undefined) limits.push(`skill ${strength.skillLevel}`);
+  if (strength.elo !== undefined) limits.push(`Elo ${strength.elo}`);
+  if (strength.movetimeMs !== undefined) limits.push(`${strength.movetimeMs}ms`);
+  if (strength.nodes !== undefined) limits.push(`${strength.nodes} nodes`);
+  return `${info.name} (${limits.join(', ')})`;
+}
+
+/**
+ * Set up a match without starting it. The participants must be registered opponents.
+ */
+export function createMatch(participants: [MatchParticipant, MatchParticipant], totalGames: number, openings: MatchOpening[], ownerId: number): Match {
+  const engines = participants.map((participant) => {
+    const opponent = getOpponent(participant.opponent);
+    if (!opponent) throw new Error(`Unknown opponent ${participant.opponent}`);
+    const strength = participant.strength || { depth: DEFAULT_SEARCH_DEPTH };
+    return { participant: { ...participant, strength }, opponent, name: describeParticipant(opponent, strength) };
+  }) as [MatchEngine, MatchEngine];
+  // Tell identical participants apart
+  if (engines[0].name === engines[1].name) {
+    engines[0].name += ' #1';
+    engines[1].name += ' #2';
+  }
+
+  const match: Match = {
+    id: uuidv4(),
+    ownerId,
+    engines,
+    totalGames,
+    openings: openings.length > 0 ? openings : [{ fen: new Chess().fen(), moves: [] }],
+    status: 'running',
+    games: [],
+    currentGame: null,
+    stopRequested: false,
+    createdAt: new Date()
+  };
+  matches[match.id] = match;
+  return match;
+}
+
+export function getMatch(matchId: string): Match | undefined {
+  return matches[matchId];
+}
+
+export function countRunningMatches(): number {
+  return Object.values(matches).filter(match => match.status === 'running').length;
+}
+
+/**
+ * Ask a running match to stop; the game in progress is abandoned.
+ */
+export function stopMatch(match: Match) {
+  match.stopRequested = true;
+}
+
+/**
+ * The score of the first engine with its Elo difference and a 95%
+ * confidence margin from the spread of the game results.
+ */
+export function getMatchStanding(games: MatchGameSummary[], firstEngineName: string): MatchStanding {
+  const points: number[] = games.map((game) => {
+    if (game.result === '1/2-1/2') return 0.5;
+    const winner = game.result === '1-0' ? game.white : game.black;
+    return winner === firstEngineName ? 1 : 0;
+  });
+  const wins = points.filter(p => p === 1).length;
+  const draws = points.filter(p => p === 0.5).length;
+  const score = wins + draws / 2;
+  const standing: MatchStanding = { wins, draws, losses: points.length - wins - draws, score, eloDifference: null, errorMargin: null };
+
+  const n = points.length;
+  const mean = n > 0 ? score / n : 0;
+  if (mean <= 0 || mean >= 1) return standing;
+  standing.eloDifference = Math.round(getRatingDifference(mean));
+
+  const variance = points.reduce((sum, p) => sum + (p - mean) * (p - mean), 0) / n;
+  const delta = CONFIDENCE_Z * Math.sqrt(variance / n);
+  if (mean - delta > 0 && mean + delta < 1) {
+    standing.errorMargin = Math.round((getRatingDifference(mean + delta) - getRatingDifference(mean - delta)) / 2);
+  }
+  return standing;
+}
+
+export function getMatchProgress(match: Match): MatchProgress {
+  return {
+    matchId: match.id,
+    status: match.status,
+    engines: [match.engines[0].name, match.engines[1].name],
+    totalGames: match.totalGames,
+    games: match.games,
+    standing: getMatchStanding(match.games, match.engines[0].name),
+    currentGame: match.currentGame,
+    ...(match.error && { error: match.error })
+  };
+}
+
+/**
+ * Play one game of a match. Each engine gets a session of its own, which
+ * is how engines see the game; both sessions are kept at the same position.
+ *
+ * @returns The finished game and its outcome, or null if the match was stopped during the game
+ */
+async function playGame(match: Match, round: number, opening: MatchOpening, white: MatchEngine, black: MatchEngine, onUpdate: MatchListener): Promise<{ game: Chess; outcome: GameOutcome } | null> {
+  const createSession = (engine: MatchEngine, engineColor: PlayerColor) => createGameSession(engine.participant.opponent, {
+    strength: engine.participant.strength,
+    humanColor: engineColor === 'w' ? 'b' : 'w',
+    startFen: opening.fen,
+    moves: opening.moves
+  });
+  const sides: { [color in PlayerColor]: { engine: MatchEngine; session: GameSession } } = {
+    w: { engine: white, session: createSession(white, 'w') },
+    b: { engine: black, session: createSession(black, 'b') }
+  };
+  const game = sides.w.session.chess;
+
+  try {
+    await white.opponent.newGame(sides.w.session);
+    await black.opponent.newGame(sides.b.session);
+
+    let outcome = getPositionOutcome(game);
+    while (!outcome && !match.stopRequested) {
+      const mover = sides[game.turn()];
+      const waiting = sides[game.turn() === 'w' ? 'b' : 'w'];
+      const { move } = await mover.engine.opponent.getMove(mover.session);
+      const san = mover.session.chess.move(move).san;
+      waiting.session.chess.move(san);
+      await waiting.engine.opponent.applyMove(waiting.session, san);
+
+      match.currentGame = { round, white: white.name, black: black.name, fen: game.fen(), moves: game.history() };
+      onUpdate(match);
+      outcome = getPositionOutcome(game);
+    }
+    return outcome ? { game, outcome } : null;
+  } finally {
+    endGameSession(sides.w.session.id);
+    endGameSession(sides.b.session.id);
+  }
+}
+
+/**
+ * Play all games of a match one after another, alternating colors. Every
+ * opening is played twice in a row, once with either engine as White.
+ * Finished games are stored in the games table. Failures are stored on
+ * the match rather than thrown.
+ */
+export async function runMatch(match: Match, onUpdate: MatchListener) {
+  try {
+    for (let round = 1; round <= match.totalGames && !match.stopRequested; round++) {
+      const opening = match.openings[Math.floor((round - 1) / 2) % match.openings.length];
+      const [white, black] = round % 2 === 1 ? match.engines : [match.engines[1], match.engines[0]];
+      match.currentGame = { round, white: white.name, black: black.name, fen: opening.fen, moves: [] };
+      onUpdate(match);
+
+      const startedAt = new Date();
+      const played = await playGame(match, round, opening, white, black, onUpdate);
+      if (!played) break;
+
+      const { game, outcome } = played;
+      let recordedGameId: number | null = null;
+      try {
+        recordedGameId = await recordFinishedGame({
+          chess: game,
+          startFen: opening.fen,
+          white: { id: null, name: white.name },
+          black: { id: null, name: black.name },
+          opponentType: 'match',
+          engineDepth: null,
+          timeControl: null,
+          outcome,
+          startedAt,
+          event: `StockMate Chess engine match ${match.engines[0].name} vs ${match.engines[1].name}`,
+          round
+        });
+      } catch (error) {
+        console.error(`Failed to record game ${round} of match ${match.id}:`, error);
+      }
+      match.games.push({ round, white: white.name, black: black.name, result: outcome.result, termination: outcome.termination, recordedGameId });
+      onUpdate(match);
+    }
+    match.status = match.stopRequested ? 'stopped' : 'done';
+    console.log(`Match ${match.id} finished after ${match.games.length} games`);
+  } catch (error) {
+    console.error(`Match ${match.id} failed:`, error);
+    match.status = 'failed';
+    match.error = error instanceof Error ? error.message : 'The match could not be played';
+  }
+  match.currentGame = null;
+  onUpdate(match);
+}
+
+/**
+ * Drop matches that finished a while ago.
+ */
+export function sweepMatches(maxAgeMs: number) {
+  const cutoff = Date.now() - maxAgeMs;
+  Object.values(matches).forEach((match) => {
+    if (match.status !== 'running' && match.createdAt.getTime() < cutoff) {
+      delete matches[match.id];
+    }
+  });
+}
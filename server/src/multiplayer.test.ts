@@ -0,0 +1,89 @@
+import {
+  abandonMultiplayerGame,
+  applyMultiplayerMove,
+  checkMultiplayerFlag,
+  createMultiplayerGame,
+  findActiveMultiplayerGame,
+  getOpponentName,
+  getPlayerColor,
+  resignMultiplayerGame
+} from './multiplayer';
+
+jest.mock('./database/models/Game', () => ({ addGame: jest.fn() }));
+
+describe('multiplayer game registry', () => {
+  test('gives each player a color and finds their running game', () => {
+    const game = createMultiplayerGame('alice', 'bob');
+
+    expect([game.white, game.black].sort()).toEqual(['alice', 'bob']);
+    expect(getPlayerColor(game, game.white)).toBe('w');
+    expect(getPlayerColor(game, game.black)).toBe('b');
+    expect(getPlayerColor(game, 'eve')).toBeNull();
+    expect(getOpponentName(game, 'alice')).toBe('bob');
+    expect(findActiveMultiplayerGame('alice')).toBe(game);
+    expect(findActiveMultiplayerGame('bob')).toBe(game);
+    expect(findActiveMultiplayerGame('eve')).toBeUndefined();
+  });
+
+  test('forgets games once they are over', () => {
+    const game = createMultiplayerGame('carol', 'dave');
+    resignMultiplayerGame(game, 'carol');
+    expect(findActiveMultiplayerGame('carol')).toBeUndefined();
+  });
+});
+
+describe('applyMultiplayerMove', () => {
+  test('only lets the player to move make a legal move', () => {
+    const game = createMultiplayerGame('erin', 'frank');
+
+    expect(applyMultiplayerMove(game, 'eve', { from: 'e2', to: 'e4' })).toEqual({ error: 'You are not a player in this game' });
+    expect(applyMultiplayerMove(game, game.black, { from: 'e7', to: 'e5' })).toEqual({ error: 'It is not your turn' });
+    expect(applyMultiplayerMove(game, game.white, { from: 'e2', to: 'e5' })).toEqual({ error: 'Illegal move' });
+    expect(applyMultiplayerMove(game, game.white, { from: 'e2', to: 'e4' })).toMatchObject({ move: { san: 'e4' } });
+    expect(game.chess.turn()).toBe('b');
+  });
+
+  test('ends the game on checkmate', () => {
+    const game = createMultiplayerGame('gina', 'hank');
+    const moves = [['f2', 'f3'], ['e7', 'e5'], ['g2', 'g4'], ['d8', 'h4']];
+    moves.forEach(([from, to], i) => applyMultiplayerMove(game, i % 2 === 0 ? game.white : game.black, { from, to }));
+
+    expect(game.status).toBe('checkmate');
+    expect(game.outcome).toMatchObject({ result: '0-1' });
+    expect(applyMultiplayerMove(game, game.white, { from: 'a2', to: 'a3' })).toEqual({ error: 'Game is already over' });
+  });
+});
+
+describe('ending a game', () => {
+  test('scores a resignation against the player who resigned', () => {
+    const game = createMultiplayerGame('ivan', 'judy');
+
+    expect(resignMultiplayerGame(game, 'eve')).toBe('You are not a player in this game');
+    expect(resignMultiplayerGame(game, game.white)).toBeNull();
+    expect(game.outcome).toMatchObject({ result: '0-1' });
+    expect(resignMultiplayerGame(game, game.black)).toBe('Game is already over');
+  });
+
+  test('scores an abandoned game against the player who left', () => {
+    const game = createMultiplayerGame('kate', 'liam');
+
+    expect(abandonMultiplayerGame(game, 'eve')).toBe(false);
+    expect(abandonMultiplayerGame(game, game.black)).toBe(true);
+    expect(game.status).toBe('abandoned');
+    expect(game.outcome).toMatchObject({ result: '1-0' });
+  });
+
+  test('ends a timed game when the side to move runs out of time', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const game = createMultiplayerGame('mia', 'noah', { type: 'clock', initialSeconds: 60, incrementSeconds: 0 });
+    applyMultiplayerMove(game, game.white, { from: 'e2', to: 'e4' });
+
+    now.mockReturnValue(30000);
+    expect(checkMultiplayerFlag(game)).toBe(false);
+    now.mockReturnValue(61000);
+    expect(applyMultiplayerMove(game, game.black, { from: 'e7', to: 'e5' })).toEqual({ error: 'Time forfeit' });
+    expect(game.status).toBe('timeout');
+    expect(game.outcome).toMatchObject({ result: '1-0' });
+    now.mockRestore();
+  });
+});
@@ -0,0 +1,214 @@
+import { Chess, Move } from 'chess.js';
+import { v4 as uuidv4 } from 'uuid';
+import { ChatMessage, PlayerColor, GameStatus, LiveGameSummary, MultiplayerGameState, TimeControl } from '../../shared/types';
+import { GameOutcome, getAbandonmentOutcome, getPositionOutcome, getResignationOutcome, getTimeoutOutcome } from './gameRecords';
+import { GameClock, createClock, getClockSnapshot, getFlaggedColor, pressClock, stopClock } from './clock';
+import { identifyOpening } from './openings';
+
+/**
+ * A human-vs-human game session. The server holds the authoritative
+ * Chess instance; clients only ever render the state we broadcast.
+ */
+export interface MultiplayerGame {
+  id: string;
+  white: string;
+  black: string;
+  chess: Chess;
+  startFen: string;
+  status: GameStatus;
+  outcome: GameOutcome | null;
+  // Null for untimed games
+  clock: GameClock | null;
+  // The players' chat, stored with the game once it is over
+  chat: ChatMessage[];
+  createdAt: Date;
+}
+
+// In-memory registry of running multiplayer games, keyed by game id
+const multiplayerGames: { [gameId: string]: MultiplayerGame } = {};
+
+/**
+ * Create a new game between two players, assigning colors at random.
+ */
+export function createMultiplayerGame(playerA: string, playerB: string, timeControl: TimeControl | null = null): MultiplayerGame {
+  const [white, black] = Math.random() < 0.5 ? [playerA, playerB] : [playerB, playerA];
+  const chess = new Chess();
+  const game: MultiplayerGame = {
+    id: uuidv4(),
+    white,
+    black,
+    chess,
+    startFen: chess.fen(),
+    status: 'active',
+    outcome: null,
+    clock: timeControl ? createClock(timeControl) : null,
+    chat: [],
+    createdAt: new Date()
+  };
+  multiplayerGames[game.id] = game;
+  console.log(`Created multiplayer game ${game.id}: ${white} (white) vs ${black} (black)`);
+  return game;
+}
+
+export function getMultiplayerGame(gameId: string): MultiplayerGame | undefined {
+  return multiplayerGames[gameId];
+}
+
+export function removeMultiplayerGame(gameId: string) {
+  delete multiplayerGames[gameId];
+}
+
+/**
+ * The running game the user plays in, if any.
+ */
+export function findActiveMultiplayerGame(username: string): MultiplayerGame | undefined {
+  return Object.values(multiplayerGames).find(game => game.status === 'active' && getPlayerColor(game, username) !== null);
+}
+
+/**
+ * The games still being played, oldest first.
+ */
+export function listActiveMultiplayerGames(): MultiplayerGame[] {
+  return Object.values(multiplayerGames)
+    .filter(game => game.status === 'active')
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Return the color the given user plays in a game, or null if they are not a player.
+ */
+export function getPlayerColor(game: MultiplayerGame, username: string): PlayerColor | null {
+  if (game.white === username) return 'w';
+  if (game.black === username) return 'b';
+  return null;
+}
+
+export function getOpponentName(game: MultiplayerGame, username: string): string {
+  return game.white === username ? game.black : game.white;
+}
+
+/**
+ * Validate and apply a move sent by a player.
+ *
+ * @returns The applied move, or an error describing why the move was rejected
+ */
+export function applyMultiplayerMove(
+  game: MultiplayerGame,
+  username: string,
+  move: { from: string; to: string; promotion?: string }
+): { move: Move } | { error: string } {
+  if (game.status !== 'active') {
+    return { error: 'Game is already over' };
+  }
+
+  const color = getPlayerColor(game, username);
+  if (!color) {
+    return { error: 'You are not a player in this game' };
+  }
+  if (game.chess.turn() !== color) {
+    return { error: 'It is not your turn' };
+  }
+  // A move that arrives after the flag fell does not count
+  if (checkMultiplayerFlag(game)) {
+    return { error: 'Time forfeit' };
+  }
+
+  try {
+    const result = game.chess.move(move);
+    if (!result) {
+      return { error: 'Illegal move' };
+    }
+    if (game.clock) {
+      pressClock(game.clock, color);
+    }
+    game.outcome = getPositionOutcome(game.chess);
+    if (game.outcome) {
+      game.status = game.outcome.termination === 'checkmate' ? 'checkmate' : 'draw';
+      if (game.clock) stopClock(game.clock);
+    }
+    return { move: result };
+  } catch {
+    return { error: 'Illegal move' };
+  }
+}
+
+/**
+ * End the game with a resignation by the given player.
+ *
+ * @returns An error if the player cannot resign this game, otherwise null
+ */
+export function resignMultiplayerGame(game: MultiplayerGame, username: string): string | null {
+  if (game.status !== 'active') {
+    return 'Game is already over';
+  }
+  const color = getPlayerColor(game, username);
+  if (!color) {
+    return 'You are not a player in this game';
+  }
+  game.status = 'resigned';
+  game.outcome = getResignationOutcome(color);
+  if (game.clock) stopClock(game.clock);
+  return null;
+}
+
+/**
+ * End the game as lost by a player who disconnected and did not come back in time.
+ *
+ * @returns Whether the game was ended
+ */
+export function abandonMultiplayerGame(game: MultiplayerGame, username: string): boolean {
+  const color = getPlayerColor(game, username);
+  if (game.status !== 'active' || !color) {
+    return false;
+  }
+  game.status = 'abandoned';
+  game.outcome = getAbandonmentOutcome(color);
+  if (game.clock) stopClock(game.clock);
+  return true;
+}
+
+/**
+ * End the game on time if the side to move has run out of it.
+ *
+ * @returns Whether the game was ended
+ */
+export function checkMultiplayerFlag(game: MultiplayerGame): boolean {
+  if (game.status !== 'active' || !game.clock) {
+    return false;
+  }
+  const flagged = getFlaggedColor(game.clock);
+  if (!flagged) {
+    return false;
+  }
+  stopClock(game.clock);
+  game.status = 'timeout';
+  game.outcome = getTimeoutOutcome(flagged);
+  return true;
+}
+
+export function getMultiplayerGameState(game: MultiplayerGame): MultiplayerGameState {
+  return {
+    gameId: game.id,
+    white: game.white,
+    black: game.black,
+    fen: game.chess.fen(),
+    moves: game.chess.history(),
+    turn: game.chess.turn(),
+    status: game.status,
+    result: game.outcome ? game.outcome.result : null,
+    timeControl: game.clock ? game.clock.timeControl : null,
+    clock: game.clock ? getClockSnapshot(game.clock) : null,
+    opening: identifyOpening(game.startFen, game.chess.history())
+  };
+}
+
+export function getLiveGameSummary(game: MultiplayerGame, watchers: number): LiveGameSummary {
+  return {
+    gameId: game.id,
+    white: game.white,
+    black: game.black,
+    timeControl: game.clock ? game.clock.timeControl : null,
+    watchers,
+    startedAt: game.createdAt.toISOString()
+  };
+}
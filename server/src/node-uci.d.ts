@@ -1,6 +1,31 @@
 declare module 'node-uci' {
+  import { EventEmitter } from 'events';
+
+  export interface GoOptions {
+    depth?: number;
+    nodes?: number;
+    movetime?: number;
+    infinite?: boolean;
+  }
+
+  export interface GoResult {
+    bestmove: string;
+    ponder?: string;
+    info: Array<object | string>;
+  }
+
   export class Engine {
-    // Add any methods or properties you use from the Engine class
+    constructor(filePath: string);
+    init(): Promise<Engine>;
+    isready(): Promise<Engine>;
+    setoption(name: string, value?: string): Promise<Engine>;
+    ucinewgame(): Promise<Engine>;
+    position(fen: string, moves?: string[]): Promise<Engine>;
+    go(options: GoOptions): Promise<GoResult>;
+    // Emits 'data' events with info objects or the bestmove string until stop() is called
+    goInfinite(options?: GoOptions): EventEmitter;
+    stop(): Promise<GoResult>;
+    quit(): Promise<Engine>;
   }
   // Add any other exports from node-uci that you use
 }
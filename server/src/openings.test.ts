@@ -0,0 +1,58 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { getBookMove, identifyOpening, loadOpenings } from './openings';
+
+const ECO_LINES = [
+  'eco\tname\tpgn',
+  'C20\tKing\'s Pawn Game\t1. e4 e5',
+  'C44\tKing\'s Knight Opening: Normal Variation\t1. e4 e5 2. Nf3 Nc6',
+  'C60\tRuy Lopez\t1. e4 e5 2. Nf3 Nc6 3. Bb5',
+  'A40\tQueen\'s Pawn Game\t1. d4',
+  'X00\tBroken line\t1. e4 e4'
+];
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'openings-'));
+  const filePath = path.join(dir, 'eco.tsv');
+  fs.writeFileSync(filePath, ECO_LINES.join('\n'));
+  expect(loadOpenings(filePath)).toBe(4);
+  fs.rmSync(dir, { recursive: true });
+});
+
+describe('identifyOpening', () => {
+  test('names the most specific opening reached', () => {
+    expect(identifyOpening(DEFAULT_POSITION, ['e4', 'e5', 'Nf3', 'Nc6', 'Bb5', 'a6'])).toEqual({ eco: 'C60', name: 'Ruy Lopez' });
+    expect(identifyOpening(DEFAULT_POSITION, ['e4', 'e5', 'Nf3'])).toEqual({ eco: 'C20', name: 'King\'s Pawn Game' });
+  });
+
+  test('recognizes transpositions', () => {
+    expect(identifyOpening(DEFAULT_POSITION, ['Nf3', 'Nc6', 'e4', 'e5'])).toEqual({
+      eco: 'C44',
+      name: 'King\'s Knight Opening: Normal Variation'
+    });
+  });
+
+  test('names nothing outside the book', () => {
+    expect(identifyOpening(DEFAULT_POSITION, ['a3'])).toBeNull();
+    expect(loadOpenings('/nonexistent/eco.tsv')).toBe(0);
+  });
+});
+
+describe('getBookMove', () => {
+  test('continues a book line', () => {
+    const chess = new Chess();
+    chess.move('e4');
+    expect(getBookMove(chess)).toBe('e5');
+    expect(['e4', 'd4']).toContain(getBookMove(new Chess()));
+  });
+
+  test('returns null once the game has left the book', () => {
+    const chess = new Chess();
+    chess.move('h4');
+    expect(getBookMove(chess)).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import { Chess } from 'chess.js';
+import { OpeningInfo } from '../../shared/types';
+
+/**
+ * The named positions of the ECO database and the moves its lines continue
+ * with. Positions are keyed without the move counters, so openings are
+ * recognized after transpositions too.
+ */
+interface OpeningBook {
+  openings: { [position: string]: OpeningInfo };
+  continuations: { [position: string]: string[] }; // SAN
+  // Length of the longest line; later positions are never looked up
+  maxPlies: number;
+}
+
+const openingBook: OpeningBook = { openings: {}, continuations: {}, maxPlies: 0 };
+
+function getPositionKey(chess: Chess): string {
+  return chess.fen().split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Add one line of the database, e.g. "1. e4 e5 2. Nf3". When lines end in
+ * the same position, the first one keeps its name.
+ */
+function addLine(opening: OpeningInfo, pgn: string) {
+  const chess = new Chess();
+  const moves = pgn.split(/\s+/).filter(token => token && !/^\d+\.+$/.test(token));
+  moves.forEach((san) => {
+    const key = getPositionKey(chess);
+    const played = chess.move(san).san;
+    const continuations = openingBook.continuations[key] || (openingBook.continuations[key] = []);
+    if (!continuations.includes(played)) continuations.push(played);
+  });
+  const key = getPositionKey(chess);
+  if (!openingBook.openings[key]) openingBook.openings[key] = opening;
+  openingBook.maxPlies = Math.max(openingBook.maxPlies, moves.length);
+}
+
+/**
+ * Load the ECO database from a tab-separated file with "eco", "name" and
+ * "pgn" columns, the format of the lichess chess-openings files. Lines
+ * that do not parse are skipped.
+ *
+ * @returns The number of openings loaded
+ */
+export function loadOpenings(filePath: string): number {
+  if (!fs.existsSync(filePath)) {
+    console.log(`No opening database at ${filePath}, openings will not be named`);
+    return 0;
+  }
+  let loaded = 0;
+  fs.readFileSync(filePath, 'utf8').split(/\r?\n/).forEach((line, i) => {
+    const [eco, name, pgn] = line.split('\t');
+    if (!pgn || (i === 0 && eco === 'eco')) return;
+    try {
+      addLine({ eco, name }, pgn);
+      loaded++;
+    } catch {
+      console.error(`Skipping invalid opening on line ${i + 1} of ${filePath}`);
+    }
+  });
+  console.log(`Loaded ${loaded} openings from ${filePath}`);
+  return loaded;
+}
+
+/**
+ * The most specific opening the game has passed through.
+ *
+ * @param moves - SAN moves from startFen
+ * @returns The opening, or null if the game never reached a named position
+ */
+export function identifyOpening(startFen: string, moves: string[]): OpeningInfo | null {
+  const chess = new Chess(startFen);
+  let opening = openingBook.openings[getPositionKey(chess)] || null;
+  for (const move of moves.slice(0, openingBook.maxPlies)) {
+    chess.move(move);
+    opening = openingBook.openings[getPositionKey(chess)] || opening;
+  }
+  return opening;
+}
+
+/**
+ * A random move that continues one of the book lines from the position.
+ *
+ * @returns The move in SAN, or null once the game has left the book
+ */
+export function getBookMove(chess: Chess): string | null {
+  const continuations = openingBook.continuations[getPositionKey(chess)];
+  if (!continuations || continuations.length === 0) return null;
+  return continuations[Math.floor(Math.random() * continuations.length)];
+}
@@ -0,0 +1,132 @@
+import axios from 'axios';
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { OpponentInfo } from '../../../shared/types';
+import { GameSession } from '../gameSessions';
+import { EngineMove, OpponentEngine, OpponentServices } from './opponentEngine';
+
+// Availability checks give up after this long
+const AVAILABILITY_TIMEOUT_MS = 2000;
+
+/**
+ * An opponent behind a web service speaking the ChessTune protocol:
+ * POST /init starts a game, POST /move applies a SAN move and
+ * GET /get_move?fen=... plays the service's reply.
+ *
+ * The service keeps one game of its own, which always starts from the
+ * standard position. Sessions take turns with it: before each request the
+ * service's game is brought in line with the session, starting it over when
+ * it holds another session's game or moves that were taken back.
+ */
+export class HttpOpponent implements OpponentEngine {
+  // The session whose game the service holds, and the moves it has been given
+  private syncedSessionId: string | null = null;
+  private syncedMoves: string[] = [];
+  // Requests of different sessions must not interleave, so they run one after another
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly id: string,
+    private info: Omit<OpponentInfo, 'id' | 'available'>,
+    private url: string,
+    private services: OpponentServices
+  ) {}
+
+  describe() {
+    return { id: this.id, ...this.info };
+  }
+
+  async isAvailable() {
+    try {
+      await axios.get(this.url, { timeout: AVAILABILITY_TIMEOUT_MS });
+      return true;
+    } catch (error) {
+      // Any HTTP answer, even an error status, means the service is up
+      return axios.isAxiosError(error) && error.response !== undefined;
+    }
+  }
+
+  async newGame(session: GameSession) {
+    if (session.startFen !== DEFAULT_POSITION) {
+      throw new Error(`${this.info.name} only plays from the standard starting position`);
+    }
+    await this.exclusive(async () => {
+      this.syncedSessionId = null;
+      await this.sync(session);
+    });
+  }
+
+  async applyMove(session: GameSession) {
+    await this.exclusive(() => this.sync(session));
+  }
+
+  async getMove(session: GameSession): Promise<EngineMove> {
+    const board = session.chess.fen();
+    const data = await this.exclusive(async () => {
+      await this.sync(session);
+      const response = await axios.get(`${this.url}/get_move`, {
+        params: { fen: board }
+      });
+      if (response.data.status === 'ok') {
+        // The service plays its move in its own game
+        this.syncedMoves.push(new Chess(board).move(response.data.move).san);
+      }
+      return response.data;
+    });
+
+    switch (data.status) {
+      case 'game_over':
+        console.log('Game over. Result:', data.result);
+        throw new Error(`Game over: ${data.result}`);
+
+      case 'ok': {
+        console.log(`Move received from ${this.info.name}:`, data.move);
+        const move = new Chess(board).move(data.move);
+        const evaluation = await this.services.evaluate(data.new_fen, session);
+        return { move: { from: move.from, to: move.to, promotion: move.promotion }, evaluation };
+      }
+
+      case 'error':
+        throw new Error(data.message || `Unknown error from ${this.info.name}`);
+
+      default:
+        throw new Error(`Unexpected response from ${this.info.name}`);
+    }
+  }
+
+  /**
+   * Run a task once the tasks queued before it are done. A failed task
+   * leaves the service's game unknown, so the next one starts it over.
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task).catch((error) => {
+      this.syncedSessionId = null;
+      throw error;
+    });
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Bring the service's game in line with the session, sending only the
+   * missing moves when it already holds an earlier state of the same game.
+   */
+  private async sync(session: GameSession) {
+    const history = session.chess.history();
+    const isPrefix = this.syncedMoves.length <= history.length
+      && this.syncedMoves.every((san, i) => san === history[i]);
+    if (this.syncedSessionId !== session.id || !isPrefix) {
+      await axios.post(`${this.url}/init`);
+      this.syncedSessionId = session.id;
+      this.syncedMoves = [];
+    }
+    for (const san of history.slice(this.syncedMoves.length)) {
+      try {
+        await axios.post(`${this.url}/move`, { move: san });
+      } catch (error) {
+        console.error(`Error applying move to ${this.info.name}:`, error);
+        throw error;
+      }
+      this.syncedMoves.push(san);
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import fs from 'fs';
+import { OpponentInfo } from '../../../shared/types';
+import { OpponentConfig, OpponentEngine, OpponentServices } from './opponentEngine';
+import { UciOpponent, createLazyPool } from './uciOpponent';
+import { HttpOpponent } from './httpOpponent';
+import { RandomOpponent } from './randomOpponent';
+
+export { EngineMove, OpponentConfig, OpponentEngine, OpponentServices } from './opponentEngine';
+
+// Used when there is no config file
+const DEFAULT_OPPONENTS: OpponentConfig[] = [
+  { id: 'stockfish', type: 'stockfish', name: 'Stockfish', description: 'The Stockfish engine, at the chosen strength' },
+  { id: 'chess_tune', type: 'http', name: 'ChessTune', description: 'An external chess AI service', url: 'http://127.0.0.1:5000' },
+  { id: 'random', type: 'random', name: 'Random Mover', description: 'Plays a random legal move' }
+];
+
+// In-memory registry of opponents in config order, keyed by opponent id
+const opponents: { [opponentId: string]: OpponentEngine } = {};
+
+export function registerOpponent(opponent: OpponentEngine) {
+  if (opponents[opponent.id]) {
+    throw new Error(`Opponent ${opponent.id} is already registered`);
+  }
+  opponents[opponent.id] = opponent;
+}
+
+export function getOpponent(opponentId: string | undefined): OpponentEngine | undefined {
+  return opponentId ? opponents[opponentId] : undefined;
+}
+
+/**
+ * Describe every registered opponent, checking which ones can play right now.
+ */
+export async function listOpponents(): Promise<OpponentInfo[]> {
+  return Promise.all(Object.values(opponents).map(async (opponent) => {
+    const available = await opponent.isAvailable().catch(() => false);
+    return { ...opponent.describe(), available };
+  }));
+}
+
+function createOpponent(config: OpponentConfig, services: OpponentServices): OpponentEngine {
+  const info = { name: config.name, description: config.description || '' };
+  switch (config.type) {
+    case 'stockfish':
+      return new UciOpponent(config.id, { ...info, supportsDepth: true }, async () => services.getStockfishPool());
+    case 'uci': {
+      if (!config.path) throw new Error('A UCI opponent needs the path of its binary');
+      const options: { [name: string]: string } = {};
+      Object.entries(config.options || {}).forEach(([name, value]) => { options[name] = String(value); });
+      return new UciOpponent(config.id, { ...info, supportsDepth: true }, createLazyPool(config.path, options));
+    }
+    case 'http':
+      if (!config.url) throw new Error('An HTTP opponent needs the url of its service');
+      return new HttpOpponent(config.id, { ...info, supportsDepth: false }, config.url.replace(/\/$/, ''), services);
+    case 'random':
+      return new RandomOpponent(config.id, { ...info, supportsDepth: false }, services);
+    default:
+      throw new Error(`Unknown opponent type ${(config as { type: string }).type}`);
+  }
+}
+
+function readConfig(configPath: string): OpponentConfig[] {
+  if (!fs.existsSync(configPath)) {
+    console.log(`No opponents config at ${configPath}, using the default opponents`);
+    return DEFAULT_OPPONENTS;
+  }
+  try {
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    if (!Array.isArray(config.opponents)) {
+      throw new Error('Expected an "opponents" array');
+    }
+    return config.opponents;
+  } catch (error) {
+    console.error(`Invalid opponents config ${configPath}, using the default opponents:`, error);
+    return DEFAULT_OPPONENTS;
+  }
+}
+
+/**
+ * Register the opponents listed in a config file. Entries that cannot be
+ * set up are logged and skipped.
+ *
+ * The file holds `{ "opponents": [...] }` with one entry per opponent, e.g.
+ * `{ "id": "lc0", "type": "uci", "name": "Leela", "path": "/usr/bin/lc0" }`.
+ *
+ * @param urls - Service URLs keyed by opponent id, replacing the url of HTTP opponents
+ */
+export function loadOpponents(configPath: string, services: OpponentServices, urls: { [opponentId: string]: string } = {}) {
+  readConfig(configPath).forEach((config) => {
+    try {
+      if (!config.id || !config.name || config.id === 'human') {
+        throw new Error('Every opponent needs a name and an id other than "human"');
+      }
+      const url = urls[config.id];
+      registerOpponent(createOpponent(config.type === 'http' && url ? { ...config, url } : config, services));
+    } catch (error) {
+      console.error(`Skipping opponent ${config.id}:`, error);
+    }
+  });
+  console.log(`Opponents: ${Object.keys(opponents).join(', ')}`);
+}
@@ -0,0 +1,51 @@
+import { Evaluation, OpponentInfo, SuccessfulGetMoveResponse } from '../../../shared/types';
+import { GameSession } from '../gameSessions';
+import { StockfishPool } from '../stockfishPool';
+
+/**
+ * An engine the player can choose to play against. The game session holds
+ * the authoritative position; engines that keep their own copy of the game
+ * are told about every move.
+ */
+export interface OpponentEngine {
+  readonly id: string;
+  describe(): Omit<OpponentInfo, 'available'>;
+  isAvailable(): Promise<boolean>;
+  // Called once the session is created, with any imported moves already played
+  newGame(session: GameSession): Promise<void>;
+  // Called after the player's move has been applied to the session
+  applyMove(session: GameSession, san: string): Promise<void>;
+  // The engine's reply in the current position of the session
+  getMove(session: GameSession): Promise<EngineMove>;
+}
+
+/**
+ * An engine's reply; the server adds the opening before sending it on.
+ */
+export type EngineMove = Omit<SuccessfulGetMoveResponse, 'opening'>;
+
+/**
+ * One entry of the opponents config file.
+ */
+export type OpponentConfig = {
+  id: string;
+  name: string;
+  description?: string;
+} & (
+  // The Stockfish pool that is also used for analysis
+  | { type: 'stockfish' }
+  // Any other UCI engine, started on first use
+  | { type: 'uci'; path: string; options?: { [name: string]: string | number | boolean } }
+  // A web service speaking the ChessTune protocol
+  | { type: 'http'; url: string }
+  | { type: 'random' }
+);
+
+/**
+ * What the server shares with the opponents. Engines that do not evaluate
+ * positions themselves report Stockfish's evaluation.
+ */
+export interface OpponentServices {
+  getStockfishPool: () => StockfishPool | null;
+  evaluate: (board: string, session: GameSession) => Promise<Evaluation>;
+}
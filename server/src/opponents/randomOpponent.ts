@@ -0,0 +1,43 @@
+import { Chess } from 'chess.js';
+import { OpponentInfo } from '../../../shared/types';
+import { GameSession } from '../gameSessions';
+import { EngineMove, OpponentEngine, OpponentServices } from './opponentEngine';
+
+/**
+ * An opponent that plays a random legal move, for beginners and for testing.
+ */
+export class RandomOpponent implements OpponentEngine {
+  constructor(
+    readonly id: string,
+    private info: Omit<OpponentInfo, 'id' | 'available'>,
+    private services: OpponentServices
+  ) {}
+
+  describe() {
+    return { id: this.id, ...this.info };
+  }
+
+  async isAvailable() {
+    return true;
+  }
+
+  async newGame() {
+    // Nothing to set up
+  }
+
+  async applyMove() {
+    // Every move is picked from the session's position
+  }
+
+  async getMove(session: GameSession): Promise<EngineMove> {
+    const moves = session.chess.moves({ verbose: true });
+    if (moves.length === 0) {
+      throw new Error('No legal moves');
+    }
+    const move = moves[Math.floor(Math.random() * moves.length)];
+    const after = new Chess(session.chess.fen());
+    after.move(move);
+    const evaluation = await this.services.evaluate(after.fen(), session);
+    return { move: { from: move.from, to: move.to, promotion: move.promotion }, evaluation };
+  }
+}
@@ -0,0 +1,80 @@
+import { Chess } from 'chess.js';
+import { OpponentInfo } from '../../../shared/types';
+import { GameSession } from '../gameSessions';
+import { StockfishPool, searchPosition } from '../stockfishPool';
+import { getBookMove } from '../openings';
+import { EngineMove, OpponentEngine } from './opponentEngine';
+
+/**
+ * An opponent that searches with a UCI engine at the strength set for the game.
+ * The engine's own score is reported as the evaluation. Within the book plies
+ * of the game it plays a random book move without searching, and reports no
+ * evaluation for it.
+ */
+export class UciOpponent implements OpponentEngine {
+  /**
+   * @param getPool - The engines to search with, or null while none are running
+   */
+  constructor(
+    readonly id: string,
+    private info: Omit<OpponentInfo, 'id' | 'available'>,
+    private getPool: () => Promise<StockfishPool | null>
+  ) {}
+
+  describe() {
+    return { id: this.id, ...this.info };
+  }
+
+  async isAvailable() {
+    return (await this.getPool()) !== null;
+  }
+
+  async newGame() {
+    // The pool sends ucinewgame when a process switches games
+  }
+
+  async applyMove() {
+    // The full position is sent with every search
+  }
+
+  async getMove(session: GameSession): Promise<EngineMove> {
+    const board = session.chess.fen();
+    const bookMove = session.chess.history().length < session.bookPlies ? getBookMove(session.chess) : null;
+    if (bookMove) {
+      const move = new Chess(board).move(bookMove);
+      return { move: { from: move.from, to: move.to, promotion: move.promotion }, evaluation: null };
+    }
+
+    const pool = await this.getPool();
+    if (!pool) {
+      throw new Error(`${this.info.name} is not available`);
+    }
+    const { bestMove, evaluation } = await searchPosition(pool, board, session.id, session.strength);
+    const move = new Chess(board).move(bestMove);
+    if (!move) {
+      throw new Error(`Invalid move suggested by ${this.info.name}`);
+    }
+    return { move: { from: move.from, to: move.to, promotion: move.promotion }, evaluation };
+  }
+}
+
+/**
+ * Start a single-process pool for a UCI binary the first time it is needed.
+ * A failed start is retried on the next call.
+ */
+export function createLazyPool(path: string, options: { [name: string]: string }): () => Promise<StockfishPool | null> {
+  let starting: Promise<StockfishPool | null> | null = null;
+  return () => {
+    if (!starting) {
+      const pool = new StockfishPool(path, 1, options);
+      starting = pool.init()
+        .then(() => pool)
+        .catch((error) => {
+          console.error(`Failed to start the engine ${path}:`, error);
+          starting = null;
+          return null;
+        });
+    }
+    return starting;
+  };
+}
@@ -0,0 +1,106 @@
+import { judgePuzzleMove, ratePuzzleAttempt, scanGamesForPuzzles } from './puzzles';
+import { PuzzleRecord, countPuzzleAttempts, finishPuzzleAttempt, setPuzzleRating } from './database/models/Puzzle';
+import { getUserById, updatePuzzleRating } from './database/models/User';
+import { getGamesToScanForPuzzles, markGameScannedForPuzzles } from './database/models/Game';
+import { CandidateMove } from './stockfishPool';
+import { GameRecord } from '../../shared/types';
+
+jest.mock('./database/models/Puzzle', () => ({
+  addPuzzle: jest.fn(),
+  countPuzzleAttempts: jest.fn(),
+  finishPuzzleAttempt: jest.fn(),
+  setPuzzleRating: jest.fn()
+}));
+jest.mock('./database/models/User', () => ({ getUserById: jest.fn(), updatePuzzleRating: jest.fn(), updateElo: jest.fn() }));
+jest.mock('./database/models/Game', () => ({ getGamesToScanForPuzzles: jest.fn(), markGameScannedForPuzzles: jest.fn() }));
+jest.mock('./database/models/RatingHistory', () => ({ addRatingHistory: jest.fn(), countRatedGames: jest.fn() }));
+
+// White to move: Ra8 lures the rook away from the back rank, then Re8 mates
+const puzzle: PuzzleRecord = {
+  id: 7,
+  game_id: null,
+  ply: 30,
+  fen: '4r1k1/5ppp/8/8/8/8/5PPP/R3R1K1 w - - 0 1',
+  moves: 'a1a8 e8a8 e1e8',
+  rating: 1500,
+  attempts: 0,
+  created_at: '2024-01-01 00:00:00'
+};
+
+const noSearch = jest.fn(async (): Promise<CandidateMove[]> => []);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('judgePuzzleMove', () => {
+  test('answers a correct move with the reply', async () => {
+    expect(await judgePuzzleMove(puzzle, ['a1a8'], noSearch)).toEqual({ result: 'correct', reply: 'e8a8' });
+  });
+
+  test('solves the puzzle with the last move of the solution', async () => {
+    expect(await judgePuzzleMove(puzzle, ['a1a8', 'e8a8', 'e1e8'], noSearch)).toEqual({ result: 'solved' });
+  });
+
+  test('accepts any mate', async () => {
+    expect(await judgePuzzleMove(puzzle, ['e1e8'], noSearch)).toEqual({ result: 'solved' });
+  });
+
+  test('shows the refutation and the solution after a wrong move', async () => {
+    const search = jest.fn(async (): Promise<CandidateMove[]> => [
+      { pv: ['e8e1'], evaluation: { type: 'mate', value: -1, perspective: 'w' } }
+    ]);
+
+    const verdict = await judgePuzzleMove(puzzle, ['a1a7'], search);
+
+    expect(verdict).toEqual({ result: 'failed', refutation: ['e8e1'], solution: ['a1a8', 'e8a8', 'e1e8'] });
+    expect(search).toHaveBeenCalledWith('4r1k1/R4ppp/8/8/8/8/5PPP/4R1K1 b - - 1 1', expect.any(Number), 1);
+  });
+
+  test('ignores moves that do not continue the puzzle', async () => {
+    expect(await judgePuzzleMove(puzzle, [], noSearch)).toBeNull();
+    expect(await judgePuzzleMove(puzzle, ['a1a8', 'e8a8'], noSearch)).toBeNull();
+    expect(await judgePuzzleMove(puzzle, ['a1a2', 'e8a8', 'e1e8'], noSearch)).toBeNull();
+    expect(await judgePuzzleMove(puzzle, ['h1h8'], noSearch)).toBeNull();
+  });
+});
+
+describe('ratePuzzleAttempt', () => {
+  beforeEach(() => {
+    (getUserById as jest.Mock).mockResolvedValue({ id: 1, username: 'solver', puzzle_rating: 1500 });
+    (countPuzzleAttempts as jest.Mock).mockResolvedValue(0);
+  });
+
+  test('rates the first attempt like a game against the puzzle', async () => {
+    (finishPuzzleAttempt as jest.Mock).mockResolvedValue(true);
+
+    expect(await ratePuzzleAttempt(1, puzzle, true)).toEqual({ oldRating: 1500, newRating: 1520 });
+    expect(finishPuzzleAttempt).toHaveBeenCalledWith({ user_id: 1, puzzle_id: 7, solved: true, old_rating: 1500, new_rating: 1520 });
+    expect(updatePuzzleRating).toHaveBeenCalledWith(1, 1520);
+    expect(setPuzzleRating).toHaveBeenCalledWith(7, 1480);
+  });
+
+  test('leaves the ratings alone when the attempt is already finished or was never started', async () => {
+    (finishPuzzleAttempt as jest.Mock).mockResolvedValue(false);
+
+    expect(await ratePuzzleAttempt(1, puzzle, true)).toBeNull();
+    expect(updatePuzzleRating).not.toHaveBeenCalled();
+    expect(setPuzzleRating).not.toHaveBeenCalled();
+  });
+});
+
+describe('scanGamesForPuzzles', () => {
+  test('marks a game that fails to scan and goes on with the next', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const game = { pgn: '1. e4 e5', start_fen: '' } as GameRecord;
+    (getGamesToScanForPuzzles as jest.Mock).mockResolvedValue([{ ...game, id: 1 }, { ...game, id: 2 }]);
+    const search = jest.fn()
+      .mockRejectedValueOnce(new Error('Engine crashed'))
+      .mockResolvedValue([{ pv: ['g1f3'], evaluation: { type: 'cp', value: 20, perspective: 'w' } }]);
+
+    expect(await scanGamesForPuzzles(10, search)).toBe(0);
+    expect(markGameScannedForPuzzles).toHaveBeenCalledWith(1);
+    expect(markGameScannedForPuzzles).toHaveBeenCalledWith(2);
+  });
+});
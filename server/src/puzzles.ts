@@ -0,0 +1,240 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { Evaluation, GameRecord, Puzzle, PuzzleRatingChange } from '../../shared/types';
+import { CandidateMove } from './stockfishPool';
+import { getSideToMove, toCentipawns } from './evaluation';
+import { calculateNewRating } from './ratings';
+import { getGamesToScanForPuzzles, markGameScannedForPuzzles } from './database/models/Game';
+import { getUserById, updatePuzzleRating } from './database/models/User';
+import {
+  NewPuzzleRecord,
+  PuzzleRecord,
+  addPuzzle,
+  countPuzzleAttempts,
+  finishPuzzleAttempt,
+  setPuzzleRating
+} from './database/models/Puzzle';
+
+/**
+ * Ranks the best moves of a position, see searchCandidates.
+ */
+export type CandidateSearch = (fen: string, depth: number, count: number) => Promise<CandidateMove[]>;
+
+/**
+ * The verdict on the solver's latest move.
+ */
+export type PuzzleVerdict =
+  | { result: 'correct'; reply: string }
+  | { result: 'solved' }
+  | { result: 'failed'; refutation: string[]; solution: string[] };
+
+export const DEFAULT_PUZZLE_RATING = 1500;
+
+// A game move that gives away this much may have left a tactic for the opponent
+const MIN_SWING_CP = 200;
+// The solver must be at least this much better after the right move...
+const WINNING_CP = 300;
+// ...and no better than this after the second best one
+const MAX_SECOND_BEST_CP = 100;
+
+const SCAN_DEPTH = 10;
+const SOLVE_DEPTH = 14;
+const MAX_SOLUTION_PLIES = 5;
+const MAX_PUZZLES_PER_GAME = 3;
+// Plies of the engine's line shown after a wrong move
+const REFUTATION_PLIES = 3;
+
+let scanning = false;
+
+function applyUciMove(chess: Chess, uciMove: string) {
+  return chess.move({
+    from: uciMove.slice(0, 2),
+    to: uciMove.slice(2, 4),
+    promotion: uciMove.length > 4 ? uciMove[4] : undefined
+  });
+}
+
+/**
+ * An evaluation in centipawns for the side to move of the position.
+ */
+function getMoverCp(fen: string, evaluation: Evaluation): number {
+  const cp = toCentipawns(evaluation);
+  return getSideToMove(fen) === 'w' ? cp : -cp;
+}
+
+/**
+ * Whether the best move wins and no other move does. Against a mate, only
+ * another mate counts as winning; a forced move is no puzzle at all.
+ */
+function isOnlyWinningMove(fen: string, candidates: CandidateMove[]): boolean {
+  if (candidates.length < 2) return false;
+  const best = getMoverCp(fen, candidates[0].evaluation);
+  const second = getMoverCp(fen, candidates[1].evaluation);
+  if (best < WINNING_CP) return false;
+  if (candidates[0].evaluation.type === 'mate') {
+    return !(candidates[1].evaluation.type === 'mate' && second > 0);
+  }
+  return second <= MAX_SECOND_BEST_CP;
+}
+
+/**
+ * Follow the engine's line from a position for as long as every move of
+ * the solver is the only winning one. The solver always has the last move.
+ *
+ * @returns The solution in UCI, or null if the first move is not the only winning one
+ */
+async function findSolution(fen: string, search: CandidateSearch): Promise<string[] | null> {
+  const chess = new Chess(fen);
+  const solution: string[] = [];
+  while (solution.length < MAX_SOLUTION_PLIES) {
+    const candidates = await search(chess.fen(), SOLVE_DEPTH, 2);
+    if (!isOnlyWinningMove(chess.fen(), candidates)) break;
+    const [move, reply] = candidates[0].pv;
+    applyUciMove(chess, move);
+    solution.push(move);
+    if (chess.isGameOver() || !reply || solution.length + 2 > MAX_SOLUTION_PLIES) break;
+    applyUciMove(chess, reply);
+    solution.push(reply);
+  }
+  if (solution.length % 2 === 0) {
+    // Drop the reply to a move that turned out not to be unique
+    solution.pop();
+  }
+  return solution.length > 0 ? solution : null;
+}
+
+/**
+ * Look for puzzles in a stored game: positions right after a move that gave
+ * away a lot, where the opponent has a single winning continuation.
+ */
+export async function findPuzzlesInGame(game: GameRecord, search: CandidateSearch): Promise<NewPuzzleRecord[]> {
+  const pgnGame = new Chess();
+  pgnGame.loadPgn(game.pgn);
+  const chess = new Chess(game.start_fen || DEFAULT_POSITION);
+  const positions = [chess.fen()];
+  pgnGame.history().forEach((move) => {
+    chess.move(move);
+    positions.push(chess.fen());
+  });
+
+  const evaluations: (Evaluation | null)[] = [];
+  for (const fen of positions) {
+    const candidates = new Chess(fen).isGameOver() ? [] : await search(fen, SCAN_DEPTH, 1);
+    evaluations.push(candidates.length > 0 ? candidates[0].evaluation : null);
+  }
+
+  const puzzles: NewPuzzleRecord[] = [];
+  for (let ply = 1; ply < positions.length && puzzles.length < MAX_PUZZLES_PER_GAME; ply++) {
+    const before = evaluations[ply - 1];
+    const after = evaluations[ply];
+    if (!before || !after) continue;
+    // Both from the point of view of the player who made the move
+    const moverBefore = getMoverCp(positions[ply - 1], before);
+    const moverAfter = -getMoverCp(positions[ply], after);
+    if (moverBefore - moverAfter < MIN_SWING_CP || -moverAfter < WINNING_CP) continue;
+
+    const solution = await findSolution(positions[ply], search);
+    if (solution) {
+      puzzles.push({ game_id: game.id, ply, fen: positions[ply], moves: solution.join(' ') });
+    }
+  }
+  return puzzles;
+}
+
+/**
+ * Search stored games that have not been scanned yet for puzzles. Only one
+ * scan runs at a time. A game that fails to scan is logged and marked as
+ * scanned all the same, so it cannot hold up the games after it.
+ *
+ * @returns The number of puzzles found
+ */
+export async function scanGamesForPuzzles(limit: number, search: CandidateSearch): Promise<number> {
+  if (scanning) return 0;
+  scanning = true;
+  let found = 0;
+  try {
+    const games = await getGamesToScanForPuzzles(limit);
+    for (const game of games) {
+      try {
+        const puzzles = await findPuzzlesInGame(game, search);
+        for (const puzzle of puzzles) {
+          await addPuzzle(puzzle);
+        }
+        found += puzzles.length;
+      } catch (error) {
+        console.error(`Error scanning game ${game.id} for puzzles:`, error);
+      }
+      await markGameScannedForPuzzles(game.id);
+    }
+    if (games.length > 0) {
+      console.log(`Scanned ${games.length} games for puzzles, found ${found}`);
+    }
+  } finally {
+    scanning = false;
+  }
+  return found;
+}
+
+export function getPuzzleForSolver(puzzle: PuzzleRecord): Puzzle {
+  return { id: puzzle.id, fen: puzzle.fen, rating: puzzle.rating, gameId: puzzle.game_id };
+}
+
+/**
+ * Judge the solver's latest move. The moves before it must follow the
+ * solution. Any mate solves the puzzle, even if it is not the stored move.
+ *
+ * @param moves - Every move played from the puzzle position in UCI
+ * @returns The verdict, or null if the moves do not continue the puzzle
+ */
+export async function judgePuzzleMove(puzzle: PuzzleRecord, moves: string[], search: CandidateSearch): Promise<PuzzleVerdict | null> {
+  const solution = puzzle.moves.split(' ');
+  const last = moves.length - 1;
+  // The solver plays the even plies
+  if (last < 0 || last % 2 !== 0 || last >= solution.length) return null;
+  if (moves.slice(0, last).some((move, i) => move !== solution[i])) return null;
+
+  const chess = new Chess(puzzle.fen);
+  try {
+    moves.forEach(move => applyUciMove(chess, move));
+  } catch {
+    return null;
+  }
+
+  if (chess.isCheckmate() || (moves[last] === solution[last] && last === solution.length - 1)) {
+    return { result: 'solved' };
+  }
+  if (moves[last] === solution[last]) {
+    return { result: 'correct', reply: solution[last + 1] };
+  }
+  const candidates = chess.isGameOver() ? [] : await search(chess.fen(), SOLVE_DEPTH, 1);
+  return {
+    result: 'failed',
+    refutation: candidates.length > 0 ? candidates[0].pv.slice(0, REFUTATION_PLIES) : [],
+    solution: solution.slice(last)
+  };
+}
+
+/**
+ * Rate the user's first attempt at a puzzle once it is over. The attempt is
+ * recorded with its first move, so a puzzle given up halfway is not served
+ * again, but only finished attempts are rated. The puzzle's rating moves
+ * the other way, as if the two had played a game. Later attempts are not rated.
+ *
+ * @returns The change of the user's puzzle rating, or null if the attempt is not rated
+ */
+export async function ratePuzzleAttempt(userId: number, puzzle: PuzzleRecord, solved: boolean): Promise<PuzzleRatingChange | null> {
+  const user = await getUserById(userId);
+  if (!user) return null;
+
+  const oldRating: number = user.puzzle_rating ?? DEFAULT_PUZZLE_RATING;
+  const score = solved ? 1 : 0;
+  const newRating = calculateNewRating(oldRating, puzzle.rating, score, await countPuzzleAttempts(userId));
+  const newPuzzleRating = calculateNewRating(puzzle.rating, oldRating, 1 - score, puzzle.attempts);
+
+  // Finished first, so a second request for the same attempt stops before changing any rating
+  const finished = await finishPuzzleAttempt({ user_id: userId, puzzle_id: puzzle.id, solved, old_rating: oldRating, new_rating: newRating });
+  if (!finished) return null;
+  await updatePuzzleRating(userId, newRating);
+  await setPuzzleRating(puzzle.id, newPuzzleRating);
+  console.log(`Puzzle rating of ${user.username}: ${oldRating} -> ${newRating}`);
+  return { oldRating, newRating };
+}
@@ -0,0 +1,56 @@
+import { calculateNewRating, getExpectedScore, getKFactor, getRatingDifference, getStockfishNominalRating } from './ratings';
+
+jest.mock('./database/models/User', () => ({ getUserById: jest.fn(), updateElo: jest.fn() }));
+jest.mock('./database/models/RatingHistory', () => ({ addRatingHistory: jest.fn(), countRatedGames: jest.fn() }));
+
+describe('getStockfishNominalRating', () => {
+  test('rates a depth limit from the depth table', () => {
+    expect(getStockfishNominalRating({ depth: 1 })).toBe(1000);
+    expect(getStockfishNominalRating({ depth: 10 })).toBe(2000);
+    expect(getStockfishNominalRating({ depth: 20 })).toBe(2750);
+  });
+
+  test('uses the Elo limit while the depth allows that strength', () => {
+    expect(getStockfishNominalRating({ depth: 10, elo: 1800 })).toBe(1800);
+    expect(getStockfishNominalRating({ depth: 5, elo: 1800 })).toBeNull();
+  });
+
+  test('leaves engines with other limits unrated', () => {
+    expect(getStockfishNominalRating({ depth: 10, skillLevel: 5 })).toBeNull();
+    expect(getStockfishNominalRating({ depth: 10, movetimeMs: 100 })).toBeNull();
+    expect(getStockfishNominalRating({ depth: 10, nodes: 1000 })).toBeNull();
+    expect(getStockfishNominalRating({ depth: 10, elo: 1800, movetimeMs: 100 })).toBeNull();
+  });
+});
+
+describe('getExpectedScore', () => {
+  test('gives equal players even chances', () => {
+    expect(getExpectedScore(1500, 1500)).toBe(0.5);
+  });
+
+  test('favours the higher rated player', () => {
+    expect(getExpectedScore(1900, 1500)).toBeCloseTo(0.909, 3);
+    expect(getExpectedScore(1500, 1900)).toBeCloseTo(0.091, 3);
+  });
+
+  test('is undone by getRatingDifference', () => {
+    expect(getRatingDifference(getExpectedScore(1700, 1500))).toBeCloseTo(200);
+  });
+});
+
+describe('calculateNewRating', () => {
+  test('moves new players by up to 40 points', () => {
+    expect(getKFactor(0, 1500)).toBe(40);
+    expect(calculateNewRating(1500, 1500, 1, 0)).toBe(1520);
+    expect(calculateNewRating(1500, 1500, 0, 0)).toBe(1480);
+  });
+
+  test('moves established players more slowly', () => {
+    expect(calculateNewRating(1600, 1600, 1, 50)).toBe(1610);
+    expect(calculateNewRating(2400, 2400, 0, 50)).toBe(2395);
+  });
+
+  test('keeps the rating after the expected result', () => {
+    expect(calculateNewRating(1500, 1500, 0.5, 10)).toBe(1500);
+  });
+});
@@ -0,0 +1,138 @@
+import { EngineStrength, GameResult } from '../../shared/types';
+import { getUserById, updateElo } from './database/models/User';
+import { addRatingHistory, countRatedGames } from './database/models/RatingHistory';
+
+/**
+ * One side of a rated game. Humans are looked up by user id; engines
+ * have a fixed nominal rating and are never updated themselves.
+ */
+export interface RatedParticipant {
+  userId: number | null;
+  name: string;
+  nominalRating?: number;
+}
+
+export interface RatingChange {
+  userId: number;
+  username: string;
+  oldRating: number;
+  newRating: number;
+}
+
+// Nominal strength of Stockfish at each search depth, used as the opponent rating
+const STOCKFISH_DEPTH_RATINGS: { [depth: number]: number } = {
+  1: 1000, 2: 1150, 3: 1300, 4: 1400, 5: 1500,
+  6: 1600, 7: 1700, 8: 1800, 9: 1900, 10: 2000,
+  11: 2100, 12: 2200, 13: 2300, 14: 2400, 15: 2500
+};
+
+function getDepthRating(depth: number): number {
+  if (depth < 1) return STOCKFISH_DEPTH_RATINGS[1];
+  if (depth > 15) return STOCKFISH_DEPTH_RATINGS[15] + (depth - 15) * 50;
+  return STOCKFISH_DEPTH_RATINGS[Math.round(depth)];
+}
+
+/**
+ * Nominal rating of Stockfish at a strength, or null if the strength has no
+ * known rating and games against it are unrated. A UCI_Elo limit is the
+ * engine's own calibrated rating, but only while nothing else holds the
+ * engine back further: with a skill level, time or node limit, or a depth
+ * whose rating is below the Elo, the engine plays weaker than its Elo says.
+ * The depth table likewise only holds while no other limit is set.
+ */
+export function getStockfishNominalRating(strength: EngineStrength): number | null {
+  if (strength.skillLevel !== undefined || strength.movetimeMs !== undefined || strength.nodes !== undefined) return null;
+  if (strength.elo !== undefined) {
+    return getDepthRating(strength.depth) >= strength.elo ? strength.elo : null;
+  }
+  return getDepthRating(strength.depth);
+}
+
+/**
+ * The probability of scoring against an opponent, per the Elo formula.
+ */
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+/**
+ * The rating difference that gives an expected score, the inverse of
+ * getExpectedScore. The score must be strictly between 0 and 1.
+ */
+export function getRatingDifference(expectedScore: number): number {
+  return -400 * Math.log10(1 / expectedScore - 1);
+}
+
+/**
+ * FIDE-style K-factor: new players move quickly, established strong players slowly.
+ */
+export function getKFactor(gamesPlayed: number, rating: number): number {
+  if (gamesPlayed < 30) return 40;
+  if (rating >= 2400) return 10;
+  return 20;
+}
+
+export function calculateNewRating(rating: number, opponentRating: number, score: number, gamesPlayed: number): number {
+  const k = getKFactor(gamesPlayed, rating);
+  return Math.round(rating + k * (score - getExpectedScore(rating, opponentRating)));
+}
+
+function getWhiteScore(result: GameResult): number {
+  if (result === '1-0') return 1;
+  if (result === '0-1') return 0;
+  return 0.5;
+}
+
+/**
+ * Update the ratings of the human players of a recorded game and store
+ * the changes in rating_history. Both new ratings are computed from the
+ * ratings before the game.
+ *
+ * @returns The rating change of every human player in the game
+ */
+export async function rateGame(
+  gameId: number,
+  white: RatedParticipant,
+  black: RatedParticipant,
+  result: GameResult
+): Promise<RatingChange[]> {
+  const loadRating = async (participant: RatedParticipant) => {
+    if (participant.userId === null) {
+      return { rating: participant.nominalRating ?? null, gamesPlayed: 0 };
+    }
+    const user = await getUserById(participant.userId);
+    return { rating: user ? user.elo_rating as number : null, gamesPlayed: await countRatedGames(participant.userId) };
+  };
+
+  const [whiteRating, blackRating] = await Promise.all([loadRating(white), loadRating(black)]);
+  if (whiteRating.rating === null || blackRating.rating === null) {
+    console.log(`Game ${gameId} is not rated: a player has no rating`);
+    return [];
+  }
+
+  const whiteScore = getWhiteScore(result);
+  const sides = [
+    { player: white, own: whiteRating, opponent: black, opponentRating: blackRating.rating, score: whiteScore },
+    { player: black, own: blackRating, opponent: white, opponentRating: whiteRating.rating, score: 1 - whiteScore }
+  ];
+
+  const changes: RatingChange[] = [];
+  for (const side of sides) {
+    if (side.player.userId === null || side.own.rating === null) continue;
+
+    const oldRating = side.own.rating;
+    const newRating = calculateNewRating(oldRating, side.opponentRating, side.score, side.own.gamesPlayed);
+    await updateElo(side.player.userId, newRating);
+    await addRatingHistory({
+      user_id: side.player.userId,
+      game_id: gameId,
+      opponent_name: side.opponent.name,
+      opponent_rating: side.opponentRating,
+      old_rating: oldRating,
+      new_rating: newRating
+    });
+    console.log(`Rating of ${side.player.name}: ${oldRating} -> ${newRating}`);
+    changes.push({ userId: side.player.userId, username: side.player.name, oldRating, newRating });
+  }
+  return changes;
+}
@@ -0,0 +1,207 @@
+import os from 'os';
+import { Engine } from 'node-uci';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { PositionEvaluation } from './analysis';
+import { EVEN_EVALUATION, UciScore, getSideToMove, normalizeScore } from './evaluation';
+import { EngineStrength, Evaluation } from '../../shared/types';
+import { getFullStrengthOptions, getGoOptions, getStrengthOptions } from './engineStrength';
+
+const execAsync = promisify(exec);
+
+interface PooledEngine {
+  engine: Engine;
+  // The game this process last searched for, so we know when to send ucinewgame
+  lastGameId: string | null;
+}
+
+/**
+ * Locate the Stockfish binary for the current platform.
+ */
+export async function locateStockfish(): Promise<string> {
+  let enginePath: string;
+
+  if (os.platform() === 'darwin') {
+    // macOS
+    enginePath = '/opt/homebrew/bin/stockfish';
+  } else if (os.platform() === 'linux') {
+    // Linux
+    try {
+      const { stdout } = await execAsync('which stockfish');
+      enginePath = stdout.trim();
+      if (!enginePath) {
+        throw new Error('Stockfish not found in PATH');
+      }
+    } catch {
+      // Fallback to the default path on Ubuntu 22.04
+      enginePath = '/usr/games/stockfish';
+    }
+
+    // Check if the fallback path points to the Stockfish binary
+    try {
+      const { stdout: versionOutput } = await execAsync(`${enginePath} --version`);
+      if (!versionOutput.includes('Stockfish')) {
+        throw new Error('Stockfish not found');
+      }
+    } catch (err) {
+      const error = err as Error;
+      throw new Error('Failed to locate Stockfish: ' + error.message);
+    }
+  } else {
+    throw new Error('Unsupported operating system');
+  }
+
+  return enginePath;
+}
+
+/**
+ * A fixed-size pool of Stockfish processes shared by all game sessions.
+ * Other UCI engines can be pooled the same way.
+ *
+ * Each search borrows a process for its duration; when all processes are
+ * busy, requests wait in FIFO order. A process that switches to a different
+ * game is sent `ucinewgame` first so no hash state leaks between games.
+ */
+export class StockfishPool {
+  private idle: PooledEngine[] = [];
+  private waiting: ((pooled: PooledEngine) => void)[] = [];
+
+  /**
+   * @param options - UCI options set on every process once it has started
+   */
+  constructor(private enginePath: string, private size: number, private options: { [name: string]: string } = {}) {}
+
+  async init() {
+    for (let i = 0; i < this.size; i++) {
+      const engine = new Engine(this.enginePath);
+      await engine.init();
+      for (const [name, value] of Object.entries(this.options)) {
+        await engine.setoption(name, value);
+      }
+      await engine.isready();
+      this.idle.push({ engine, lastGameId: null });
+    }
+    console.log(`Engine pool for ${this.enginePath} initialized with ${this.size} process(es)`);
+  }
+
+  /**
+   * Run a task on a pooled engine on behalf of a game.
+   *
+   * @param gameId - The game the search belongs to, or null for one-off requests
+   * @param task - The work to perform with exclusive access to the engine
+   */
+  async run<T>(gameId: string | null, task: (engine: Engine) => Promise<T>): Promise<T> {
+    const pooled = await this.acquire();
+    try {
+      if (gameId === null || pooled.lastGameId !== gameId) {
+        await pooled.engine.ucinewgame();
+        await pooled.engine.isready();
+        pooled.lastGameId = gameId;
+      }
+      return await task(pooled.engine);
+    } finally {
+      this.release(pooled);
+    }
+  }
+
+  private acquire(): Promise<PooledEngine> {
+    const pooled = this.idle.pop();
+    if (pooled) {
+      return Promise.resolve(pooled);
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private release(pooled: PooledEngine) {
+    const next = this.waiting.shift();
+    if (next) {
+      next(pooled);
+    } else {
+      this.idle.push(pooled);
+    }
+  }
+}
+
+interface InfoItem {
+  multipv?: number;
+  score?: UciScore;
+  pv?: string;
+}
+
+/**
+ * One of the best moves in a position, with the line the engine expects.
+ */
+export interface CandidateMove {
+  pv: string[]; // UCI, starting with the move itself
+  evaluation: Evaluation;
+}
+
+/**
+ * Search a position on a pooled engine.
+ * @param pool - The engines to search with
+ * @param board - FEN string of the position
+ * @param poolKey - The game or analysis the search belongs to, or null for a one-off search
+ * @param strength - The search depth and any limits on the engine's strength
+ * @returns The best move in UCI notation and the evaluation from White's point of view
+ */
+export async function searchPosition(pool: StockfishPool, board: string, poolKey: string | null, strength: EngineStrength): Promise<PositionEvaluation> {
+  const result = await pool.run(poolKey, async (engine) => {
+    const options = getStrengthOptions(strength);
+    for (const [name, value] of Object.entries(options)) {
+      await engine.setoption(name, value);
+    }
+    try {
+      await engine.position(board);
+      return await engine.go(getGoOptions(strength));
+    } finally {
+      // Leave the engine at full strength for the next search
+      for (const [name, value] of Object.entries(getFullStrengthOptions(options))) {
+        await engine.setoption(name, value);
+      }
+    }
+  });
+
+  // Parse the evaluation from the last engine output line that has a score
+  const lastInfo = result.info
+    .filter((item): item is InfoItem => typeof item === 'object')
+    .reverse()
+    .find(item => item.score !== undefined);
+
+  if (lastInfo && lastInfo.score) {
+    return { bestMove: result.bestmove, evaluation: normalizeScore(lastInfo.score, getSideToMove(board)) };
+  } else {
+    console.error('Invalid or missing score information');
+    return { bestMove: result.bestmove, evaluation: EVEN_EVALUATION };
+  }
+}
+
+/**
+ * Search a position at full strength for its best few moves.
+ * @param count - The number of moves to rank (MultiPV)
+ * @returns The candidates, best first; fewer when the position has fewer legal moves
+ */
+export async function searchCandidates(pool: StockfishPool, board: string, poolKey: string | null, depth: number, count: number): Promise<CandidateMove[]> {
+  const result = await pool.run(poolKey, async (engine) => {
+    await engine.setoption('MultiPV', count.toString());
+    try {
+      await engine.position(board);
+      return await engine.go({ depth });
+    } finally {
+      // The pool is shared, so leave the engine in single-line mode
+      await engine.setoption('MultiPV', '1');
+    }
+  });
+
+  // Later info lines are deeper, so the last one of each rank wins
+  const candidates: CandidateMove[] = [];
+  result.info
+    .filter((item): item is InfoItem => typeof item === 'object')
+    .forEach((item) => {
+      if (!item.score || !item.pv) return;
+      candidates[(item.multipv || 1) - 1] = {
+        pv: item.pv.trim().split(/\s+/),
+        evaluation: normalizeScore(item.score, getSideToMove(board))
+      };
+    });
+  return candidates.filter(candidate => candidate !== undefined);
+}
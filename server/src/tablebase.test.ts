@@ -0,0 +1,21 @@
+import { parseProbeOutput } from './tablebase';
+
+describe('parseProbeOutput', () => {
+  test('reads the result from the side to move', () => {
+    const output = '[Event ""]\n[WDL "Win"]\n[DTZ "21"]\n[WinningMoves "Kd6"]\n';
+    expect(parseProbeOutput(output, 'w')).toEqual({ wdl: 'win', dtz: 21 });
+    expect(parseProbeOutput(output, 'b')).toEqual({ wdl: 'loss', dtz: 21 });
+  });
+
+  test('scores wins and losses beyond the 50-move rule as draws', () => {
+    expect(parseProbeOutput('[WDL "CursedWin"]\n[DTZ "107"]', 'w')).toEqual({ wdl: 'draw', dtz: 107 });
+    expect(parseProbeOutput('[WDL "BlessedLoss"]\n[DTZ "103"]', 'b')).toEqual({ wdl: 'draw', dtz: 103 });
+    expect(parseProbeOutput('[WDL "Draw"]\n[DTZ "0"]', 'w')).toEqual({ wdl: 'draw', dtz: 0 });
+  });
+
+  test('ignores output without a known result', () => {
+    expect(parseProbeOutput('', 'w')).toBeNull();
+    expect(parseProbeOutput('[WDL "Win"]', 'w')).toBeNull();
+    expect(parseProbeOutput('[WDL "Unknown"]\n[DTZ "5"]', 'w')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { Evaluation, PlayerColor, TablebaseResult } from '../../shared/types';
+import { getSideToMove } from './evaluation';
+
+const execFileAsync = promisify(execFile);
+
+// The largest Syzygy tables there are
+export const MAX_TABLEBASE_PIECES = 7;
+
+// Centipawn value given to a tablebase win, above any heuristic score but below mates
+export const TABLEBASE_WIN_CP = 5000;
+
+const PROBE_TIMEOUT_MS = 5000;
+
+interface TablebaseConfig {
+  // Directories of Syzygy files, separated like PATH
+  tablebasePath: string;
+  // The Fathom command line prober
+  proberPath: string;
+}
+
+let config: TablebaseConfig | null = null;
+
+/**
+ * Enable probing if any of the tablebase directories exists. Positions are
+ * probed with Fathom, which reads the Syzygy files directly.
+ *
+ * @returns Whether tablebases are available
+ */
+export function configureTablebases(tablebasePath: string | undefined, proberPath: string): boolean {
+  if (!tablebasePath || !tablebasePath.split(path.delimiter).some(dir => fs.existsSync(dir))) {
+    console.log('No Syzygy tablebases configured, endgames are evaluated by the engine');
+    config = null;
+    return false;
+  }
+  config = { tablebasePath, proberPath };
+  console.log(`Probing Syzygy tablebases in ${tablebasePath} with ${proberPath}`);
+  return true;
+}
+
+/**
+ * The tablebase directories, for engines that probe them during their search.
+ */
+export function getTablebasePath(): string | null {
+  return config ? config.tablebasePath : null;
+}
+
+function countPieces(fen: string): number {
+  return fen.split(' ')[0].replace(/[^a-zA-Z]/g, '').length;
+}
+
+/**
+ * Read the WDL and DTZ tags that Fathom prints, e.g. [WDL "CursedWin"] and
+ * [DTZ "21"]. Both are from the side to move. Cursed wins and blessed losses
+ * cannot be won under the 50-move rule, so they are draws.
+ */
+export function parseProbeOutput(output: string, sideToMove: PlayerColor): TablebaseResult | null {
+  const wdlMatch = output.match(/\[WDL "(\w+)"\]/);
+  const dtzMatch = output.match(/\[DTZ "(\d+)"\]/);
+  if (!wdlMatch || !dtzMatch) return null;
+
+  const outcomes: { [wdl: string]: 1 | 0 | -1 } = { Win: 1, CursedWin: 0, Draw: 0, BlessedLoss: 0, Loss: -1 };
+  const outcome = outcomes[wdlMatch[1]];
+  if (outcome === undefined) return null;
+  const whiteOutcome = sideToMove === 'w' ? outcome : -outcome;
+  return {
+    wdl: whiteOutcome === 1 ? 'win' : whiteOutcome === -1 ? 'loss' : 'draw',
+    dtz: parseInt(dtzMatch[1], 10)
+  };
+}
+
+/**
+ * Look a position up in the tablebases.
+ *
+ * @returns The exact result, or null if tablebases are not configured or do not cover the position
+ */
+export async function probeTablebase(fen: string): Promise<TablebaseResult | null> {
+  if (!config) return null;
+  // The tables know nothing about castling
+  const castling = fen.split(' ')[2];
+  if (countPieces(fen) > MAX_TABLEBASE_PIECES || (castling && castling !== '-')) return null;
+
+  try {
+    const { stdout } = await execFileAsync(config.proberPath, [`--path=${config.tablebasePath}`, fen], { timeout: PROBE_TIMEOUT_MS });
+    return parseProbeOutput(stdout, getSideToMove(fen));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      console.error(`Tablebase prober ${config.proberPath} not found, disabling tablebase probing`);
+      config = null;
+    }
+    // Otherwise the tables for the material are missing, which is common enough not to log
+    return null;
+  }
+}
+
+/**
+ * Replace an engine evaluation with the tablebase result when the position
+ * is covered. A mate found by the engine is exact as well and says more, so
+ * it is kept for won and lost positions.
+ */
+export async function addTablebaseResult(fen: string, evaluation: Evaluation): Promise<Evaluation> {
+  if (evaluation.tablebase) return evaluation;
+  const result = await probeTablebase(fen);
+  if (!result) return evaluation;
+  if (evaluation.type === 'mate' && result.wdl !== 'draw') {
+    return { ...evaluation, tablebase: result };
+  }
+  const value = result.wdl === 'win' ? TABLEBASE_WIN_CP : result.wdl === 'loss' ? -TABLEBASE_WIN_CP : 0;
+  return { type: 'cp', value, perspective: 'w', tablebase: result };
+}
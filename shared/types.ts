@@ -1,11 +1,45 @@
+/* Time Controls */
+export type TimeControl =
+  | { type: 'clock'; initialSeconds: number; incrementSeconds: number } // e.g. 5+3
+  | { type: 'correspondence'; daysPerMove: number };
+
+// Remaining time in milliseconds as of when the snapshot was sent
+export interface ClockSnapshot {
+  white: number;
+  black: number;
+  running: PlayerColor | null;
+}
+
+/* Opponents */
+export interface OpponentInfo {
+  id: string; // Sent as NewGameRequest.opponent
+  name: string;
+  description: string;
+  // Whether the engine honours the search depth of the game
+  supportsDepth: boolean;
+  available: boolean;
+}
+
+export interface OpponentsResponse {
+  opponents: OpponentInfo[];
+}
+
 /* New Game */
 export interface NewGameRequest {
   opponent: string;
+  strength?: EngineStrength; // Depth 10 at full strength when left out
+  timeControl?: TimeControl; // Untimed when left out
+  color?: ColorChoice; // The human's color, White when left out
+  startFen?: string; // The standard starting position when left out
+  moves?: string[]; // SAN moves already played from startFen, e.g. from an imported PGN
+  bookPlies?: number; // Plies in which the engine varies its play with book moves, none when left out
 }
 
 export interface NewGameSuccessResponse {
   success: true;
   message: string;
+  gameId: string; // Passed to every later call for this game
+  color: PlayerColor; // The color the human plays, with 'random' resolved
 }
 
 export interface NewGameErrorResponse {
@@ -15,11 +49,88 @@ export interface NewGameErrorResponse {
 
 export type NewGameResponse = NewGameSuccessResponse | NewGameErrorResponse;
 
+/* End Game */
+export interface EndGameRequest {
+  gameId: string;
+}
+
+export type EndGameResponse = { success: true; message: string } | { success: false; error: string };
+
+/* Game State */
+// An engine game as the server knows it, used to pick the game up again after a reload
+export interface EngineGameState {
+  gameId: string;
+  opponent: string;
+  color: PlayerColor; // The color the human plays
+  startFen: string;
+  moves: string[]; // SAN moves from startFen
+  status: GameStatus;
+  timeControl: TimeControl | null;
+  opening: OpeningInfo | null;
+}
+
+export type GameStateResponse = { success: true; state: EngineGameState } | { success: false; error: string };
+
+/* Resign */
+export interface ResignRequest {
+  gameId: string;
+}
+
+/* Undo */
+export interface UndoRequest {
+  gameId: string;
+  plies: number; // Number of half-moves to take back
+}
+
+export type UndoResponse = { success: true; fen: string; opening: OpeningInfo | null } | { success: false; error: string };
+
+/* Timeout */
+export interface TimeoutRequest {
+  gameId: string;
+  color: PlayerColor; // The side whose flag fell
+}
+
+/* Engine Strength */
+// How strongly an engine opponent plays. Depth is always a limit; the others apply when set.
+export interface EngineStrength {
+  depth: number;
+  skillLevel?: number; // Stockfish's "Skill Level", 0-20
+  elo?: number; // Plays at this rating through UCI_LimitStrength and UCI_Elo
+  movetimeMs?: number; // Time per move
+  nodes?: number; // Nodes searched per move
+}
+
+export interface SetStrengthRequest {
+  gameId: string;
+  strength: EngineStrength;
+}
+
+/* Evaluations */
+// An engine score, normalized by the server to White's point of view
+export interface Evaluation {
+  type: 'cp' | 'mate';
+  // Centipawns, or moves until mate; positive when White is better or mates
+  value: number;
+  perspective: PlayerColor; // Always 'w' once normalized
+  tablebase?: TablebaseResult; // Set when the position was looked up in the endgame tablebases
+}
+
+// The exact result of an endgame position from the Syzygy tablebases
+export interface TablebaseResult {
+  wdl: 'win' | 'draw' | 'loss'; // For White under the 50-move rule
+  dtz: number; // Plies to the next capture or pawn move with best play
+}
+
+/* Openings */
+export interface OpeningInfo {
+  eco: string; // e.g. "C65"
+  name: string; // e.g. "Ruy Lopez: Berlin Defense"
+}
 
 /* GetMove */
 export interface GetMoveRequest {
+  gameId: string;
   board: string;
-  opponent: string;
 }
 
 export interface SuccessfulGetMoveResponse {
@@ -28,26 +139,37 @@ export interface SuccessfulGetMoveResponse {
     to: string;
     promotion?: string;
   };
-  evaluation: number;
+  evaluation: Evaluation | null; // Of the position before the move, null for book moves played without a search
+  opening: OpeningInfo | null; // After the move, null outside the opening database
 }
 
 export interface ErrorResponse {
   error: string;
 }
 
+// The answer to a request whose access token is invalid or has expired
+export interface InvalidTokenResponse {
+  error: string;
+  code: 'invalid_token'; // The client refreshes the access token and sends the request again
+}
+
 export type GetMoveResponse = SuccessfulGetMoveResponse | ErrorResponse;
 
 /* Move */
+export type PromotionPiece = 'q' | 'r' | 'b' | 'n';
+
 export interface MoveRequest {
+  gameId: string;
   from: string;
   to: string;
-  promotion?: string;
+  promotion?: PromotionPiece; // Required when a pawn reaches the last rank
   san: string; // Add the SAN move property
 }
 
 export interface SuccessfulMoveResponse {
   success: true;
   message: string;
+  opening: OpeningInfo | null; // After the move, null outside the opening database
 }
 
 export interface ErrorMoveResponse {
@@ -92,21 +214,257 @@ export interface OnlineUser {
   username: string;
 }
 
+/* Multiplayer */
+export type PlayerColor = 'w' | 'b';
+
+export type ColorChoice = PlayerColor | 'random';
+
+export type GameStatus = 'active' | 'resigned' | 'checkmate' | 'draw' | 'timeout' | 'abandoned';
+
+export interface MultiplayerGameState {
+  gameId: string;
+  white: string;
+  black: string;
+  fen: string;
+  moves: string[]; // SAN moves from the starting position
+  turn: PlayerColor;
+  status: GameStatus;
+  result: GameResult | null; // Set once the game is over
+  timeControl: TimeControl | null;
+  clock: ClockSnapshot | null;
+  opening: OpeningInfo | null;
+}
+
+// A message of the in-game chat between the two players of a multiplayer game
+export interface ChatMessage {
+  sender: string;
+  text: string; // Profanity is already masked by the server
+  sentAt: string;
+}
+
+// A running multiplayer game that can be watched
+export interface LiveGameSummary {
+  gameId: string;
+  white: string;
+  black: string;
+  timeControl: TimeControl | null;
+  watchers: number; // Spectators currently watching
+  startedAt: string;
+}
+
+/* Game History */
+export type GameResult = '1-0' | '0-1' | '1/2-1/2';
+
+export type GameTermination =
+  | 'checkmate'
+  | 'resignation'
+  | 'timeout'
+  | 'abandonment'
+  | 'stalemate'
+  | 'insufficient_material'
+  | 'threefold_repetition'
+  | 'fifty_move_rule';
+
+export interface GameRecord {
+  id: number;
+  white_player_id: number | null;
+  black_player_id: number | null;
+  white_name: string;
+  black_name: string;
+  opponent_type: string; // 'human' or the engine that was played
+  engine_depth: number | null;
+  result: GameResult;
+  termination: GameTermination;
+  pgn: string;
+  start_fen: string;
+  end_fen: string;
+  started_at: string;
+  ended_at: string;
+}
+
+// The list endpoint leaves out the move text
+export type GameSummary = Omit<GameRecord, 'pgn'>;
+
+/* Ratings */
+export interface RatingHistoryEntry {
+  id: number;
+  user_id: number;
+  game_id: number | null;
+  opponent_name: string;
+  opponent_rating: number;
+  old_rating: number;
+  new_rating: number;
+  created_at: string;
+}
+
+/* Game Analysis */
+export interface AnalyzeRequest {
+  moves: string[]; // SAN moves from the starting position
+  startFen?: string; // The standard starting position when left out
+  depth?: number;
+}
+
+export type AnalyzeResponse = { success: true; analysisId: string } | { success: false; error: string };
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface AnalyzedMove {
+  ply: number; // 1 for White's first move
+  color: PlayerColor;
+  san: string;
+  bestMove: string | null; // The engine's choice in SAN
+  evaluationBefore: Evaluation;
+  evaluationAfter: Evaluation;
+  centipawnLoss: number;
+  classification: MoveClassification;
+}
+
+export interface AnalysisReport {
+  moves: AnalyzedMove[];
+  // Average accuracy per side in percent, or null if the side made no moves
+  accuracy: { white: number | null; black: number | null };
+}
+
+export interface AnalysisProgress {
+  analysisId: string;
+  status: 'running' | 'done' | 'failed';
+  analyzedPositions: number;
+  totalPositions: number;
+  report: AnalysisReport | null; // Set once the status is 'done'
+  error?: string;
+}
+
+/* Engine Lines */
+export interface EngineLinesRequest {
+  board: string; // FEN of the position to search
+  gameId?: string;
+  lines?: number; // Number of candidate lines (MultiPV), 3 when left out
+  depth?: number; // Depth at which the search stops
+}
+
+export type EngineLinesResponse = { success: true; searchId: string } | { success: false; error: string };
+
+export interface EngineLine {
+  rank: number; // 1 for the engine's first choice
+  depth: number;
+  evaluation: Evaluation;
+  nodes: number;
+  moves: string[]; // The principal variation in SAN
+  firstMove: { from: string; to: string; promotion?: string };
+}
+
+export interface EngineLinesProgress {
+  searchId: string;
+  status: 'running' | 'done' | 'stopped' | 'failed';
+  depth: number; // Deepest depth completed for every line so far
+  targetDepth: number;
+  lines: EngineLine[]; // Best first
+}
+
+/* Engine Matches */
+export interface MatchParticipant {
+  opponent: string; // An id from GET /api/opponents
+  strength?: EngineStrength; // For engines that support it; depth 10 when left out
+}
+
+export interface StartMatchRequest {
+  engines: [MatchParticipant, MatchParticipant];
+  games: number;
+  // FENs or move text such as "1. e4 e5 2. Nf3"; each is played once with either engine as White
+  openings?: string[];
+}
+
+export type StartMatchResponse = { success: true; matchId: string } | { success: false; error: string };
+
+export interface MatchGameSummary {
+  round: number;
+  white: string;
+  black: string;
+  result: GameResult;
+  termination: GameTermination;
+  recordedGameId: number | null; // The game in the games table, if it could be stored
+}
+
+// From the first engine's point of view
+export interface MatchStanding {
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number; // Points scored, a draw being half a point
+  eloDifference: number | null; // Null until both engines have scored
+  errorMargin: number | null; // 95% confidence, in Elo
+}
+
+export interface MatchProgress {
+  matchId: string;
+  status: 'running' | 'done' | 'stopped' | 'failed';
+  engines: [string, string]; // Display names, including the strength played
+  totalGames: number;
+  games: MatchGameSummary[];
+  standing: MatchStanding;
+  // The game being played, if any
+  currentGame: {
+    round: number;
+    white: string;
+    black: string;
+    fen: string;
+    moves: string[]; // SAN
+  } | null;
+  error?: string;
+}
+
+/* Puzzles */
+// A puzzle as shown to the solver; the solution stays on the server
+export interface Puzzle {
+  id: number;
+  fen: string; // The solver is to move
+  rating: number;
+  gameId: number | null; // The stored game the position comes from
+}
+
+export interface NextPuzzleResponse {
+  puzzle: Puzzle | null; // null when the user has tried every puzzle
+  puzzleRating: number;
+}
+
+export interface PuzzleMoveRequest {
+  // Every move played from the puzzle position in UCI, the solver's latest move last
+  moves: string[];
+}
+
+export interface PuzzleRatingChange {
+  oldRating: number;
+  newRating: number;
+}
+
+export type PuzzleMoveResponse =
+  | { result: 'correct'; reply: string } // The opponent's answer in UCI
+  | { result: 'solved'; ratingChange: PuzzleRatingChange | null }
+  // The engine's refutation of the wrong move and the rest of the solution, both in UCI
+  | { result: 'failed'; refutation: string[]; solution: string[]; ratingChange: PuzzleRatingChange | null };
+
 /* WebSocket Messages */
 
 export type WebSocketMessage =
   | {
+      // The first message on every connection; sent again with a refreshed token before the old one expires
       type: 'login';
-      username: string;
+      token: string; // The access token from /api/login
+    }
+  | {
+      // Answers every accepted login; the client refreshes its token before it expires
+      type: 'login_accepted';
+      expiresInMs: number; // Time left until the connection is closed unless the token is refreshed
     }
   | {
       type: 'challenge';
-      from: string;
       to: string;
+      timeControl: TimeControl | null;
     }
   | {
       type: 'challenge_received';
       from: string;
+      timeControl: TimeControl | null;
     }
   | {
       type: 'challenge_response';
@@ -114,11 +472,101 @@ export type WebSocketMessage =
       to: string;
       accepted: boolean;
     }
+  | {
+      // A challenge the server would not pass on, or an answer to one that can no longer be accepted
+      type: 'challenge_refused';
+      opponent: string;
+      reason: string;
+    }
   | {
       type: 'start_game';
       opponent: string;
+      gameId: string;
+      color: PlayerColor;
+      fen: string;
+      timeControl: TimeControl | null;
+    }
+  | {
+      type: 'move';
+      gameId: string;
+      from: string;
+      to: string;
+      promotion?: string;
+    }
+  | {
+      type: 'resign';
+      gameId: string;
+    }
+  | {
+      type: 'move_rejected';
+      gameId: string;
+      reason: string;
+    }
+  | {
+      type: 'game_state';
+      state: MultiplayerGameState;
+    }
+  | {
+      // Sent to a player who logs in again while their game is still running
+      type: 'resume_game';
+      opponent: string;
+      color: PlayerColor;
+      state: MultiplayerGameState;
+    }
+  | {
+      // The opponent forfeits unless they reconnect within graceMs
+      type: 'opponent_disconnected';
+      gameId: string;
+      graceMs: number;
+    }
+  | {
+      type: 'opponent_reconnected';
+      gameId: string;
+    }
+  | {
+      type: 'chat_message';
+      gameId: string;
+      text: string;
+    }
+  | {
+      // A chat message sent to both players, including its sender
+      type: 'chat_message_received';
+      gameId: string;
+      message: ChatMessage;
+    }
+  | {
+      type: 'chat_message_rejected';
+      gameId: string;
+      reason: string;
+    }
+  | {
+      type: 'watch' | 'unwatch';
+      gameId: string;
+    }
+  | {
+      // Sent to spectators when they start watching and after every change of the game
+      type: 'spectator_state';
+      state: MultiplayerGameState;
+    }
+  | {
+      type: 'live_games';
+      games: LiveGameSummary[];
+    }
+  | {
+      type: 'rating_update';
+      gameId: number; // The recorded game that changed the rating
+      oldRating: number;
+      newRating: number;
     }
   | {
       type: 'onlineUsers';
       users: OnlineUser[];
+    }
+  | {
+      type: 'watch_match' | 'unwatch_match';
+      matchId: string;
+    }
+  | {
+      type: 'match_update';
+      match: MatchProgress;
     };